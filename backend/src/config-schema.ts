@@ -5,6 +5,7 @@ import type { KoryphaiosConfig } from "@koryphaios/shared";
 import { ConfigError } from "./errors";
 import { serverLog } from "./logger";
 import { resolveModel } from "./providers/types";
+import { isAbsolute } from "path";
 
 /**
  * Validates the loaded configuration against expected schema
@@ -37,6 +38,14 @@ export function validateConfig(config: Partial<KoryphaiosConfig>): void {
         }
       }
     }
+    const isolation = config.agents.coder?.isolation;
+    if (isolation !== undefined && isolation !== "shared" && isolation !== "worktree") {
+      errors.push('agents.coder.isolation must be "shared" or "worktree"');
+    }
+    const maxQuestions = config.agents.manager?.maxClarifyQuestions;
+    if (maxQuestions !== undefined && (!Number.isInteger(maxQuestions) || maxQuestions < 0)) {
+      errors.push("agents.manager.maxClarifyQuestions must be a non-negative integer");
+    }
   }
 
   // Validate assignments config
@@ -150,6 +159,78 @@ export function validateConfig(config: Partial<KoryphaiosConfig>): void {
     }
   }
 
+  // Validate budgets
+  if (config.budgets) {
+    for (const key of ["maxTaskUsd", "maxSessionUsd", "maxDailyUsd", "maxWorkerTokens"] as const) {
+      const value = config.budgets[key];
+      if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+        errors.push(`budgets.${key} must be a positive number`);
+      }
+    }
+    const ratio = config.budgets.softLimitRatio;
+    if (ratio !== undefined && (typeof ratio !== "number" || ratio <= 0 || ratio > 1)) {
+      errors.push("budgets.softLimitRatio must be a number in (0, 1]");
+    }
+  }
+
+  // Validate permission rules
+  if (config.permissions) {
+    const actions = ["allow", "ask", "deny"];
+    const { rules, default: fallback } = config.permissions;
+    if (fallback !== undefined && !actions.includes(fallback)) {
+      errors.push("permissions.default must be allow, ask or deny");
+    }
+    if (rules !== undefined && !Array.isArray(rules)) {
+      errors.push("permissions.rules must be an array");
+    } else {
+      rules?.forEach((rule, i) => {
+        if (!actions.includes(rule?.action)) {
+          errors.push(`permissions.rules[${i}].action must be allow, ask or deny`);
+        }
+        for (const key of ["tool", "path", "command"] as const) {
+          if (rule?.[key] !== undefined && (typeof rule[key] !== "string" || !rule[key])) {
+            errors.push(`permissions.rules[${i}].${key} must be a non-empty string`);
+          }
+        }
+      });
+    }
+  }
+
+  // Validate verification checks
+  if (config.verification) {
+    const { checks, timeoutSeconds } = config.verification;
+    if (timeoutSeconds !== undefined && (typeof timeoutSeconds !== "number" || !(timeoutSeconds > 0))) {
+      errors.push("verification.timeoutSeconds must be a positive number");
+    }
+    if (checks !== undefined && !Array.isArray(checks)) {
+      errors.push("verification.checks must be an array");
+    } else {
+      checks?.forEach((check, i) => {
+        for (const key of ["name", "command"] as const) {
+          if (typeof check?.[key] !== "string" || !check[key]) {
+            errors.push(`verification.checks[${i}].${key} must be a non-empty string`);
+          }
+        }
+        if (check?.cwd !== undefined && (typeof check.cwd !== "string" || isAbsolute(check.cwd) || check.cwd.split(/[\\/]/).includes(".."))) {
+          errors.push(`verification.checks[${i}].cwd must be a path inside the project`);
+        }
+        if (check?.timeoutSeconds !== undefined && (typeof check.timeoutSeconds !== "number" || !(check.timeoutSeconds > 0))) {
+          errors.push(`verification.checks[${i}].timeoutSeconds must be a positive number`);
+        }
+      });
+    }
+  }
+
+  // Validate provider cassette
+  if (config.cassette) {
+    if (config.cassette.mode !== "record" && config.cassette.mode !== "replay") {
+      errors.push("cassette.mode must be record or replay");
+    }
+    if (typeof config.cassette.path !== "string" || !config.cassette.path) {
+      errors.push("cassette.path must be a non-empty string");
+    }
+  }
+
   if (errors.length > 0) {
     serverLog.error({ errors }, "Configuration validation failed");
     throw new ConfigError(
@@ -10,6 +10,8 @@ export const SESSION = {
   DEFAULT_TITLE: "New Session",
   /** Characters to extract from first message for auto-title */
   AUTO_TITLE_CHARS: 50,
+  /** Autonomy level of new sessions */
+  DEFAULT_AUTONOMY: "auto_edit",
 } as const;
 
 export const MESSAGE = {
@@ -17,6 +19,8 @@ export const MESSAGE = {
   MAX_CONTENT_LENGTH: 100_000,
   /** Maximum attachment size (future use) */
   MAX_ATTACHMENT_SIZE: 10_000_000, // 10MB
+  /** Stored turns replayed to a model as conversation history (compaction keeps them in budget) */
+  HISTORY_TURNS: 60,
 } as const;
 
 /**
@@ -101,6 +105,69 @@ export const AGENT = {
   
   /** Default reasoning level */
   DEFAULT_REASONING_LEVEL: "high" as const,
+
+  /** Questions the clarification gate may ask when the config does not say */
+  DEFAULT_MAX_CLARIFY_QUESTIONS: 3,
+  /** Requests shorter than this, and greetings or thanks up to the chat limit, skip the clarification gate */
+  CLARIFY_MIN_WORDS: 4,
+  CLARIFY_CHAT_MAX_WORDS: 8,
+
+  /** Task decomposition limits */
+  MAX_PLAN_STEPS: 12,
+  MAX_SUBTASKS: 8,
+  MAX_PARALLEL_WORKERS: 3,
+} as const;
+
+/**
+ * Spend Budgets
+ */
+export const BUDGET = {
+  /** Default fraction of a limit at which Kory asks before continuing */
+  SOFT_LIMIT_RATIO: 0.8,
+} as const;
+
+/**
+ * Project Memory
+ */
+export const MEMORY = {
+  DIRECTORY: ".koryphaios/memory",
+  MAX_CONTENT_LENGTH: 2000,
+  /** Entries returned by the recall tool */
+  RECALL_LIMIT: 10,
+  /** Entries injected into a system prompt */
+  PROMPT_LIMIT: 8,
+} as const;
+
+/**
+ * Context Compaction
+ */
+export const COMPACTION = {
+  /** Compact once the estimated prompt reaches this fraction of the context window */
+  THRESHOLD: 0.8,
+  /** Messages at the end of a conversation that are always kept verbatim */
+  KEEP_RECENT_MESSAGES: 6,
+  /** Assumed window when the model's context size cannot be trusted */
+  FALLBACK_CONTEXT_WINDOW: 128_000,
+  /** Rough characters-per-token ratio for estimating prompt size */
+  CHARS_PER_TOKEN: 4,
+  SUMMARY_MAX_TOKENS: 2048,
+} as const;
+
+export const VERIFICATION = {
+  /** Per-check timeout when neither the check nor the config sets one */
+  DEFAULT_TIMEOUT_SECONDS: 300,
+  /** Parsed failures kept per check */
+  MAX_FAILURES: 30,
+  /** Output lines kept per check for failures no parser recognised */
+  OUTPUT_TAIL_LINES: 40,
+} as const;
+
+/**
+ * Checkpoints
+ */
+export const CHECKPOINT = {
+  /** Files larger than this are left out of restore points (build output, media, archives) */
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
 } as const;
 
 /**
@@ -123,6 +190,13 @@ export const DEFAULT_CONTEXT_PATHS: string[] = [
   "CONVENTIONS.md",
 ];
 
+export const CONTEXT_FILES = {
+  /** Characters kept from a single context file */
+  MAX_FILE_CHARS: 8_000,
+  /** Characters of context files added to one system prompt */
+  MAX_TOTAL_CHARS: 24_000,
+} as const;
+
 /**
  * Logging
  */
@@ -155,6 +229,17 @@ export const PROVIDER = {
     OPENROUTER: "OPENROUTER_API_KEY",
     VERTEXAI: "GOOGLE_APPLICATION_CREDENTIALS",
   } as const,
+
+  /** Retries per model before moving down the fallback chain */
+  STREAM_MAX_RETRIES: 3,
+  /** Consecutive failures before a provider's circuit opens */
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+  /** How long an open circuit rejects calls before allowing a trial request (ms) */
+  CIRCUIT_COOLDOWN_MS: 60_000,
+  /** How long a provider's discovered model list is reused before /models is queried again (ms) */
+  MODEL_CACHE_TTL_MS: 5 * 60 * 1000,
+  /** Attempts at a /models listing before falling back to the catalog */
+  MODEL_LIST_MAX_ATTEMPTS: 2,
 } as const;
 
 /**
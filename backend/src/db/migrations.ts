@@ -0,0 +1,151 @@
+// Versioned SQLite schema migrations.
+// Each migration runs once, in order, inside its own transaction; applied versions
+// are recorded in schema_migrations so stores can rely on the columns they use.
+
+import type { Database } from "bun:sqlite";
+import { serverLog } from "../logger";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): void;
+}
+
+/** Add a column unless it already exists (SQLite has no ADD COLUMN IF NOT EXISTS). */
+export function addColumnIfMissing(db: Database, table: string, column: string, definition: string) {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.some((c) => c.name === column)) return;
+  db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up(db) {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          parent_id TEXT,
+          message_count INTEGER DEFAULT 0,
+          tokens_in INTEGER DEFAULT 0,
+          tokens_out INTEGER DEFAULT 0,
+          total_cost REAL DEFAULT 0,
+          workflow_state TEXT DEFAULT 'idle',
+          created_at INTEGER,
+          updated_at INTEGER
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          model TEXT,
+          provider TEXT,
+          tokens_in INTEGER,
+          tokens_out INTEGER,
+          cost REAL,
+          created_at INTEGER,
+          FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          description TEXT NOT NULL,
+          domain TEXT,
+          status TEXT DEFAULT 'pending',
+          assigned_model TEXT,
+          allowed_paths TEXT, -- JSON array of whitelisted paths
+          result TEXT,
+          error TEXT,
+          created_at INTEGER,
+          updated_at INTEGER,
+          FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "durable_tasks",
+    up(db) {
+      addColumnIfMissing(db, "tasks", "run_id", "TEXT");
+      addColumnIfMissing(db, "tasks", "assigned_provider", "TEXT");
+      addColumnIfMissing(db, "tasks", "plan", "TEXT");
+      addColumnIfMissing(db, "tasks", "depends_on", "TEXT"); // JSON array of task ids
+      addColumnIfMissing(db, "tasks", "transcript_path", "TEXT");
+      db.run("CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status)");
+      db.run("CREATE INDEX IF NOT EXISTS idx_tasks_run ON tasks(run_id)");
+    },
+  },
+  {
+    version: 3,
+    name: "message_agent",
+    up(db) {
+      addColumnIfMissing(db, "messages", "agent_id", "TEXT");
+    },
+  },
+  {
+    version: 4,
+    name: "daily_spend",
+    up(db) {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS daily_spend (
+          day TEXT PRIMARY KEY, -- YYYY-MM-DD, server local time
+          cost REAL NOT NULL DEFAULT 0,
+          tokens INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "session_autonomy",
+    up(db) {
+      addColumnIfMissing(db, "sessions", "autonomy", "TEXT NOT NULL DEFAULT 'auto_edit'");
+    },
+  },
+  {
+    version: 6,
+    name: "task_plan_steps",
+    up(db) {
+      addColumnIfMissing(db, "tasks", "plan_steps", "TEXT");
+    },
+  },
+];
+
+/**
+ * Apply every migration newer than the database's recorded version.
+ * Returns the schema version after running.
+ */
+export function runMigrations(db: Database, migrations: Migration[] = MIGRATIONS): number {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const row = db.query("SELECT MAX(version) AS version FROM schema_migrations").get() as { version: number | null } | null;
+  let current = row?.version ?? 0;
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      migration.up(db);
+      db.run("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)", [migration.version, migration.name, Date.now()]);
+    })();
+    current = migration.version;
+    serverLog.info({ version: migration.version, name: migration.name }, "Applied schema migration");
+  }
+
+  return current;
+}
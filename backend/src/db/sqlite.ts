@@ -2,6 +2,7 @@ import { Database } from "bun:sqlite";
 import { join } from "path";
 import { mkdirSync } from "fs";
 import { serverLog } from "../logger";
+import { runMigrations } from "./migrations";
 
 let db: Database;
 
@@ -13,56 +14,9 @@ export function initDb(dataDir: string) {
   // Enable WAL mode for better concurrency
   db.exec("PRAGMA journal_mode = WAL;");
 
-  // Create tables
-  db.run(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      parent_id TEXT,
-      message_count INTEGER DEFAULT 0,
-      tokens_in INTEGER DEFAULT 0,
-      tokens_out INTEGER DEFAULT 0,
-      total_cost REAL DEFAULT 0,
-      workflow_state TEXT DEFAULT 'idle',
-      created_at INTEGER,
-      updated_at INTEGER
-    )
-  `);
+  const schemaVersion = runMigrations(db);
 
-  db.run(`
-    CREATE TABLE IF NOT EXISTS messages (
-      id TEXT PRIMARY KEY,
-      session_id TEXT NOT NULL,
-      role TEXT NOT NULL,
-      content TEXT NOT NULL,
-      model TEXT,
-      provider TEXT,
-      tokens_in INTEGER,
-      tokens_out INTEGER,
-      cost REAL,
-      created_at INTEGER,
-      FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS tasks (
-      id TEXT PRIMARY KEY,
-      session_id TEXT NOT NULL,
-      description TEXT NOT NULL,
-      domain TEXT,
-      status TEXT DEFAULT 'pending',
-      assigned_model TEXT,
-      allowed_paths TEXT, -- JSON array of whitelisted paths
-      result TEXT,
-      error TEXT,
-      created_at INTEGER,
-      updated_at INTEGER,
-      FOREIGN KEY(session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  serverLog.info({ dbPath }, "Database initialized (SQLite/WAL)");
+  serverLog.info({ dbPath, schemaVersion }, "Database initialized (SQLite/WAL)");
 }
 
 export function getDb() {
@@ -94,6 +94,16 @@ export class RateLimitError extends KoryphaiosError {
   }
 }
 
+/**
+ * Spend budget errors (hard limit reached or run stopped at a soft limit)
+ */
+export class BudgetExceededError extends KoryphaiosError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, "BUDGET_EXCEEDED", 402, context);
+    this.name = "BudgetExceededError";
+  }
+}
+
 type ErrorStackFrame = {
   functionName?: string;
   file?: string;
@@ -0,0 +1,50 @@
+// Budget — compares spend against the configured limits before each provider call.
+// A soft breach (past softLimitRatio of a limit) asks the user; a hard breach stops.
+
+import type { BudgetConfig } from "@koryphaios/shared";
+import { BUDGET } from "../constants";
+
+export type BudgetScope = "task" | "session" | "daily" | "worker";
+
+export interface BudgetSpend {
+  taskUsd: number;
+  sessionUsd: number;
+  dailyUsd: number;
+  /** Tokens used so far by the worker about to call; omitted for Kory's own calls */
+  workerTokens?: number;
+}
+
+export interface BudgetBreach {
+  scope: BudgetScope;
+  level: "soft" | "hard";
+  spent: number;
+  limit: number;
+}
+
+/** Every limit `spend` has reached, hard breaches first. */
+export function checkBudget(budgets: BudgetConfig | undefined, spend: BudgetSpend): BudgetBreach[] {
+  if (!budgets) return [];
+  const ratio = budgets.softLimitRatio ?? BUDGET.SOFT_LIMIT_RATIO;
+  const limits: Array<[BudgetScope, number | undefined, number | undefined]> = [
+    ["worker", budgets.maxWorkerTokens, spend.workerTokens],
+    ["task", budgets.maxTaskUsd, spend.taskUsd],
+    ["session", budgets.maxSessionUsd, spend.sessionUsd],
+    ["daily", budgets.maxDailyUsd, spend.dailyUsd],
+  ];
+
+  const breaches: BudgetBreach[] = [];
+  for (const [scope, limit, spent] of limits) {
+    if (!limit || spent === undefined) continue;
+    if (spent >= limit) breaches.push({ scope, level: "hard", spent, limit });
+    else if (spent >= limit * ratio) breaches.push({ scope, level: "soft", spent, limit });
+  }
+  return breaches.sort((a, b) => (a.level === b.level ? 0 : a.level === "hard" ? -1 : 1));
+}
+
+export function describeBudgetBreach(breach: BudgetBreach): string {
+  if (breach.scope === "worker") {
+    return `Worker token budget: ${breach.spent.toLocaleString()} of ${breach.limit.toLocaleString()} tokens used`;
+  }
+  const label = breach.scope === "task" ? "Task" : breach.scope === "session" ? "Session" : "Daily";
+  return `${label} budget: $${breach.spent.toFixed(2)} of $${breach.limit.toFixed(2)} spent`;
+}
@@ -0,0 +1,344 @@
+// Change journal — the content every file had before an agent first wrote it during a run,
+// so rejecting the run puts back exactly those files and leaves the rest of the project,
+// tracked or not, as the user has it. Files the user edited after the agent get a
+// three-way merge that undoes only the agent's part.
+
+import { spawnSync } from "bun";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, isAbsolute, join, relative, resolve } from "path";
+import type { ChangeSummary, DiffHunk, RevertPreviewEntry } from "@koryphaios/shared";
+import type { ToolCallInput } from "../tools/registry";
+import { koryLog } from "../logger";
+
+interface JournalEntry {
+  /** Content before the agent first wrote the file; null when it didn't exist */
+  original: Buffer | null;
+  /** Content the agent last left; null when it removed the file */
+  written: Buffer | null;
+}
+
+interface RevertStep extends RevertPreviewEntry {
+  absPath: string;
+  /** What the file becomes; null removes it */
+  content: Buffer | null;
+}
+
+export interface RevertResult {
+  reverted: string[];
+  /** Reverted files that were left with conflict markers */
+  conflicts: string[];
+  /** Files left alone because the user changed them in a way that can't be merged */
+  kept: string[];
+}
+
+/** Input fields naming the files each file-writing tool touches. */
+const WRITTEN_PATH_FIELDS: Record<string, string[]> = {
+  write_file: ["path"],
+  edit_file: ["path"],
+  patch: ["path"],
+  delete_file: ["path"],
+  move_file: ["source", "destination"],
+};
+
+/** Tools whose writes can't be read off their input; what they changed is found by comparing snapshots. */
+export const SHELL_TOOLS = new Set(["bash"]);
+
+/** Absolute paths a tool call may write, or none for tools that don't write files. */
+export function writtenPaths(call: ToolCallInput, workingDirectory: string): string[] {
+  return (WRITTEN_PATH_FIELDS[call.name] ?? [])
+    .map((field) => call.input[field])
+    .filter((value): value is string => typeof value === "string" && value.length > 0)
+    .map((path) => (isAbsolute(path) ? path : resolve(workingDirectory, path)));
+}
+
+function read(path: string): Buffer | null {
+  try {
+    return statSync(path).isFile() ? readFileSync(path) : null;
+  } catch {
+    return null;
+  }
+}
+
+function same(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+export class ChangeJournal {
+  /** Entries by absolute path, per session */
+  private sessions = new Map<string, Map<string, JournalEntry>>();
+
+  constructor(private workingDirectory: string) {}
+
+  /** Note the current content of paths a tool is about to write, unless the run already has it. */
+  before(sessionId: string, paths: string[]) {
+    const entries = this.entries(sessionId);
+    for (const path of paths) {
+      if (!entries.has(path)) {
+        const content = read(path);
+        entries.set(path, { original: content, written: content });
+      }
+    }
+  }
+
+  /** Note what the tool left in paths it was allowed to write. */
+  after(sessionId: string, paths: string[]) {
+    const entries = this.sessions.get(sessionId);
+    for (const path of paths) {
+      const entry = entries?.get(path);
+      if (entry) entry.written = read(path);
+    }
+  }
+
+  /**
+   * Note files a tool changed without naming them beforehand, given the content each had
+   * before it ran. Files the run already has keep their earlier original.
+   */
+  record(sessionId: string, changes: Array<{ path: string; original: Buffer | null }>) {
+    const entries = this.entries(sessionId);
+    for (const { path, original } of changes) {
+      const entry = entries.get(path);
+      if (entry) entry.written = read(path);
+      else entries.set(path, { original, written: read(path) });
+    }
+  }
+
+  has(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /** The session's pending changes, one entry per file that differs from its original. */
+  summarize(sessionId: string): ChangeSummary[] {
+    const changes: ChangeSummary[] = [];
+    for (const [path, { original }] of this.sessions.get(sessionId) ?? []) {
+      const current = read(path);
+      if (same(current, original)) continue;
+      const hunks = parseHunks(diffFiles(path, original, current));
+      const lines = hunks.flatMap((h) => h.lines);
+      changes.push({
+        path,
+        linesAdded: lines.filter((l) => l.startsWith("+")).length,
+        linesDeleted: lines.filter((l) => l.startsWith("-")).length,
+        operation: original === null ? "create" : current === null ? "delete" : "edit",
+        ...(original !== null && current !== null && hunks.length > 0 ? { hunks: hunks.map(({ header, lines }) => ({ header, lines })) } : {}),
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Keep a file's pending change, or one hunk of it. The kept part becomes part of the
+   * file's original, so a later rejection leaves it in place.
+   */
+  accept(sessionId: string, path: string, hunk?: number, header?: string) {
+    const entry = this.entry(sessionId, path);
+    if (hunk === undefined) {
+      this.sessions.get(sessionId)!.delete(path);
+      return;
+    }
+    const target = this.hunk(path, entry, hunk, header);
+    entry.original = Buffer.from(spliceLines(entry.original!.toString("utf-8"), target.oldStart, target.oldLines, hunkSide(target, "+")));
+  }
+
+  /** Undo a file's pending change, or one hunk of it, in the working tree. */
+  reject(sessionId: string, path: string, hunk?: number, header?: string) {
+    const entry = this.entry(sessionId, path);
+    if (hunk === undefined) {
+      const step = this.plan(sessionId).find((s) => s.absPath === path);
+      if (step?.action === "keep") throw new Error(`${step.path}: ${step.reason}`);
+      if (step) this.apply(step);
+      this.sessions.get(sessionId)!.delete(path);
+      return;
+    }
+    const target = this.hunk(path, entry, hunk, header);
+    const current = read(path)!.toString("utf-8");
+    writeFileSync(path, spliceLines(current, target.newStart, target.newLines, hunkSide(target, "-")));
+    // The file now holds what the user chose, so it counts as the agent's last version.
+    entry.written = read(path);
+  }
+
+  /** Exactly what `revert` would do, file by file. */
+  preview(sessionId: string): RevertPreviewEntry[] {
+    return this.plan(sessionId).map(({ path, action, diff, conflict, reason }) => ({ path, action, diff, conflict, reason }));
+  }
+
+  /** Undo the session's agent writes. Files nobody changed since are restored outright. */
+  revert(sessionId: string): RevertResult {
+    const result: RevertResult = { reverted: [], conflicts: [], kept: [] };
+    for (const step of this.plan(sessionId)) {
+      if (step.action === "keep") {
+        result.kept.push(step.path);
+        continue;
+      }
+      try {
+        this.apply(step);
+        result.reverted.push(step.path);
+        if (step.conflict) result.conflicts.push(step.path);
+      } catch (err) {
+        koryLog.warn({ sessionId, path: step.path, err }, "Could not revert file");
+        result.kept.push(step.path);
+      }
+    }
+    this.clear(sessionId);
+    koryLog.info({ sessionId, ...result }, "Reverted agent changes");
+    return result;
+  }
+
+  clear(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  private entries(sessionId: string): Map<string, JournalEntry> {
+    let entries = this.sessions.get(sessionId);
+    if (!entries) {
+      entries = new Map();
+      this.sessions.set(sessionId, entries);
+    }
+    return entries;
+  }
+
+  private apply(step: RevertStep) {
+    if (step.content === null) {
+      unlinkSync(step.absPath);
+    } else {
+      mkdirSync(dirname(step.absPath), { recursive: true });
+      writeFileSync(step.absPath, step.content);
+    }
+  }
+
+  private entry(sessionId: string, path: string): JournalEntry {
+    const entry = this.sessions.get(sessionId)?.get(path);
+    if (!entry) throw new Error(`No pending change to ${path}`);
+    return entry;
+  }
+
+  /** A hunk of the file's pending diff, checked against the header the reviewer saw. */
+  private hunk(path: string, entry: JournalEntry, index: number, header?: string): ParsedHunk {
+    const current = read(path);
+    if (entry.original === null || current === null) throw new Error(`${path} was created or deleted as a whole; review the whole file`);
+    const target = parseHunks(diffFiles(path, entry.original, current))[index];
+    if (!target || (header !== undefined && target.header !== header)) throw new Error(`${path} changed since it was shown; review it again`);
+    return target;
+  }
+
+  private plan(sessionId: string): RevertStep[] {
+    const steps: RevertStep[] = [];
+    for (const [absPath, { original, written }] of this.sessions.get(sessionId) ?? []) {
+      const current = read(absPath);
+      if (same(current, original)) continue;
+
+      const rel = relative(this.workingDirectory, absPath);
+      const path = rel.startsWith("..") || isAbsolute(rel) ? absPath : rel;
+      const keep = (reason: string): RevertStep => ({ path, absPath, action: "keep", diff: "", reason, content: current });
+      let step: RevertStep;
+      if (same(current, written)) {
+        step = { path, absPath, action: original === null ? "delete" : "restore", diff: "", content: original };
+      } else if (original === null) {
+        step = keep("Created by the agent and edited by you since");
+      } else if (written === null || current === null) {
+        step = keep(written === null ? "Deleted by the agent and recreated by you since" : "Deleted by you since the agent edited it");
+      } else {
+        const merged = mergeFile(current, written, original);
+        step = merged
+          ? { path, absPath, action: "merge", diff: "", conflict: merged.conflict, content: merged.content }
+          : keep("Binary file edited by you since the agent changed it");
+      }
+      if (step.action !== "keep") step.diff = diffFiles(path, current, step.content);
+      steps.push(step);
+    }
+    return steps;
+  }
+}
+
+interface ParsedHunk extends DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Hunks of a unified diff; binary diffs have none. */
+export function parseHunks(diff: string): ParsedHunk[] {
+  const hunks: ParsedHunk[] = [];
+  for (const line of diff.split("\n")) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      hunks.push({
+        header: line,
+        lines: [],
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+      });
+    } else if (hunks.length > 0 && /^[ +\-\\]/.test(line)) {
+      hunks.at(-1)!.lines.push(line);
+    }
+  }
+  return hunks;
+}
+
+/** One side of a hunk as text: context plus the lines marked `marker`, dropping the others. */
+function hunkSide(hunk: DiffHunk, marker: "+" | "-"): string {
+  let text = "";
+  hunk.lines.forEach((line, i) => {
+    if (line[0] !== " " && line[0] !== marker) return;
+    const noNewline = hunk.lines[i + 1]?.startsWith("\\");
+    text += line.slice(1) + (noNewline ? "" : "\n");
+  });
+  return text;
+}
+
+/** Replace `count` lines starting at 1-based `start` (the line after `start` when count is 0). */
+function spliceLines(content: string, start: number, count: number, replacement: string): string {
+  const lines = content.split(/(?<=\n)/).filter((l) => l.length > 0);
+  const from = count === 0 ? start : start - 1;
+  return [...lines.slice(0, from), replacement, ...lines.slice(from + count)].join("");
+}
+
+/**
+ * Replay the change from `base` to `other` onto `current` with `git merge-file`.
+ * Returns null for content git treats as binary.
+ */
+function mergeFile(current: Buffer, base: Buffer, other: Buffer): { content: Buffer; conflict: boolean } | null {
+  return withScratch((dir) => {
+    const files = [["current", current], ["agent", base], ["original", other]] as const;
+    for (const [name, content] of files) writeFileSync(join(dir, name), content);
+    const proc = spawnSync(
+      ["git", "merge-file", "-p", "-L", "yours", "-L", "agent", "-L", "original", "current", "agent", "original"],
+      { cwd: dir, stdout: "pipe", stderr: "pipe" },
+    );
+    // The exit code is the number of conflicts; negative (255 here) means it couldn't merge at all.
+    if (proc.exitCode === null || proc.exitCode >= 128) return null;
+    return { content: proc.stdout, conflict: proc.exitCode > 0 };
+  });
+}
+
+/** Unified diff between two versions of a project file; null content is an absent file. */
+export function diffFiles(path: string, from: Buffer | null, to: Buffer | null): string {
+  return withScratch((dir) => {
+    const side = (prefix: string, content: Buffer | null) => {
+      if (content === null) return "/dev/null";
+      const file = join(prefix, path);
+      mkdirSync(join(dir, dirname(file)), { recursive: true });
+      writeFileSync(join(dir, file), content);
+      return file;
+    };
+    const proc = spawnSync(
+      ["git", "diff", "--no-index", "--no-color", "--no-prefix", "--", side("a", from), side("b", to)],
+      { cwd: dir, stdout: "pipe", stderr: "pipe" },
+    );
+    return proc.stdout.toString();
+  });
+}
+
+function withScratch<T>(use: (dir: string) => T): T {
+  const dir = mkdtempSync(join(tmpdir(), "kory-revert-"));
+  try {
+    return use(dir);
+  } finally {
+    if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,426 @@
+// Checkpoint timeline — content-addressed restore points of the project's files, recorded
+// as a session's agents work. In a git repository each checkpoint is a commit built from a
+// private index and kept alive by a hidden ref under refs/koryphaios/, so the user's index,
+// branches and history never see it. Elsewhere files are stored by SHA-256 under
+// .koryphaios/checkpoints with one manifest per checkpoint. Both backends skip ignored files
+// and files over CHECKPOINT.MAX_FILE_BYTES, and never block the event loop.
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join, relative, resolve } from "path";
+import { nanoid } from "nanoid";
+import type { Checkpoint, CheckpointFileDiff, CheckpointRestoreResult } from "@koryphaios/shared";
+import { diffFiles } from "./change-journal";
+import { CHECKPOINT } from "../constants";
+import { koryLog } from "../logger";
+
+/** Directories never captured: Koryphaios' own state, VCS metadata and installed dependencies. */
+const IGNORED_DIRECTORIES = [".koryphaios", ".git", "node_modules"];
+
+interface StoredCheckpoint extends Checkpoint {
+  /** Content id of the captured files: a git tree, or the hash of a manifest */
+  tree: string;
+}
+
+/** Where checkpoint content lives; files are addressed by content hash. */
+interface CheckpointBackend {
+  /** Capture the working tree as it is now and return its content id. */
+  snapshot(): Promise<string>;
+  /** Project-relative path → content hash of every file in a snapshot. */
+  files(tree: string): Promise<Map<string, string>>;
+  read(hash: string): Promise<Buffer>;
+  save(checkpoint: StoredCheckpoint, parent?: StoredCheckpoint): Promise<StoredCheckpoint>;
+  list(sessionId: string): Promise<StoredCheckpoint[]>;
+  drop(sessionId: string): Promise<void>;
+}
+
+export class CheckpointStore {
+  /** Opened on first use, so constructing a store touches neither git nor the disk */
+  private backend: Promise<CheckpointBackend> | null = null;
+  /** Calls run one at a time: the git backend stages through a single private index. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private workingDirectory: string) {}
+
+  /**
+   * Record the project's files as a restore point. Returns null when nothing changed since
+   * the session's last checkpoint, so turns that only read files don't clutter the timeline.
+   */
+  record(sessionId: string, label: string, agentId?: string): Promise<Checkpoint | null> {
+    return this.use((backend) => this.recordWith(backend, sessionId, label, agentId)).catch((err) => {
+      koryLog.warn({ sessionId, label, err }, "Could not record checkpoint");
+      return null;
+    });
+  }
+
+  list(sessionId: string): Promise<Checkpoint[]> {
+    return this.use(async (backend) => (await backend.list(sessionId)).map(publicCheckpoint));
+  }
+
+  /**
+   * File diffs for a checkpoint: what it changed since the previous one, or with
+   * `against: "current"`, what restoring it would change in the working tree now.
+   */
+  diff(sessionId: string, checkpointId: string, against: "previous" | "current" = "previous"): Promise<CheckpointFileDiff[]> {
+    return this.use(async (backend) => {
+      const checkpoints = await backend.list(sessionId);
+      const index = checkpoints.findIndex((c) => c.id === checkpointId);
+      if (index < 0) throw new Error(`Checkpoint not found: ${checkpointId}`);
+      const target = checkpoints[index];
+      const from = against === "current" ? await backend.snapshot() : checkpoints[index - 1]?.tree;
+      const changes = await this.changes(backend, from, target.tree);
+      return Promise.all(changes.map(async ({ path, status, before, after }) => ({
+        path,
+        status,
+        diff: diffFiles(path, before ? await backend.read(before) : null, after ? await backend.read(after) : null),
+      })));
+    });
+  }
+
+  /**
+   * Put the working tree back the way it was at a checkpoint, removing files created since.
+   * The state being replaced is recorded first so the restore can itself be undone.
+   */
+  restore(sessionId: string, checkpointId: string): Promise<CheckpointRestoreResult> {
+    return this.use(async (backend) => {
+      const checkpoints = await backend.list(sessionId);
+      const target = checkpoints.find((c) => c.id === checkpointId);
+      if (!target) throw new Error(`Checkpoint not found: ${checkpointId}`);
+      // Unchanged since the latest checkpoint means that one already holds the current state.
+      const latest = checkpoints.at(-1);
+      const undo = await this.recordWith(backend, sessionId, `Before restoring "${target.label}"`) ?? (latest ? publicCheckpoint(latest) : null);
+      const current = await backend.snapshot();
+      const result: CheckpointRestoreResult = { undo, written: [], removed: [] };
+
+      for (const change of await this.changes(backend, current, target.tree)) {
+        const absPath = join(this.workingDirectory, change.path);
+        if (change.after) {
+          await mkdir(dirname(absPath), { recursive: true });
+          await writeFile(absPath, await backend.read(change.after));
+          result.written.push(change.path);
+        } else {
+          await rm(absPath, { force: true });
+          result.removed.push(change.path);
+        }
+      }
+      koryLog.info({ sessionId, checkpointId, written: result.written.length, removed: result.removed.length }, "Restored checkpoint");
+      return result;
+    });
+  }
+
+  /**
+   * Capture the working tree without adding it to any timeline; `changedSince` later tells
+   * what changed in between.
+   */
+  capture(): Promise<string> {
+    return this.use((backend) => backend.snapshot());
+  }
+
+  /** Files that differ now from a capture, with the content each had in it (null: absent). */
+  changedSince(tree: string): Promise<Array<{ path: string; before: Buffer | null }>> {
+    return this.use(async (backend) => {
+      const changes = await this.changes(backend, tree, await backend.snapshot());
+      return Promise.all(changes.map(async ({ path, before }) => ({ path, before: before ? await backend.read(before) : null })));
+    });
+  }
+
+  /** Forget a session's checkpoints, e.g. when the session is deleted. */
+  drop(sessionId: string): Promise<void> {
+    return this.use((backend) => backend.drop(sessionId));
+  }
+
+  private use<T>(operation: (backend: CheckpointBackend) => Promise<T>): Promise<T> {
+    this.backend ??= openBackend(this.workingDirectory).catch((err) => {
+      this.backend = null;
+      throw err;
+    });
+    const run = this.queue.then(() => this.backend!).then(operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async recordWith(backend: CheckpointBackend, sessionId: string, label: string, agentId?: string): Promise<Checkpoint | null> {
+    try {
+      const tree = await backend.snapshot();
+      const parent = (await backend.list(sessionId)).at(-1);
+      if (parent?.tree === tree) return null;
+      const changedFiles = parent ? (await this.changes(backend, parent.tree, tree)).map((c) => c.path) : [];
+      const saved = await backend.save({ id: "", sessionId, label, createdAt: Date.now(), agentId, changedFiles, tree }, parent);
+      return publicCheckpoint(saved);
+    } catch (err) {
+      koryLog.warn({ sessionId, label, err }, "Could not record checkpoint");
+      return null;
+    }
+  }
+
+  private async changes(backend: CheckpointBackend, from: string | undefined, to: string) {
+    const before = from ? await backend.files(from) : new Map<string, string>();
+    const after = await backend.files(to);
+    const changes: Array<{ path: string; status: CheckpointFileDiff["status"]; before?: string; after?: string }> = [];
+    for (const [path, hash] of after) {
+      const old = before.get(path);
+      if (old !== hash) changes.push({ path, status: old ? "modified" : "added", before: old, after: hash });
+    }
+    for (const [path, hash] of before) {
+      if (!after.has(path)) changes.push({ path, status: "deleted", before: hash });
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
+
+function publicCheckpoint({ id, sessionId, label, createdAt, agentId, changedFiles }: StoredCheckpoint): Checkpoint {
+  return { id, sessionId, label, createdAt, agentId, changedFiles };
+}
+
+async function openBackend(workingDirectory: string): Promise<CheckpointBackend> {
+  return (await isGitWorkTree(workingDirectory))
+    ? GitCheckpoints.open(workingDirectory)
+    : FileCheckpoints.open(workingDirectory);
+}
+
+async function isGitWorkTree(cwd: string): Promise<boolean> {
+  try {
+    const proc = Bun.spawn(["git", "rev-parse", "--is-inside-work-tree"], { cwd, stdout: "pipe", stderr: "ignore" });
+    return (await proc.exited) === 0 && (await new Response(proc.stdout).text()).trim() === "true";
+  } catch {
+    // git is not installed
+    return false;
+  }
+}
+
+async function fileSize(absPath: string): Promise<number> {
+  return stat(absPath).then((s) => s.size, () => 0);
+}
+
+// ─── Git backend ────────────────────────────────────────────────────────────
+
+const REF_ROOT = "refs/koryphaios/checkpoints";
+
+/** Checkpoint commits need an identity even where the user hasn't configured one. */
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Koryphaios",
+  GIT_AUTHOR_EMAIL: "checkpoints@koryphaios.local",
+  GIT_COMMITTER_NAME: "Koryphaios",
+  GIT_COMMITTER_EMAIL: "checkpoints@koryphaios.local",
+};
+
+class GitCheckpoints implements CheckpointBackend {
+  /**
+   * @param index Private index, so staging the working tree never disturbs what the user has staged
+   * @param prefix Where the working directory sits inside the repository; tree paths start with it
+   */
+  private constructor(private workingDirectory: string, private index: string, private prefix: string) {}
+
+  static async open(workingDirectory: string): Promise<GitCheckpoints> {
+    const run = (args: string[]) => runGit(workingDirectory, args).then((out) => out.toString().trim());
+    const path = await run(["rev-parse", "--git-path", "koryphaios/checkpoint-index"]);
+    const index = isAbsolute(path) ? path : resolve(workingDirectory, path);
+    await mkdir(dirname(index), { recursive: true });
+    return new GitCheckpoints(workingDirectory, index, await run(["rev-parse", "--show-prefix"]));
+  }
+
+  /** Stages what `git add -A` would — so .gitignore applies — minus files over the size limit. */
+  async snapshot(): Promise<string> {
+    const oversized = await this.oversizedFiles();
+    const pathspecs = [".", ...IGNORED_DIRECTORIES.map((dir) => `:(exclude,glob)**/${dir}/**`), ...oversized.map((p) => `:(exclude,literal)${p}`)];
+    await this.git(["add", "-A", "--pathspec-from-file=-", "--pathspec-file-nul"], { privateIndex: true, input: pathspecs.join("\0") });
+    if (oversized.length > 0) {
+      // Drop versions staged by earlier snapshots, from before the file outgrew the limit.
+      await this.git(["rm", "--cached", "-q", "--ignore-unmatch", "--pathspec-from-file=-", "--pathspec-file-nul"], {
+        privateIndex: true,
+        input: oversized.map((p) => `:(literal)${p}`).join("\0"),
+      });
+    }
+    return (await this.git(["write-tree"], { privateIndex: true })).toString().trim();
+  }
+
+  async files(tree: string): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+    for (const entry of (await this.git(["ls-tree", "-r", "-z", tree])).toString().split("\0")) {
+      const [meta, path] = entry.split("\t");
+      const [mode, type, hash] = meta?.split(" ") ?? [];
+      // Submodules and symlinks can't be written back as file content.
+      if (path?.startsWith(this.prefix) && type === "blob" && mode !== "120000") files.set(path.slice(this.prefix.length), hash);
+    }
+    return files;
+  }
+
+  read(hash: string): Promise<Buffer> {
+    return this.git(["cat-file", "blob", hash]);
+  }
+
+  async save(checkpoint: StoredCheckpoint, parent?: StoredCheckpoint): Promise<StoredCheckpoint> {
+    const { label, createdAt, agentId, changedFiles } = checkpoint;
+    const message = `${label}\n\n${JSON.stringify({ createdAt, agentId, changedFiles })}`;
+    const commit = (await this.git(["commit-tree", checkpoint.tree, ...(parent ? ["-p", parent.id] : []), "-m", message])).toString().trim();
+    const sequence = String((await this.list(checkpoint.sessionId)).length).padStart(6, "0");
+    await this.git(["update-ref", `${REF_ROOT}/${checkpoint.sessionId}/${sequence}`, commit]);
+    return { ...checkpoint, id: commit };
+  }
+
+  async list(sessionId: string): Promise<StoredCheckpoint[]> {
+    const format = "%(objectname)%00%(tree)%00%(contents:subject)%00%(contents:body)%01";
+    const output = (await this.git(["for-each-ref", "--sort=refname", `--format=${format}`, `${REF_ROOT}/${sessionId}/`])).toString();
+    return output.split("\x01").filter((record) => record.trim()).map((record) => {
+      const [id, tree, label, body] = record.replace(/^\n/, "").split("\0");
+      const meta = JSON.parse(body.trim() || "{}") as Pick<Checkpoint, "createdAt" | "agentId" | "changedFiles">;
+      return { id, tree, sessionId, label, createdAt: meta.createdAt, agentId: meta.agentId, changedFiles: meta.changedFiles ?? [] };
+    });
+  }
+
+  async drop(sessionId: string) {
+    const refs = (await this.git(["for-each-ref", "--format=%(refname)", `${REF_ROOT}/${sessionId}/`])).toString();
+    for (const ref of refs.split("\n").filter(Boolean)) await this.git(["update-ref", "-d", ref]);
+  }
+
+  /** Tracked and untracked, non-ignored files over the size limit, relative to the working directory. */
+  private async oversizedFiles(): Promise<string[]> {
+    const listed = (await this.git(["ls-files", "-z", "-co", "--exclude-standard"])).toString().split("\0")
+      .filter((path) => path && !path.split("/").some((part) => IGNORED_DIRECTORIES.includes(part)));
+    const sizes = await Promise.all(listed.map((path) => fileSize(join(this.workingDirectory, path))));
+    return listed.filter((_, i) => sizes[i] > CHECKPOINT.MAX_FILE_BYTES);
+  }
+
+  private git(args: string[], options: { privateIndex?: boolean; input?: string } = {}) {
+    return runGit(this.workingDirectory, args, {
+      ...CHECKPOINT_IDENTITY,
+      ...(options.privateIndex ? { GIT_INDEX_FILE: this.index } : {}),
+    }, options.input);
+  }
+}
+
+async function runGit(cwd: string, args: string[], env: Record<string, string> = {}, input?: string): Promise<Buffer> {
+  const proc = Bun.spawn(["git", ...args], {
+    cwd,
+    env: { ...process.env, ...env },
+    stdin: input === undefined ? "ignore" : Buffer.from(input),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).arrayBuffer(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  if (exitCode !== 0) throw new Error(`git ${args[0]} failed: ${stderr.trim()}`);
+  return Buffer.from(stdout);
+}
+
+// ─── File backend ───────────────────────────────────────────────────────────
+
+interface FileStat {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+class FileCheckpoints implements CheckpointBackend {
+  private root: string;
+  /** Hashes of files already stored, so unchanged files aren't read again on every snapshot */
+  private known = new Map<string, FileStat>();
+
+  private constructor(private workingDirectory: string) {
+    this.root = join(workingDirectory, ".koryphaios", "checkpoints");
+  }
+
+  static async open(workingDirectory: string): Promise<FileCheckpoints> {
+    const backend = new FileCheckpoints(workingDirectory);
+    await mkdir(join(backend.root, "objects"), { recursive: true });
+    await mkdir(join(backend.root, "sessions"), { recursive: true });
+    return backend;
+  }
+
+  async snapshot(): Promise<string> {
+    const manifest: Record<string, string> = {};
+    const isIgnored = await loadIgnoreRules(this.workingDirectory);
+    const walk = async (dir: string) => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        const absPath = join(dir, entry.name);
+        const path = relative(this.workingDirectory, absPath);
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.includes(entry.name) && !isIgnored(path, true)) await walk(absPath);
+        } else if (entry.isFile() && !isIgnored(path, false)) {
+          const hash = await this.store(absPath);
+          if (hash) manifest[path] = hash;
+        }
+      }
+    };
+    await walk(this.workingDirectory);
+    const sorted = Object.fromEntries(Object.entries(manifest).sort(([a], [b]) => a.localeCompare(b)));
+    return this.put(Buffer.from(JSON.stringify(sorted)));
+  }
+
+  async files(tree: string): Promise<Map<string, string>> {
+    return new Map(Object.entries(JSON.parse((await this.read(tree)).toString()) as Record<string, string>));
+  }
+
+  read(hash: string): Promise<Buffer> {
+    return readFile(this.objectPath(hash));
+  }
+
+  async save(checkpoint: StoredCheckpoint): Promise<StoredCheckpoint> {
+    const saved = { ...checkpoint, id: nanoid(12) };
+    await writeFile(this.sessionPath(checkpoint.sessionId), JSON.stringify([...await this.list(checkpoint.sessionId), saved]));
+    return saved;
+  }
+
+  async list(sessionId: string): Promise<StoredCheckpoint[]> {
+    return readFile(this.sessionPath(sessionId), "utf-8").then((raw) => JSON.parse(raw), () => []);
+  }
+
+  /** Drops the session's timeline; stored content may still be shared with other sessions. */
+  async drop(sessionId: string) {
+    await rm(this.sessionPath(sessionId), { force: true });
+  }
+
+  /** Store a file's content and return its hash, or null when it is over the size limit. */
+  private async store(absPath: string): Promise<string | null> {
+    const { mtimeMs, size } = await stat(absPath);
+    if (size > CHECKPOINT.MAX_FILE_BYTES) return null;
+    const known = this.known.get(absPath);
+    if (known && known.mtimeMs === mtimeMs && known.size === size) return known.hash;
+    const hash = await this.put(await readFile(absPath));
+    this.known.set(absPath, { mtimeMs, size, hash });
+    return hash;
+  }
+
+  private async put(content: Buffer): Promise<string> {
+    const hash = createHash("sha256").update(content).digest("hex");
+    const path = this.objectPath(hash);
+    if (!(await Bun.file(path).exists())) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content);
+    }
+    return hash;
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.root, "objects", hash.slice(0, 2), hash.slice(2));
+  }
+
+  private sessionPath(sessionId: string): string {
+    return join(this.root, "sessions", `${sessionId}.json`);
+  }
+}
+
+type IgnoreMatcher = (path: string, isDirectory: boolean) => boolean;
+
+/**
+ * The project's root .gitignore, for directories that aren't repositories. Covers the common
+ * patterns — globs, anchored paths and directory-only entries — but not `!` re-includes or
+ * nested .gitignore files.
+ */
+async function loadIgnoreRules(workingDirectory: string): Promise<IgnoreMatcher> {
+  const content = await readFile(join(workingDirectory, ".gitignore"), "utf-8").catch(() => "");
+  const rules = content.split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && !line.startsWith("!"))
+    .map((line) => {
+      const directoryOnly = line.endsWith("/");
+      const pattern = line.replace(/\/+$/, "");
+      // A slash anywhere but the end anchors the pattern to the project root.
+      const anchored = pattern.includes("/");
+      return { directoryOnly, glob: new Bun.Glob(anchored ? pattern.replace(/^\//, "") : `**/${pattern}`) };
+    });
+  return (path, isDirectory) => rules.some((rule) => (isDirectory || !rule.directoryOnly) && rule.glob.match(path));
+}
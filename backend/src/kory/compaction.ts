@@ -0,0 +1,88 @@
+// Context Compaction — keeps long worker conversations inside the model's context window.
+// Older turns are replaced by a summary; the most recent turns are kept verbatim, and the
+// cut never separates a tool result from the assistant turn that requested it.
+
+import type { ProviderName } from "@koryphaios/shared";
+import { resolveTrustedContextWindow } from "../providers";
+import { COMPACTION } from "../constants";
+import { isToolResultTurn, turnText, type ConversationTurn } from "./conversation";
+
+export const SUMMARIZER_SYSTEM_PROMPT = `You are the summarizer for a coding agent whose conversation is too long to continue.
+Summarize the transcript so the agent can pick up exactly where it left off. Include:
+- The task and any constraints from the user
+- Files read or changed, and what changed in them
+- Decisions made and why
+- Tool results that still matter (errors, test output, key findings)
+- What remains to be done
+Be dense and factual. Do not address the user.`;
+
+const SUMMARY_HEADER = "[Summary of earlier conversation, compacted to save context]";
+const MAX_RENDERED_MESSAGE_CHARS = 4000;
+
+/** Rough token estimate; used when the provider has not reported usage yet. */
+export function estimateTokens(messages: readonly ConversationTurn[]): number {
+  const chars = messages.reduce((sum, m) => sum + turnText(m).length, 0);
+  return Math.ceil(chars / COMPACTION.CHARS_PER_TOKEN);
+}
+
+/** Context window to compact against, falling back to a conservative default when unknown. */
+export function contextLimitFor(modelId: string, provider: ProviderName): number {
+  const context = resolveTrustedContextWindow(modelId, provider);
+  return context.contextKnown && context.contextWindow ? context.contextWindow : COMPACTION.FALLBACK_CONTEXT_WINDOW;
+}
+
+export function shouldCompact(tokensUsed: number, contextWindow: number, threshold: number = COMPACTION.THRESHOLD): boolean {
+  return tokensUsed >= contextWindow * threshold;
+}
+
+/**
+ * Split a conversation into the part to summarize and the part to keep.
+ * Returns null when there is too little history for a summary to help.
+ */
+export function splitForCompaction(
+  messages: readonly ConversationTurn[],
+  keepRecent: number = COMPACTION.KEEP_RECENT_MESSAGES,
+): { older: ConversationTurn[]; recent: ConversationTurn[] } | null {
+  let cut = Math.max(0, messages.length - keepRecent);
+  // Keep tool results attached to the assistant turn that produced the calls.
+  while (cut > 0 && isToolResultTurn(messages[cut]!)) cut--;
+  if (cut < 2) return null;
+  return { older: messages.slice(0, cut), recent: messages.slice(cut) };
+}
+
+/** Plain-text transcript handed to the summarizer. */
+export function renderTranscript(messages: readonly ConversationTurn[]): string {
+  return messages
+    .map((m) => {
+      const text = turnText(m);
+      const content = text.length > MAX_RENDERED_MESSAGE_CHARS
+        ? `${text.slice(0, MAX_RENDERED_MESSAGE_CHARS)}\n[...truncated ${text.length - MAX_RENDERED_MESSAGE_CHARS} chars]`
+        : text;
+      return `[${m.role}] ${content}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Replace older turns with a summary produced by `summarize`.
+ * Returns the compacted conversation, or null when there was nothing worth compacting.
+ */
+export async function compactMessages(
+  messages: readonly ConversationTurn[],
+  summarize: (transcript: string) => Promise<string>,
+  keepRecent: number = COMPACTION.KEEP_RECENT_MESSAGES,
+): Promise<ConversationTurn[] | null> {
+  const split = splitForCompaction(messages, keepRecent);
+  if (!split) return null;
+
+  const summary = (await summarize(renderTranscript(split.older))).trim();
+  if (!summary) return null;
+
+  const summaryBlock = { type: "text" as const, text: `${SUMMARY_HEADER}\n${summary}` };
+  const [first, ...rest] = split.recent;
+  // Merge into a leading user turn rather than sending two user messages in a row.
+  if (first?.role === "user") {
+    return [{ ...first, content: [summaryBlock, ...first.content] }, ...rest];
+  }
+  return [{ role: "user", content: [summaryBlock] }, ...split.recent];
+}
@@ -0,0 +1,75 @@
+// Context Files — project instructions (CLAUDE.md, AGENTS.md, .cursorrules, ...) named by
+// `contextPaths`, found at the project root and in the directories a task touches.
+// Files nearer the root come first so repo-wide rules precede directory-specific ones.
+
+import type { ContextFileInfo } from "@koryphaios/shared";
+import { existsSync, readFileSync, statSync } from "fs";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { CONTEXT_FILES } from "../constants";
+
+export interface ContextFile extends ContextFileInfo {
+  content: string;
+}
+
+/** Path-like tokens in free text, e.g. "backend/src/server.ts" or "./frontend". */
+export function mentionedPaths(text: string): string[] {
+  return [...text.matchAll(/(?:^|[\s`'"(])((?:\.{1,2}\/)?[\w.@-]+(?:\/[\w.@-]+)+\/?)/g)].map((m) => m[1]!);
+}
+
+/**
+ * Directories (relative to root, "" for the root itself) from the root down to every
+ * existing directory that contains one of `paths`. Paths outside the root are ignored.
+ */
+export function relevantDirectories(root: string, paths: readonly string[]): string[] {
+  const dirs = new Set<string>([""]);
+  for (const p of paths) {
+    let abs = resolve(root, p);
+    const rel = relative(root, abs);
+    if (rel.startsWith("..") || isAbsolute(rel)) continue;
+    // Planned paths may not exist yet; fall back to the nearest existing ancestor.
+    while (abs !== root && !(existsSync(abs) && statSync(abs).isDirectory())) abs = dirname(abs);
+    const parts = relative(root, abs).split(sep).filter(Boolean);
+    for (let i = 1; i <= parts.length; i++) dirs.add(parts.slice(0, i).join("/"));
+  }
+  return [...dirs].sort((a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b));
+}
+
+/**
+ * Read the configured context files in `dirs`, capping each file and the total size.
+ * Entries in `contextPaths` that would escape the project root are skipped.
+ */
+export function loadContextFiles(root: string, contextPaths: readonly string[], dirs: readonly string[] = [""]): ContextFile[] {
+  const files: ContextFile[] = [];
+  let budget: number = CONTEXT_FILES.MAX_TOTAL_CHARS;
+
+  for (const dir of dirs) {
+    for (const name of contextPaths) {
+      if (budget <= 0) return files;
+      const path = join(dir, name).split(sep).join("/");
+      const abs = resolve(root, path);
+      const rel = relative(root, abs);
+      if (rel.startsWith("..") || isAbsolute(rel) || files.some((f) => f.path === path)) continue;
+
+      let raw: string;
+      try {
+        if (!statSync(abs).isFile()) continue;
+        raw = readFileSync(abs, "utf-8").trim();
+      } catch {
+        continue;
+      }
+      if (!raw) continue;
+
+      const limit = Math.min(CONTEXT_FILES.MAX_FILE_CHARS, budget);
+      const content = raw.slice(0, limit);
+      files.push({ path, chars: content.length, truncated: raw.length > limit, content });
+      budget -= content.length;
+    }
+  }
+  return files;
+}
+
+export function formatContextFiles(files: readonly ContextFile[]): string {
+  if (files.length === 0) return "";
+  const sections = files.map((f) => `--- ${f.path}${f.truncated ? " (truncated)" : ""} ---\n${f.content}`);
+  return `\n\nPROJECT CONTEXT FILES (instructions from the repository; follow them unless the user says otherwise):\n${sections.join("\n\n")}`;
+}
@@ -0,0 +1,114 @@
+// Conversation — the structured turn history shared by workers, transcripts and the message store.
+// Turns are kept as ContentBlock[] (text, thinking, tool_use, tool_result) and only converted
+// to provider messages at request time, so tool calls survive across turns and sessions.
+
+import type { ContentBlock, StoredMessage } from "@koryphaios/shared";
+import type { ProviderContentBlock, ProviderMessage } from "../providers";
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: ContentBlock[];
+}
+
+export function textTurn(role: ConversationTurn["role"], text: string): ConversationTurn {
+  return { role, content: [{ type: "text", text }] };
+}
+
+/** A user turn that only carries tool results back to the model. */
+export function isToolResultTurn(turn: ConversationTurn): boolean {
+  return turn.role === "user" && turn.content.length > 0 && turn.content.every((b) => b.type === "tool_result");
+}
+
+/** Flatten a turn to plain text (summaries, token estimates, feeds). */
+export function turnText(turn: ConversationTurn): string {
+  return turn.content
+    .map((b) => {
+      if (b.type === "text") return b.text ?? "";
+      if (b.type === "thinking") return "";
+      if (b.type === "tool_use") return `[Called ${b.toolCall?.name}(${JSON.stringify(b.toolCall?.input ?? {})})]`;
+      if (b.type === "tool_result") return `[${b.toolResult?.isError ? "Error from" : "Result of"} ${b.toolResult?.name}]\n${b.toolResult?.output ?? ""}`;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Parse StoredMessage.content, which is either a JSON ContentBlock[] or legacy raw text.
+ */
+export function parseStoredContent(raw: string): ContentBlock[] {
+  if (raw.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed) && parsed.every((b) => b && typeof b.type === "string")) return parsed;
+    } catch {}
+  }
+  return [{ type: "text", text: raw }];
+}
+
+export function storedToTurn(message: StoredMessage): ConversationTurn | null {
+  if (message.role === "system") return null;
+  return { role: message.role, content: parseStoredContent(message.content) };
+}
+
+/**
+ * Drop leading turns until the history starts at a real user message, so a window cut
+ * never begins with orphaned tool results or an assistant reply.
+ */
+export function trimToTurnBoundary(turns: ConversationTurn[]): ConversationTurn[] {
+  const start = turns.findIndex((t) => t.role === "user" && !isToolResultTurn(t));
+  return start < 0 ? [] : turns.slice(start);
+}
+
+function toProviderBlock(block: ContentBlock): ProviderContentBlock | null {
+  switch (block.type) {
+    case "text":
+      return block.text ? { type: "text", text: block.text } : null;
+    case "tool_use":
+      if (!block.toolCall) return null;
+      return { type: "tool_use", toolCallId: block.toolCall.id, toolName: block.toolCall.name, toolInput: block.toolCall.input };
+    case "tool_result":
+      if (!block.toolResult) return null;
+      return { type: "tool_result", toolCallId: block.toolResult.callId, toolOutput: block.toolResult.output, isError: block.toolResult.isError };
+    // Reasoning is kept for history and the UI, but providers reject replayed thinking without their signatures.
+    case "thinking":
+    case "image":
+      return null;
+  }
+}
+
+/**
+ * Convert turns to provider messages. Adjacent turns with the same role are merged unless that
+ * would mix tool results with ordinary content (OpenAI-style APIs send tool results separately).
+ */
+export function toProviderMessages(turns: readonly ConversationTurn[]): ProviderMessage[] {
+  // Providers reject a tool call without its result (and vice versa), e.g. after an interrupted turn.
+  const calls = new Set<string>();
+  const results = new Set<string>();
+  for (const turn of turns) {
+    for (const b of turn.content) {
+      if (b.type === "tool_use" && b.toolCall) calls.add(b.toolCall.id);
+      if (b.type === "tool_result" && b.toolResult) results.add(b.toolResult.callId);
+    }
+  }
+  const paired = (b: ProviderContentBlock) =>
+    (b.type !== "tool_use" && b.type !== "tool_result") || (calls.has(b.toolCallId!) && results.has(b.toolCallId!));
+
+  const result: Array<{ role: ConversationTurn["role"]; content: ProviderContentBlock[]; toolResults: boolean }> = [];
+  for (const turn of turns) {
+    const content = turn.content.map(toProviderBlock).filter((b): b is ProviderContentBlock => b !== null && paired(b));
+    if (content.length === 0) continue;
+    const toolResults = content.some((b) => b.type === "tool_result");
+    const prev = result[result.length - 1];
+    if (prev && prev.role === turn.role && prev.toolResults === toolResults) {
+      prev.content.push(...content);
+    } else {
+      result.push({ role: turn.role, content, toolResults });
+    }
+  }
+  return result.map(({ role, content }) =>
+    content.every((b) => b.type === "text")
+      ? { role, content: content.map((b) => b.text).join("\n\n") }
+      : { role, content },
+  );
+}
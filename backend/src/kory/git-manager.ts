@@ -179,16 +179,58 @@ export class GitManager {
     return null;
   }
 
-  /** Hard reset to a specific commit hash */
-  rollback(hash: string): boolean {
-    const result = this.runGit(["reset", "--hard", hash]);
-    if (result.success) {
-      // Also clean untracked files
-      this.runGit(["clean", "-fd"]);
-      koryLog.info({ hash }, "Rolled back to commit");
-      return true;
-    }
-    return false;
+  /**
+   * Check out `branch` into its own worktree at `path`, creating the branch at `base` unless it
+   * already exists (e.g. left by a previous server run), in which case its commits are kept.
+   */
+  addWorktree(path: string, branch: string, base = "HEAD"): boolean {
+    // A branch whose old worktree directory was deleted still counts as checked out until pruned.
+    this.runGit(["worktree", "prune"]);
+    const exists = this.runGit(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]).success;
+    const result = this.runGit(exists ? ["worktree", "add", path, branch] : ["worktree", "add", "-b", branch, path, base]);
+    if (!result.success) koryLog.warn({ path, branch, output: result.output }, "Failed to add worktree");
+    return result.success;
+  }
+
+  /** Worktrees attached to this repository and their branches, after pruning ones whose directory is gone. */
+  listWorktrees(): Array<{ path: string; branch?: string }> {
+    this.runGit(["worktree", "prune"]);
+    const { success, output } = this.runGit(["worktree", "list", "--porcelain"]);
+    if (!success) return [];
+    return output.split("\n\n").filter(Boolean).map((block) => {
+      const lines = block.split("\n");
+      const path = lines.find((l) => l.startsWith("worktree "))?.slice("worktree ".length) ?? "";
+      const branch = lines.find((l) => l.startsWith("branch refs/heads/"))?.slice("branch refs/heads/".length);
+      return { path, branch };
+    });
+  }
+
+  /** Whether `branch` has commits that `base` doesn't. */
+  isAhead(branch: string, base = "HEAD"): boolean {
+    const { success, output } = this.runGit(["rev-list", "--count", `${base}..${branch}`]);
+    return success && Number(output.trim()) > 0;
+  }
+
+  /** Remove a worktree and, when given, the branch it was on. */
+  removeWorktree(path: string, branch?: string): void {
+    this.runGit(["worktree", "remove", "--force", path]);
+    this.runGit(["worktree", "prune"]);
+    if (branch) this.runGit(["branch", "-D", branch]);
+  }
+
+  /**
+   * Stage and commit everything in this working tree except `excluded` paths.
+   * Returns false when there was nothing to commit.
+   */
+  commitAll(message: string, excluded: string[] = []): boolean {
+    this.runGit(["add", "-A", "--", ".", ...excluded.map((p) => `:(exclude)${p}`)]);
+    if (this.runGit(["diff", "--cached", "--quiet"]).success) return false;
+    return this.runGit(["commit", "-m", message, "--no-verify"]).success;
+  }
+
+  /** Abort a merge that stopped on conflicts, restoring the pre-merge state. */
+  abortMerge(): boolean {
+    return this.runGit(["merge", "--abort"]).success;
   }
 
   /** Get the current HEAD hash */
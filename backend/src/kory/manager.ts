@@ -2,6 +2,7 @@
 // Classifies intent, routes to specialist workers, verifies output.
 
 import type {
+  AutonomyLevel,
   AgentIdentity,
   AgentStatus,
   WorkerDomain,
@@ -9,24 +10,56 @@ import type {
   ProviderName,
   KoryphaiosConfig,
   KoryAskUserPayload,
+  KoryPlanPayload,
+  KoryClarifyPayload,
+  PlanStep,
+  KoryTaskBreakdownPayload,
+  KoryVerificationPayload,
   ChangeSummary,
   StreamUsagePayload,
+  StoredTask,
+  SessionRunStatusPayload,
+  SessionUpdatedPayload,
+  RevertPreviewEntry,
+  Checkpoint,
+  CheckpointFileDiff,
+  CheckpointRestoreResult,
+  SessionMergeConflictsPayload,
+  SessionReviewChangePayload,
+  ContentBlock,
+  ToolCall,
+  ToolName,
+  ToolResult,
 } from "@koryphaios/shared";
 import { normalizeReasoningLevel, determineAutoReasoningLevel } from "@koryphaios/shared";
-import { DOMAIN } from "../constants";
-import { ProviderRegistry, resolveModel, resolveTrustedContextWindow, isLegacyModel, type StreamRequest, type ProviderEvent } from "../providers";
+import { AGENT, COMPACTION, DOMAIN, MESSAGE, SESSION } from "../constants";
+import { ProviderRegistry, resolveModel, resolveTrustedContextWindow, isLegacyModel, accumulateUsage, EMPTY_USAGE, type StreamRequest, type ProviderEvent, type ResponseSchema } from "../providers";
 import { ToolRegistry, type ToolCallInput, type ToolContext } from "../tools";
 import { wsBroker } from "../pubsub";
 import { koryLog } from "../logger";
 import { nanoid } from "nanoid";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { z } from "zod";
-import { join } from "path";
+import { join, relative, resolve } from "path";
 import { getDb } from "../db/sqlite";
 import type { ISessionStore } from "../stores/session-store";
 import type { IMessageStore } from "../stores/message-store";
-import { SnapshotManager } from "./snapshot-manager";
+import type { ITaskStore } from "../stores/task-store";
+import { formatMemoriesForPrompt, selectPromptMemories, type IMemoryStore } from "../stores/memory-store";
+import { spendDay, type ISpendStore } from "../stores/spend-store";
+import { BudgetExceededError } from "../errors";
+import { ChangeJournal, SHELL_TOOLS, writtenPaths } from "./change-journal";
+import { CheckpointStore } from "./checkpoints";
 import { GitManager } from "./git-manager";
+import { WorktreeManager } from "./worktrees";
+import { findTaskGraphError, runTaskGraph } from "./task-graph";
+import { SessionRunQueue, type QueuedRun } from "./session-queue";
+import { UsageLedger, type MeteredCall } from "./usage-ledger";
+import { VerificationPipeline, formatVerificationFeedback } from "./verification";
+import { checkBudget, describeBudgetBreach, type BudgetBreach } from "./budget";
+import { SUMMARIZER_SYSTEM_PROMPT, compactMessages, contextLimitFor, estimateTokens, shouldCompact } from "./compaction";
+import { formatContextFiles, loadContextFiles, mentionedPaths, relevantDirectories } from "./context-files";
+import { storedToTurn, textTurn, toProviderMessages, trimToTurnBoundary, turnText, type ConversationTurn } from "./conversation";
 
 // ─── Default Model Assignments per Domain ───────────────────────────────────
 
@@ -63,6 +96,20 @@ const ClarifySchema = z.object({
 
 type ClarificationDecision = z.infer<typeof ClarifyProceedSchema> | z.infer<typeof ClarifySchema>;
 
+const CLARIFICATION_RESPONSE: ResponseSchema = {
+  name: "clarification_decision",
+  schema: {
+    type: "object",
+    properties: {
+      action: { type: "string", enum: ["proceed", "clarify"] },
+      questions: { type: "array", items: { type: "string" } },
+      reason: { type: "string" },
+      assumptions: { type: "array", items: { type: "string" } },
+    },
+    required: ["action"],
+  },
+};
+
 const MAJOR_BRANCH_QUESTION_PATTERNS = [
   /existing\s+project\s+or\s+new/i,
   /new\s+or\s+existing/i,
@@ -74,6 +121,8 @@ const MAJOR_BRANCH_QUESTION_PATTERNS = [
 
 const YES_NO_ONLY_START = /^(is|are|do|does|did|can|could|should|would|will|have|has|had|was|were|may)\b/i;
 
+const CHAT_OPENER = /^(hi|hello|hey|thanks|thank you|thx|ok|okay|cool|great|nice|perfect|awesome|got it|sounds good|yes|yep|no|nope|sure)\b/i;
+
 function extractJsonObject(raw: string): string {
   const trimmed = raw.trim();
   if (!trimmed) return trimmed;
@@ -104,6 +153,19 @@ function isDisallowedYesNoOnlyQuestion(question: string): boolean {
   return !isMajorBranchYesNoQuestion(normalized);
 }
 
+/**
+ * Parse a JSON reply and validate it against `schema`, tolerating code fences and surrounding
+ * prose from providers without native structured output. Returns null when nothing valid is found.
+ */
+export function parseStructuredReply<T>(raw: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | null {
+  try {
+    const parsed = schema.safeParse(JSON.parse(extractJsonObject(raw)));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Parse and validate a raw LLM response as a clarification decision.
  * Returns null if the response is invalid, ambiguous, or violates question rules.
@@ -133,6 +195,226 @@ export function resolveClarificationDecision(raw: string, maxQuestions: number):
   return parseClarificationDecision(raw, maxQuestions) ?? { action: "proceed" };
 }
 
+/**
+ * Whether a message is worth a clarification-gate call. Short messages, greetings and
+ * acknowledgements are skipped, as are replies to a question Kory just asked.
+ */
+export function shouldClarify(message: string, previousReply?: string): boolean {
+  const text = message.trim();
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (words < AGENT.CLARIFY_MIN_WORDS) return false;
+  if (CHAT_OPENER.test(text) && words <= AGENT.CLARIFY_CHAT_MAX_WORDS) return false;
+  return !previousReply?.trim().endsWith("?");
+}
+
+/**
+ * Fold the user's answers to a clarification into the request, so routing, planning and
+ * workers all see them. Unanswered questions fall back to the stated assumptions.
+ */
+export function foldClarification(request: string, decision: z.infer<typeof ClarifySchema>, answers: string[]): string {
+  const answered = decision.questions
+    .map((question, i) => ({ question, answer: answers[i]?.trim() ?? "" }))
+    .filter((qa) => qa.answer);
+  const sections = [request];
+  if (answered.length > 0) {
+    sections.push(`Clarifications:\n${answered.map((qa) => `- Q: ${qa.question}\n  A: ${qa.answer}`).join("\n")}`);
+  }
+  if (answered.length < decision.questions.length && decision.assumptions.length > 0) {
+    sections.push(`Assumptions:\n${decision.assumptions.map((a) => `- ${a}`).join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
+
+// ─── Plan Drafting ──────────────────────────────────────────────────────────
+
+const PLAN_SYSTEM_PROMPT = `You plan a coding request before any work starts.
+Return JSON only. No markdown. No prose outside JSON.
+
+Output must be EXACTLY:
+{"steps":[{"description":"...","files":["path/to/file"]}]}
+
+Rules:
+- Order steps in the sequence they should be done.
+- Each description must be one concrete change or check, written as an instruction.
+- List the files each step will create or change, relative to the project root; use [] when unknown.
+- Maximum steps is provided by user prompt; never exceed it.`;
+
+const PlanStepSchema = z.object({
+  description: z.string().trim().min(1),
+  files: z.array(z.string().trim().min(1)).default([]),
+});
+const PlanSchema = z.object({ steps: z.array(PlanStepSchema).min(1) });
+const PLAN_RESPONSE: ResponseSchema = {
+  name: "plan",
+  schema: {
+    type: "object",
+    properties: {
+      steps: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { description: { type: "string" }, files: { type: "array", items: { type: "string" } } },
+          required: ["description", "files"],
+        },
+      },
+    },
+    required: ["steps"],
+  },
+};
+const PlanEditSchema = z.object({
+  steps: z.array(PlanStepSchema).min(1),
+  allowedPaths: z.array(z.string().trim().min(1)).default([]),
+});
+
+function numberSteps(steps: Array<z.infer<typeof PlanStepSchema>>): PlanStep[] {
+  return steps.map((step, i) => ({ id: `s${i + 1}`, description: step.description, files: [...new Set(step.files)] }));
+}
+
+/**
+ * Parse and validate a raw LLM response as plan steps.
+ * Returns null if the response is invalid or exceeds maxSteps.
+ */
+export function parsePlan(raw: string, maxSteps: number): PlanStep[] | null {
+  const parsed = parseStructuredReply(raw, PlanSchema);
+  if (!parsed || parsed.steps.length > maxSteps) return null;
+  return numberSteps(parsed.steps);
+}
+
+/**
+ * Validate a plan edited by the user. Steps are renumbered in their new order.
+ * Returns null when the edit is malformed, empty, or exceeds maxSteps.
+ */
+export function parsePlanEdit(input: unknown, maxSteps: number): { steps: PlanStep[]; allowedPaths: string[] } | null {
+  const parsed = PlanEditSchema.safeParse(input);
+  if (!parsed.success || parsed.data.steps.length > maxSteps) return null;
+  return { steps: numberSteps(parsed.data.steps), allowedPaths: [...new Set(parsed.data.allowedPaths)] };
+}
+
+/** Numbered text form of a plan, as given to the task breakdown and to workers. */
+export function formatPlan(steps: PlanStep[]): string {
+  return steps
+    .map((step, i) => `${i + 1}. ${step.description}${step.files.length > 0 ? ` (files: ${step.files.join(", ")})` : ""}`)
+    .join("\n");
+}
+
+// ─── Task Decomposition ─────────────────────────────────────────────────────
+
+const TASK_BREAKDOWN_SYSTEM_PROMPT = `You split a coding request into tasks for specialist workers.
+Return JSON only. No markdown. No prose outside JSON.
+
+Output must be EXACTLY:
+{"tasks":[{"id":"t1","description":"...","domain":"frontend|backend|general|review|test","dependsOn":["..."]}]}
+
+Rules:
+- Return a single task when the work does not split cleanly.
+- Each description must be a complete instruction a worker can execute alone.
+- Only list a dependency when a task needs another task's output; tasks without one run in parallel.
+- Tasks that may run at the same time must not edit the same files.
+- Cover the approved plan's steps and nothing beyond them.
+- Maximum tasks is provided by user prompt; never exceed it.`;
+
+const BreakdownTaskSchema = z.object({
+  id: z.string().trim().min(1).max(40),
+  description: z.string().trim().min(1),
+  domain: z.enum(["frontend", "backend", "general", "review", "test"]),
+  dependsOn: z.array(z.string().trim().min(1)).default([]),
+});
+const TaskBreakdownSchema = z.object({ tasks: z.array(BreakdownTaskSchema).min(1) });
+const TASK_BREAKDOWN_RESPONSE: ResponseSchema = {
+  name: "task_breakdown",
+  schema: {
+    type: "object",
+    properties: {
+      tasks: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            description: { type: "string" },
+            domain: { type: "string", enum: ["frontend", "backend", "general", "review", "test"] },
+            dependsOn: { type: "array", items: { type: "string" } },
+          },
+          required: ["id", "description", "domain", "dependsOn"],
+        },
+      },
+    },
+    required: ["tasks"],
+  },
+};
+
+export type TaskBreakdownEntry = z.infer<typeof BreakdownTaskSchema>;
+
+/**
+ * Parse and validate a raw LLM response as a task breakdown.
+ * Returns null if the response is invalid, exceeds maxTasks, or the dependency graph cannot be scheduled.
+ */
+export function parseTaskBreakdown(raw: string, maxTasks: number): TaskBreakdownEntry[] | null {
+  const parsed = parseStructuredReply(raw, TaskBreakdownSchema);
+  if (!parsed || parsed.tasks.length > maxTasks) return null;
+  if (findTaskGraphError(parsed.tasks.map((t) => ({ ...t, status: "pending" as const })))) return null;
+  return parsed.tasks;
+}
+
+// ─── Gate Decisions ─────────────────────────────────────────────────────────
+// Each parser prefers the structured reply and falls back to the plain-text answer these gates
+// used before structured output, for providers that ignore the schema.
+
+const ROUTING_SYSTEM_PROMPT = `WORKER or MANAGER?
+A WORKER edits files and runs tools; the MANAGER answers directly in chat.
+Return JSON only: {"handler":"worker"} or {"handler":"manager"}`;
+
+const RoutingSchema = z.object({ handler: z.enum(["worker", "manager"]) });
+const ROUTING_RESPONSE: ResponseSchema = {
+  name: "routing_decision",
+  schema: { type: "object", properties: { handler: { type: "string", enum: ["worker", "manager"] } }, required: ["handler"] },
+};
+
+/** Whether the request needs a worker. */
+export function parseRoutingDecision(raw: string): boolean {
+  const parsed = parseStructuredReply(raw, RoutingSchema);
+  return parsed ? parsed.handler === "worker" : raw.toUpperCase().includes("WORKER");
+}
+
+const CRITIC_SYSTEM_PROMPT = `PASS or FAIL.
+Judge whether the task was completed correctly.
+Return JSON only: {"verdict":"pass"|"fail","feedback":"what to fix, or empty when passing"}`;
+
+const CriticSchema = z.object({ verdict: z.enum(["pass", "fail"]), feedback: z.string().default("") });
+const CRITIC_RESPONSE: ResponseSchema = {
+  name: "critic_verdict",
+  schema: {
+    type: "object",
+    properties: { verdict: { type: "string", enum: ["pass", "fail"] }, feedback: { type: "string" } },
+    required: ["verdict", "feedback"],
+  },
+};
+
+/** The critic's verdict; in a plain-text reply the first PASS or FAIL decides. */
+export function parseCriticVerdict(raw: string): { passed: boolean; feedback: string } {
+  const parsed = parseStructuredReply(raw, CriticSchema);
+  if (parsed) return { passed: parsed.verdict === "pass", feedback: parsed.feedback };
+  return { passed: raw.match(/\b(PASS|FAIL)/i)?.[1].toUpperCase() === "PASS", feedback: raw };
+}
+
+const PathsSchema = z.object({ paths: z.array(z.string().trim().min(1)) });
+const PATHS_RESPONSE: ResponseSchema = {
+  name: "allowed_paths",
+  schema: { type: "object", properties: { paths: { type: "array", items: { type: "string" } } }, required: ["paths"] },
+};
+
+/** Paths a plan touches, from `{"paths":[...]}` or a bare JSON array of strings. */
+export function parseAllowedPaths(raw: string): string[] {
+  const parsed = parseStructuredReply(raw, PathsSchema);
+  if (parsed) return parsed.paths;
+  try {
+    const array = z.array(z.string().trim().min(1)).safeParse(JSON.parse(raw.match(/\[.*\]/s)?.[0] ?? "[]"));
+    return array.success ? array.data : [];
+  } catch {
+    return [];
+  }
+}
+
 // ─── Kory Identity ──────────────────────────────────────────────────────────
 
 let KORY_IDENTITY: AgentIdentity = {
@@ -157,6 +439,11 @@ const WORKER_SYSTEM_PROMPT = `You are a specialist Worker Agent. EXECUTE the ass
 
 // ─── Kory Manager Class ─────────────────────────────────────────────────────
 
+interface ApprovedPlan {
+  steps: PlanStep[];
+  allowedPaths: string[];
+}
+
 export interface KoryTask {
   id: string;
   description: string;
@@ -166,19 +453,39 @@ export interface KoryTask {
   status: "pending" | "active" | "done" | "failed";
   result?: string;
   error?: string;
+  /** Ids of tasks in the same breakdown that must finish before this one starts. */
+  dependsOn?: string[];
 }
 
 export class KoryManager {
   private activeWorkers = new Map<string, { agent: AgentIdentity; status: AgentStatus; task: KoryTask; abort: AbortController; sessionId: string }>();
   private tasks: KoryTask[] = [];
-  private memoryDir: string;
-  private isProcessing = false;
-  private isYoloMode = false;
+  private transcriptDir: string;
+  /** Run ids with tasks executing in this process; anything else left pending/active was interrupted. */
+  private activeRuns = new Set<string>();
+  /** Run ids with a resume queued or in progress, so the same run can't be resumed twice. */
+  private pendingResumes = new Set<string>();
+  /** Workers asked to compact their context before their next turn. */
+  private pendingCompaction = new Set<string>();
+  private usage = new UsageLedger();
+  /** Soft budget limits the user chose to continue past (keys from budgetKey). */
+  private budgetApprovals = new Set<string>();
+  /** Budget question currently shown to each session's user. */
+  private budgetPrompts = new Map<string, Promise<void>>();
+  private runs = new SessionRunQueue((status) => this.emitWSMessage(status.sessionId, "session.run_status", status));
   private pendingUserInputs = new Map<string, (selection: string) => void>();
+  /** Clarification questions each session's user is answering, resolved with one answer per question. */
+  private pendingClarifications = new Map<string, (answers: string[]) => void>();
+  /** Plan each session's user is reviewing, resolved with the approved edit or null on cancel. */
+  private pendingPlans = new Map<string, { payload: KoryPlanPayload; resolve: (plan: ApprovedPlan | null) => void }>();
   private sessionChanges = new Map<string, ChangeSummary[]>();
-  private snapshotManager: SnapshotManager;
+  /** Sessions being deleted; their unwinding runs offer no changes for review */
+  private closingSessions = new Set<string>();
+  /** Original content of files agents wrote in shared-tree runs, for rejecting them. */
+  private journal: ChangeJournal;
+  private checkpoints: CheckpointStore;
   public readonly git: GitManager;
-  private lastKnownGoodHash = new Map<string, string>();
+  private worktrees: WorktreeManager;
 
   constructor(
     private providers: ProviderRegistry,
@@ -187,16 +494,20 @@ export class KoryManager {
     private config: KoryphaiosConfig,
     private sessions?: ISessionStore,
     private messages?: IMessageStore,
+    private taskStore?: ITaskStore,
+    private memory?: IMemoryStore,
+    private spend?: ISpendStore,
   ) {
-    this.memoryDir = join(workingDirectory, ".koryphaios/memory");
-    mkdirSync(this.memoryDir, { recursive: true });
-    this.snapshotManager = new SnapshotManager(workingDirectory);
+    this.transcriptDir = join(workingDirectory, ".koryphaios/transcripts");
+    mkdirSync(this.transcriptDir, { recursive: true });
+    this.journal = new ChangeJournal(workingDirectory);
+    this.checkpoints = new CheckpointStore(workingDirectory);
     this.git = new GitManager(workingDirectory);
+    this.worktrees = new WorktreeManager(workingDirectory, this.git);
   }
 
-  setYoloMode(enabled: boolean) {
-    this.isYoloMode = enabled;
-    koryLog.info({ enabled }, "YOLO mode state updated");
+  private autonomy(sessionId: string): AutonomyLevel {
+    return this.sessions?.get(sessionId)?.autonomy ?? SESSION.DEFAULT_AUTONOMY;
   }
 
   private async extractAllowedPaths(sessionId: string, plan: string, preferredModel?: string): Promise<string[]> {
@@ -204,12 +515,12 @@ export class KoryManager {
     const provider = await this.providers.resolveProvider(routing.model, routing.provider);
     if (!provider) return [];
     
-    const prompt = `Identify paths to modify or read. PLAN: ${plan}. Return ONLY JSON array.`;
+    const prompt = `Identify paths to modify or read. PLAN: ${plan}. Return ONLY JSON: {"paths":["..."]}`;
     let result = "";
     try {
-      const stream = provider.streamResponse({ model: routing.model, systemPrompt: "JSON only.", messages: [{ role: "user", content: prompt }], maxTokens: 300 });
+      const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, provider.streamResponse({ model: routing.model, systemPrompt: "JSON only.", messages: [{ role: "user", content: prompt }], maxTokens: 300, responseSchema: PATHS_RESPONSE, signal: this.runs.signal(sessionId) }));
       for await (const event of stream) if (event.type === "content_delta") result += event.content ?? "";
-      return JSON.parse(result.trim().match(/\[.*\]/s)?.[0] || "[]");
+      return parseAllowedPaths(result);
     } catch { return []; }
   }
 
@@ -223,20 +534,162 @@ export class KoryManager {
     if (resolver) { resolver(text || selection); this.pendingUserInputs.delete(key); }
   }
 
+  /** Offer a finished run's changes for review, or accept them outright in full auto. */
+  private settleChanges(sessionId: string) {
+    if (this.closingSessions.has(sessionId)) return;
+    const changes = this.pendingChanges(sessionId);
+    if (changes.length === 0 && !this.worktrees.hasCommits(sessionId)) {
+      this.worktrees.discardSession(sessionId);
+      this.journal.clear(sessionId);
+      return;
+    }
+    if (this.autonomy(sessionId) !== "full_auto") {
+      this.emitWSMessage(sessionId, "session.changes", { changes });
+      return;
+    }
+    this.emitThought(sessionId, "synthesizing", `Full auto: accepted ${changes.length} change(s).`);
+    if (this.worktrees.hasSession(sessionId)) void this.mergeWorktrees(sessionId);
+    this.journal.clear(sessionId);
+    this.sessionChanges.delete(sessionId);
+  }
+
+  /**
+   * A session's reviewable changes. Shared-tree runs are summarized from the journal, one entry
+   * per file with its hunks; worktree runs only have what the tools recorded.
+   */
+  private pendingChanges(sessionId: string): ChangeSummary[] {
+    if (this.worktrees.hasSession(sessionId)) return this.sessionChanges.get(sessionId) ?? [];
+    const changes = this.journal.summarize(sessionId);
+    this.sessionChanges.set(sessionId, changes);
+    return changes;
+  }
+
+  /** Accept or reject one file, or one hunk of it, and send the changes still pending. */
+  reviewChange(sessionId: string, review: SessionReviewChangePayload) {
+    if (this.worktrees.hasSession(sessionId)) {
+      this.emitError(sessionId, "Changes made in worker worktrees can only be accepted or rejected together.");
+      return;
+    }
+    try {
+      if (review.accepted) this.journal.accept(sessionId, review.path, review.hunk, review.header);
+      else this.journal.reject(sessionId, review.path, review.hunk, review.header);
+    } catch (err: any) {
+      this.emitError(sessionId, err.message ?? String(err));
+    }
+    const changes = this.pendingChanges(sessionId);
+    if (changes.length === 0) {
+      this.emitThought(sessionId, "synthesizing", "All changes reviewed.");
+      this.journal.clear(sessionId);
+      this.sessionChanges.delete(sessionId);
+    }
+    this.emitWSMessage(sessionId, "session.changes", { changes });
+  }
+
   handleSessionResponse(sessionId: string, accepted: boolean) {
     if (accepted) {
       this.emitThought(sessionId, "synthesizing", "User accepted changes.");
+      if (this.worktrees.hasSession(sessionId)) void this.mergeWorktrees(sessionId);
+    } else if (this.worktrees.hasSession(sessionId)) {
+      // Worker edits never reached the working tree, so dropping their branches is the whole rollback.
+      this.emitThought(sessionId, "synthesizing", "User rejected changes. Discarding worker branches...");
+      this.worktrees.discardSession(sessionId);
     } else {
-      this.emitThought(sessionId, "synthesizing", "User rejected changes. Rolling back...");
-      const prevHash = this.lastKnownGoodHash.get(sessionId);
-      if (prevHash && this.git.isGitRepo()) {
-        this.git.rollback(prevHash);
-      } else {
-        this.snapshotManager.restoreSnapshot(sessionId, "latest", this.workingDirectory);
+      this.emitThought(sessionId, "synthesizing", "User rejected changes. Reverting the files agents wrote...");
+      const result = this.journal.revert(sessionId);
+      this.emitThought(sessionId, "synthesizing", `Reverted ${result.reverted.length} file(s).`);
+      if (result.conflicts.length > 0) {
+        this.emitError(sessionId, `Your edits overlap the rejected changes in ${result.conflicts.join(", ")}; resolve the conflict markers there.`);
+      }
+      if (result.kept.length > 0) {
+        this.emitThought(sessionId, "synthesizing", `Kept your versions of ${result.kept.join(", ")}.`);
+      }
+    }
+    this.journal.clear(sessionId);
+    this.sessionChanges.delete(sessionId);
+  }
+
+  /** Add a restore point to the session's timeline if the project changed since the last one. */
+  private async recordCheckpoint(sessionId: string, label: string, agentId?: string) {
+    const checkpoint = await this.checkpoints.record(sessionId, label, agentId);
+    if (checkpoint) this.emitWSMessage(sessionId, "session.checkpoint", checkpoint);
+  }
+
+  /**
+   * Run a shell tool call in the shared tree and journal every file it changed, found by
+   * comparing the tree before and after, so its effects are reviewed and reverted like any
+   * other tool's. Ignored and oversized files aren't captured and so aren't journaled.
+   */
+  private async executeJournaledShell(sessionId: string, ctx: ToolContext, call: ToolCallInput): Promise<ToolResult> {
+    const before = await this.checkpoints.capture().catch((err) => {
+      koryLog.warn({ sessionId, err }, "Could not capture the project before a shell command; its changes won't be reviewable");
+      return null;
+    });
+    const result = await this.tools.execute(ctx, call);
+    if (before) {
+      try {
+        const changed = await this.checkpoints.changedSince(before);
+        this.journal.record(sessionId, changed.map(({ path, before }) => ({ path: resolve(this.workingDirectory, path), original: before })));
+      } catch (err) {
+        koryLog.warn({ sessionId, err }, "Could not find the files a shell command changed");
       }
     }
-    this.lastKnownGoodHash.delete(sessionId);
+    return result;
+  }
+
+  listCheckpoints(sessionId: string): Promise<Checkpoint[]> {
+    return this.checkpoints.list(sessionId);
+  }
+
+  diffCheckpoint(sessionId: string, checkpointId: string, against?: "previous" | "current"): Promise<CheckpointFileDiff[]> {
+    return this.checkpoints.diff(sessionId, checkpointId, against);
+  }
+
+  /** Put the project's files back to a checkpoint. Refused while the session's agents are working. */
+  async restoreCheckpoint(sessionId: string, checkpointId: string): Promise<CheckpointRestoreResult> {
+    if (this.runs.isRunning(sessionId)) throw new Error("Stop the session's current run before restoring a checkpoint");
+    const result = await this.checkpoints.restore(sessionId, checkpointId);
+    if (result.undo) this.emitWSMessage(sessionId, "session.checkpoint", result.undo);
+    // Pending changes no longer describe the working tree.
+    this.journal.clear(sessionId);
     this.sessionChanges.delete(sessionId);
+    this.emitWSMessage(sessionId, "session.changes", { changes: [] });
+    this.emitThought(sessionId, "synthesizing", `Restored checkpoint: ${result.written.length} file(s) written, ${result.removed.length} removed.`);
+    return result;
+  }
+
+  /** What rejecting the session's pending changes would revert, file by file. */
+  previewRejection(sessionId: string): RevertPreviewEntry[] {
+    // Worker branches are dropped whole, so there is nothing in the working tree to revert.
+    return this.worktrees.hasSession(sessionId) ? [] : this.journal.preview(sessionId);
+  }
+
+  /** Merge the session's worker branches into the user's branch, surfacing any conflicts. */
+  private async mergeWorktrees(sessionId: string) {
+    const result = await this.worktrees.mergeSession(sessionId);
+    if (result.merged.length > 0) this.emitThought(sessionId, "synthesizing", `Merged ${result.merged.length} worker branch(es).`);
+    if (result.conflicts.length > 0) {
+      this.emitWSMessage(sessionId, "session.merge_conflicts", { conflicts: result.conflicts } satisfies SessionMergeConflictsPayload);
+    } else if (result.error) {
+      this.emitError(sessionId, `Could not merge worker changes: ${result.error}`);
+    }
+  }
+
+  /**
+   * Stop a session being deleted and forget its changes, worker branches and checkpoints.
+   * Worktrees are only removed once the run has unwound, so no worker is still inside one.
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    this.closingSessions.add(sessionId);
+    try {
+      this.runs.interrupt(sessionId);
+      await this.runs.whenIdle(sessionId);
+      this.worktrees.discardSession(sessionId);
+      await this.checkpoints.drop(sessionId);
+      this.journal.clear(sessionId);
+      this.sessionChanges.delete(sessionId);
+    } finally {
+      this.closingSessions.delete(sessionId);
+    }
   }
 
   private async handleManagerInquiry(sessionId: string, agentId: string, question: string, preferredModel?: string): Promise<string> {
@@ -244,16 +697,17 @@ export class KoryManager {
     const routing = this.resolveActiveRouting(preferredModel, "general");
     const provider = await this.providers.resolveProvider(routing.model, routing.provider);
     if (!provider) return "Error.";
-    
+    const signal = this.activeWorkers.get(agentId)?.abort.signal;
+
     let decision = "ANSWER";
     try {
-      const stream = provider.streamResponse({ model: routing.model, systemPrompt: "Reply: WEB_SEARCH or ANSWER.", messages: [{ role: "user", content: question }], maxTokens: 10 });
+      const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, provider.streamResponse({ model: routing.model, systemPrompt: "Reply: WEB_SEARCH or ANSWER.", messages: [{ role: "user", content: question }], maxTokens: 10, signal }));
       for await (const event of stream) if (event.type === "content_delta") decision += event.content ?? "";
       decision = decision.trim().toUpperCase();
     } catch { }
 
     if (decision.includes("WEB_SEARCH")) {
-      const toolCtx: ToolContext = { sessionId, workingDirectory: this.workingDirectory };
+      const toolCtx: ToolContext = { sessionId, workingDirectory: this.workingDirectory, signal };
       const searchResult = await this.tools.execute(toolCtx, { id: nanoid(10), name: "web_search", input: { query: question } });
       return `MANAGER ADVICE: ${searchResult.output}`;
     }
@@ -261,14 +715,190 @@ export class KoryManager {
   }
 
   private async waitForUserInputInternal(sessionId: string, question: string, options: string[]): Promise<string> {
+    // Asked after an interrupt (e.g. by a sibling worker), there is no run left to answer for.
+    const signal = this.runs.signal(sessionId);
+    if (signal?.aborted) throw new Error("Interrupted");
     this.emitWSMessage(sessionId, "kory.ask_user", { question, options, allowOther: true } satisfies KoryAskUserPayload);
-    return new Promise<string>((resolve) => { this.pendingUserInputs.set(`${sessionId}`, resolve); });
+    return new Promise<string>((resolve, reject) => {
+      const onAbort = () => {
+        this.pendingUserInputs.delete(`${sessionId}`);
+        reject(new Error("Interrupted"));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pendingUserInputs.set(`${sessionId}`, (answer) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(answer);
+      });
+    });
   }
 
-  /** Main entry point for processing a task. */
-  async processTask(sessionId: string, userMessage: string, preferredModel?: string, reasoningLevel?: string): Promise<void> {
-    this.isProcessing = true;
-    this.sessionChanges.delete(sessionId);
+  /**
+   * Ask the clarification gate whether the request is clear enough to act on, and if not,
+   * put its questions to the user. Returns the request with any answers folded in.
+   */
+  private async clarifyRequest(sessionId: string, userMessage: string, routing: { model: string; provider?: ProviderName }): Promise<string> {
+    const maxQuestions = this.config.agents.manager.maxClarifyQuestions ?? AGENT.DEFAULT_MAX_CLARIFY_QUESTIONS;
+    if (maxQuestions === 0) return userMessage;
+    const lastReply = this.loadHistory(sessionId).findLast((t) => t.role === "assistant");
+    if (!shouldClarify(userMessage, lastReply && turnText(lastReply))) return userMessage;
+
+    let raw = "";
+    const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, this.providers.executeWithRetry({
+      model: routing.model,
+      systemPrompt: CLARIFICATION_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: `Maximum questions: ${maxQuestions}\n\nREQUEST:\n${userMessage}` }],
+      maxTokens: 500,
+      responseSchema: CLARIFICATION_RESPONSE,
+      signal: this.runs.signal(sessionId),
+    }, routing.provider, this.buildFallbackChain(routing.model)));
+    for await (const event of stream) if (event.type === "content_delta") raw += event.content ?? "";
+
+    const decision = resolveClarificationDecision(raw, maxQuestions);
+    if (decision.action === "proceed") return userMessage;
+
+    this.emitThought(sessionId, "analyzing", `Need clarification: ${decision.reason}`);
+    const answers = await new Promise<string[]>((resolve, reject) => {
+      const signal = this.runs.signal(sessionId);
+      const onAbort = () => {
+        this.pendingClarifications.delete(sessionId);
+        reject(new Error("Interrupted"));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pendingClarifications.set(sessionId, (answers) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(answers);
+      });
+      this.emitWSMessage(sessionId, "kory.clarify", { questions: decision.questions, reason: decision.reason, assumptions: decision.assumptions } satisfies KoryClarifyPayload);
+    });
+    return foldClarification(userMessage, decision, answers);
+  }
+
+  /** Answer the questions shown by clarifyRequest, one entry per question (blank to skip). */
+  handleClarificationAnswers(sessionId: string, answers: string[]) {
+    const resolve = this.pendingClarifications.get(sessionId);
+    if (!resolve) return;
+    this.pendingClarifications.delete(sessionId);
+    resolve(answers);
+  }
+
+  /** Ask for structured plan steps, falling back to one step holding the request when the reply is unusable. */
+  private async draftPlan(sessionId: string, userMessage: string, routing: { model: string; provider?: ProviderName }): Promise<PlanStep[]> {
+    let raw = "";
+    const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, this.providers.executeWithRetry({
+      model: routing.model,
+      systemPrompt: PLAN_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: `Maximum steps: ${AGENT.MAX_PLAN_STEPS}\n\nREQUEST:\n${userMessage}` }],
+      maxTokens: 1000,
+      responseSchema: PLAN_RESPONSE,
+      signal: this.runs.signal(sessionId),
+    }, routing.provider, this.buildFallbackChain(routing.model)));
+    for await (const event of stream) if (event.type === "content_delta") raw += event.content ?? "";
+    return parsePlan(raw, AGENT.MAX_PLAN_STEPS) ?? [{ id: "s1", description: userMessage, files: [] }];
+  }
+
+  /**
+   * Show the plan and wait for the user to approve it, possibly edited.
+   * Full-auto sessions proceed with the draft. Returns null when the user cancels.
+   */
+  private approvePlan(sessionId: string, steps: PlanStep[], allowedPaths: string[]): Promise<ApprovedPlan | null> {
+    const planId = nanoid(12);
+    if (this.autonomy(sessionId) === "full_auto") {
+      this.emitWSMessage(sessionId, "kory.plan", { planId, steps, allowedPaths, awaitingApproval: false } satisfies KoryPlanPayload);
+      this.emitThought(sessionId, "executing", "Full auto: proceeding without confirmation.");
+      return Promise.resolve({ steps, allowedPaths });
+    }
+
+    const payload: KoryPlanPayload = { planId, steps, allowedPaths, awaitingApproval: true };
+    this.emitWSMessage(sessionId, "kory.plan", payload);
+    return new Promise<ApprovedPlan | null>((resolve, reject) => {
+      const signal = this.runs.signal(sessionId);
+      const onAbort = () => {
+        this.pendingPlans.delete(sessionId);
+        reject(new Error("Interrupted"));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pendingPlans.set(sessionId, {
+        payload,
+        resolve: (plan) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(plan);
+        },
+      });
+    });
+  }
+
+  /** Answer a plan shown by approvePlan. An invalid edit re-sends the plan for review. */
+  handlePlanResponse(sessionId: string, planId: string, approved: boolean, edit?: unknown) {
+    const pending = this.pendingPlans.get(sessionId);
+    if (!pending || pending.payload.planId !== planId) return;
+
+    if (!approved) {
+      this.pendingPlans.delete(sessionId);
+      pending.resolve(null);
+      return;
+    }
+    const plan = parsePlanEdit(edit, AGENT.MAX_PLAN_STEPS);
+    if (!plan) {
+      this.emitError(sessionId, `The edited plan needs 1-${AGENT.MAX_PLAN_STEPS} steps, each with a description.`);
+      this.emitWSMessage(sessionId, "kory.plan", pending.payload);
+      return;
+    }
+    this.pendingPlans.delete(sessionId);
+    this.emitWSMessage(sessionId, "kory.plan", { planId, ...plan, awaitingApproval: false } satisfies KoryPlanPayload);
+    pending.resolve(plan);
+  }
+
+  /**
+   * Main entry point for processing a task. Messages for a session run one at a time;
+   * with `interrupt`, the current run is aborted and this message replaces anything queued.
+   * Returns how many runs are ahead of this one.
+   */
+  processTask(sessionId: string, userMessage: string, preferredModel?: string, reasoningLevel?: string, options: { interrupt?: boolean } = {}): number {
+    const run: QueuedRun = {
+      label: userMessage.length > 80 ? `${userMessage.slice(0, 77)}...` : userMessage,
+      run: (signal) => this.handleMessage(sessionId, userMessage, preferredModel, reasoningLevel, signal),
+    };
+    if (options.interrupt) {
+      this.runs.interrupt(sessionId, run);
+      return 0;
+    }
+    return this.runs.submit(sessionId, run);
+  }
+
+  isSessionRunning(sessionId: string): boolean {
+    return this.runs.isRunning(sessionId);
+  }
+
+  getSessionRunStatus(sessionId: string): SessionRunStatusPayload {
+    return this.runs.status(sessionId);
+  }
+
+  /**
+   * Stop one worker: its provider stream and running tool are aborted, the turns it produced so far
+   * are saved, and the rest of the run carries on without it. Returns false for unknown workers.
+   */
+  cancelWorker(agentId: string): boolean {
+    const worker = this.activeWorkers.get(agentId);
+    if (!worker) return false;
+    worker.status = "cancelled";
+    worker.abort.abort();
+    return true;
+  }
+
+  /** Stop every session's current run, workers included. Returns how many runs were interrupted. */
+  cancel(): number {
+    for (const workerId of this.activeWorkers.keys()) this.cancelWorker(workerId);
+    return this.runs.interruptAll();
+  }
+
+  /** Workers currently running, across all sessions. */
+  getStatus(): Array<{ agent: AgentIdentity; status: AgentStatus; task: KoryTask; sessionId: string }> {
+    return [...this.activeWorkers.values()].map(({ agent, status, task, sessionId }) => ({ agent, status, task, sessionId }));
+  }
+
+  private async handleMessage(sessionId: string, userMessage: string, preferredModel: string | undefined, reasoningLevel: string | undefined, signal: AbortSignal): Promise<void> {
+    // Changes still awaiting review carry over; this run's changes join them until the user settles both.
+    this.startBudgetRun(sessionId);
     this.updateWorkflowState(sessionId, "analyzing");
 
     // Determine the active model for Kory's own reasoning turns
@@ -283,63 +913,155 @@ export class KoryManager {
         task: userMessage
       });
 
-      const needsWorker = await this.decideIfNeedsWorker(sessionId, userMessage, preferredModel);
-      if (!needsWorker) { await this.handleDirectly(sessionId, userMessage, reasoningLevel, preferredModel); return; }
+      const request = await this.clarifyRequest(sessionId, userMessage, routing);
+      signal.throwIfAborted();
+      const needsWorker = await this.decideIfNeedsWorker(sessionId, request, preferredModel);
+      signal.throwIfAborted();
+      if (!needsWorker) { await this.handleDirectly(sessionId, request, reasoningLevel, preferredModel); return; }
 
       this.updateWorkflowState(sessionId, "planning");
-      let plan = "";
-      const planStream = this.providers.executeWithRetry({ 
-        model: routing.model, 
-        systemPrompt: `Analyze: "${userMessage}". Describe plan.`, 
-        messages: [{ role: "user", content: "Propose a plan." }], 
-        maxTokens: 500 
-      }, routing.provider, this.buildFallbackChain(routing.model));
-      
-      for await (const event of planStream) if (event.type === "content_delta") { 
-        plan += event.content; 
-        this.emitWSMessage(sessionId, "stream.delta", { agentId: KORY_IDENTITY.id, content: event.content, model: routing.model }); 
+      const draft = await this.draftPlan(sessionId, request, routing);
+      signal.throwIfAborted();
+      const proposedPaths = await this.extractAllowedPaths(sessionId, formatPlan(draft), preferredModel);
+
+      signal.throwIfAborted();
+      const approved = await this.approvePlan(sessionId, draft, proposedPaths);
+      if (!approved) {
+        this.emitThought(sessionId, "planning", "Plan cancelled.");
+        return;
       }
+      const { steps, allowedPaths } = approved;
+      const plan = formatPlan(steps);
 
-      const allowedPaths = await this.extractAllowedPaths(sessionId, plan, preferredModel);
+      signal.throwIfAborted();
+      this.updateWorkflowState(sessionId, "executing");
+      await this.recordCheckpoint(sessionId, `Before: ${request.split("\n")[0].slice(0, 60)}`);
+      const tasks = await this.decomposeTask(sessionId, request, plan, preferredModel)
+        ?? [this.createSingleTask(request, plan, preferredModel)];
+      const runId = nanoid(12);
+      this.persistTasks(sessionId, runId, tasks, steps, allowedPaths);
+      const workerSuccess = await this.executeRun(sessionId, runId, tasks, preferredModel, reasoningLevel, allowedPaths);
 
-      let proceed = this.isYoloMode;
-      if (!proceed) {
-        const readySelection = await this.waitForUserInputInternal(sessionId, "Ready to proceed?", ["Yes, proceed", "Cancel"]);
-        if (readySelection.includes("Cancel")) return;
-        proceed = true;
-      } else {
-        this.emitThought(sessionId, "executing", "YOLO mode: Auto-proceeding.");
-      }
+      signal.throwIfAborted();
+      if (workerSuccess) await this.summarizeRun(sessionId, routing);
 
-      this.updateWorkflowState(sessionId, "executing");
-      const workerSuccess = await this.routeToWorker(sessionId, userMessage, preferredModel, reasoningLevel, allowedPaths);
+      this.settleChanges(sessionId);
 
-      if (workerSuccess) {
-        this.updateWorkflowState(sessionId, "finalizing");
-        this.emitThought(sessionId, "verifying", "Finalizing...");
-        
-        let summary = "";
-        const vStream = this.providers.executeWithRetry({ 
-          model: routing.model, 
-          systemPrompt: "Summarize work.", 
-          messages: [{ role: "user", content: "Summarize." }], 
-          maxTokens: 1000 
-        }, routing.provider, this.buildFallbackChain(routing.model));
-        
-        for await (const event of vStream) if (event.type === "content_delta") { 
-          summary += event.content; 
-          this.emitWSMessage(sessionId, "stream.delta", { agentId: KORY_IDENTITY.id, content: event.content, model: routing.model }); 
-        }
-        this.updateWorkflowState(sessionId, "idle");
-      }
+    } catch (err) {
+      this.handleRunError(sessionId, err, signal);
+    }
+  }
 
-      const changes = this.sessionChanges.get(sessionId) || [];
+  private handleRunError(sessionId: string, err: unknown, signal: AbortSignal) {
+    if (signal.aborted) {
+      this.updateWorkflowState(sessionId, "idle");
+      this.emitThought(sessionId, "synthesizing", "Interrupted.");
+      // Whatever workers changed before stopping stays reviewable, with its rollback point kept.
+      const changes = this.closingSessions.has(sessionId) ? [] : this.pendingChanges(sessionId);
       if (changes.length > 0) this.emitWSMessage(sessionId, "session.changes", { changes });
+      return;
+    }
+    this.updateWorkflowState(sessionId, "error");
+    this.emitError(sessionId, `Error: ${String(err)}`);
+  }
+
+  /** Reattach the worker worktrees a previous backend process left behind. Call once at startup. */
+  restoreWorktrees(): Promise<number> {
+    if (!this.taskStore) return Promise.resolve(0);
+    return this.worktrees.reattach((taskId) => this.taskStore!.get(taskId));
+  }
 
+  /** Tasks a previous backend process left pending or active. */
+  listInterruptedTasks(sessionId?: string): StoredTask[] {
+    if (!this.taskStore) return [];
+    return this.taskStore.listActive(sessionId).filter((t) => !this.isRunBusy(t.runId ?? t.id));
+  }
+
+  /**
+   * Resume the run an interrupted task belongs to. Finished tasks are kept; everything
+   * else runs again, continuing from its saved worker transcript.
+   */
+  resumeTask(taskId: string, preferredModel?: string, reasoningLevel?: string): number {
+    const stored = this.taskStore?.get(taskId);
+    if (!stored) throw new Error(`Task not found: ${taskId}`);
+    const sessionId = stored.sessionId;
+    const runId = stored.runId ?? stored.id;
+    if (this.activeRuns.has(runId)) throw new Error(`Task ${taskId} is already running`);
+    if (this.pendingResumes.has(runId)) throw new Error(`Task ${taskId} is already queued to resume`);
+
+    const runTasks = stored.runId ? this.taskStore!.listByRun(stored.runId) : [stored];
+    const tasks: KoryTask[] = runTasks.map((t) => ({
+      id: t.id,
+      description: t.description,
+      domain: t.domain,
+      assignedModel: t.assignedModel,
+      assignedProvider: t.assignedProvider,
+      status: t.status === "done" ? "done" : "pending",
+      dependsOn: t.dependsOn,
+    }));
+
+    this.pendingResumes.add(runId);
+    return this.runs.submit(sessionId, {
+      label: `Resume: ${stored.description.slice(0, 70)}`,
+      run: (signal) => this.runResume(sessionId, runId, tasks, stored.allowedPaths, signal, preferredModel, reasoningLevel)
+        .finally(() => this.pendingResumes.delete(runId)),
+      dropped: () => this.pendingResumes.delete(runId),
+    });
+  }
+
+  /** Whether a run is executing or has a resume waiting in its session's queue. */
+  private isRunBusy(runId: string): boolean {
+    return this.activeRuns.has(runId) || this.pendingResumes.has(runId);
+  }
+
+  private async runResume(sessionId: string, runId: string, tasks: KoryTask[], allowedPaths: string[], signal: AbortSignal, preferredModel?: string, reasoningLevel?: string) {
+    this.startBudgetRun(sessionId);
+    try {
+      this.emitThought(sessionId, "executing", `Resuming ${tasks.filter((t) => t.status !== "done").length} interrupted task(s)...`);
+      this.updateWorkflowState(sessionId, "executing");
+      await this.recordCheckpoint(sessionId, "Before resuming interrupted work");
+      const success = await this.executeRun(sessionId, runId, tasks, preferredModel, reasoningLevel, allowedPaths);
+      signal.throwIfAborted();
+      if (success) await this.summarizeRun(sessionId, this.resolveActiveRouting(preferredModel, "general"));
+
+      this.settleChanges(sessionId);
     } catch (err) {
-      this.updateWorkflowState(sessionId, "error");
-      this.emitError(sessionId, `Error: ${String(err)}`);
-    } finally { this.isProcessing = false; }
+      this.handleRunError(sessionId, err, signal);
+    }
+  }
+
+  /** Give up on an interrupted run: every unfinished task in it is marked failed. */
+  abandonTask(taskId: string): boolean {
+    const stored = this.taskStore?.get(taskId);
+    if (!stored) return false;
+    if (this.isRunBusy(stored.runId ?? stored.id)) return false;
+    const runTasks = stored.runId ? this.taskStore!.listByRun(stored.runId) : [stored];
+    for (const task of runTasks) {
+      if (task.status === "pending" || task.status === "active") {
+        this.taskStore!.update(task.id, { status: "failed", error: "Abandoned after interruption" });
+      }
+    }
+    return true;
+  }
+
+  private async summarizeRun(sessionId: string, routing: { model: string; provider: ProviderName | undefined }) {
+    this.updateWorkflowState(sessionId, "finalizing");
+    this.emitThought(sessionId, "verifying", "Finalizing...");
+
+    let summary = "";
+    const vStream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, this.providers.executeWithRetry({ 
+      model: routing.model, 
+      systemPrompt: "Summarize work.", 
+      messages: [{ role: "user", content: "Summarize." }], 
+      maxTokens: 1000,
+      signal: this.runs.signal(sessionId),
+    }, routing.provider, this.buildFallbackChain(routing.model)));
+    
+    for await (const event of vStream) if (event.type === "content_delta") { 
+      summary += event.content; 
+      this.emitWSMessage(sessionId, "stream.delta", { agentId: KORY_IDENTITY.id, content: event.content, model: routing.model }); 
+    }
+    this.updateWorkflowState(sessionId, "idle");
   }
 
   private buildFallbackChain(startModelId: string): string[] {
@@ -377,17 +1099,135 @@ export class KoryManager {
     return { model: modelId, provider: def.provider };
   }
 
-  private async routeToWorker(sessionId: string, userMessage: string, preferredModel?: string, reasoningLevel?: string, allowedPaths: string[] = []): Promise<boolean> {
+  /**
+   * Split the request into a dependency graph of tasks.
+   * Returns null when the request should run as a single worker (one task, or no usable breakdown).
+   */
+  private async decomposeTask(sessionId: string, userMessage: string, plan: string, preferredModel?: string): Promise<KoryTask[] | null> {
+    const routing = this.resolveActiveRouting(preferredModel, "general");
+    const provider = await this.providers.resolveProvider(routing.model, routing.provider);
+    if (!provider) return null;
+
+    let raw = "";
+    try {
+      const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, provider.streamResponse({
+        model: routing.model,
+        systemPrompt: TASK_BREAKDOWN_SYSTEM_PROMPT,
+        messages: [{ role: "user", content: `Maximum tasks: ${AGENT.MAX_SUBTASKS}\n\nREQUEST:\n${userMessage}\n\nPLAN:\n${plan}` }],
+        maxTokens: 1500,
+        responseSchema: TASK_BREAKDOWN_RESPONSE,
+        signal: this.runs.signal(sessionId),
+      }));
+      for await (const event of stream) if (event.type === "content_delta") raw += event.content ?? "";
+    } catch { return null; }
+
+    const entries = parseTaskBreakdown(raw, AGENT.MAX_SUBTASKS);
+    if (!entries || entries.length < 2) return null;
+
+    // The model's ids are only unique within this breakdown; tasks are persisted globally.
+    const ids = new Map(entries.map((entry) => [entry.id, nanoid(12)]));
+    return entries.map((entry) => {
+      const taskRouting = this.resolveActiveRouting(preferredModel, entry.domain);
+      return {
+        id: ids.get(entry.id)!,
+        description: entry.description,
+        domain: entry.domain,
+        dependsOn: entry.dependsOn.map((dep) => ids.get(dep)!),
+        assignedModel: taskRouting.model,
+        assignedProvider: taskRouting.provider ?? provider.name,
+        status: "pending",
+      };
+    });
+  }
+
+  private createSingleTask(userMessage: string, plan: string, preferredModel?: string): KoryTask {
     let domain: WorkerDomain;
     try { domain = this.classifyDomainLLM(userMessage); } catch { domain = "general"; }
-    const isSandboxed = !this.requiresSystemAccess(userMessage);
-    
-    if (this.git.isGitRepo()) {
-      const hash = this.git.getCurrentHash();
-      if (hash) this.lastKnownGoodHash.set(sessionId, hash);
-    } else {
-      this.snapshotManager.createSnapshot(sessionId, "latest", allowedPaths.length > 0 ? allowedPaths : ["."], this.workingDirectory);
+    const routing = this.resolveActiveRouting(preferredModel, domain);
+    return {
+      id: nanoid(12),
+      description: `Carry out this approved plan:\n${plan}\n\nOriginal request: ${userMessage}`,
+      domain,
+      dependsOn: [],
+      assignedModel: routing.model,
+      assignedProvider: routing.provider ?? KORY_IDENTITY.provider,
+      status: "pending",
+    };
+  }
+
+  private persistTasks(sessionId: string, runId: string, tasks: KoryTask[], planSteps: PlanStep[], allowedPaths: string[]) {
+    const plan = formatPlan(planSteps);
+    if (!this.taskStore) return;
+    for (const task of tasks) {
+      this.taskStore.create({
+        id: task.id,
+        sessionId,
+        runId,
+        description: task.description,
+        domain: task.domain,
+        assignedModel: task.assignedModel,
+        assignedProvider: task.assignedProvider,
+        dependsOn: task.dependsOn ?? [],
+        plan,
+        planSteps,
+        allowedPaths,
+        transcriptPath: this.transcriptPathFor(task.id),
+      });
+    }
+  }
+
+  private async executeRun(sessionId: string, runId: string, tasks: KoryTask[], preferredModel?: string, reasoningLevel?: string, allowedPaths: string[] = []): Promise<boolean> {
+    this.activeRuns.add(runId);
+    try {
+      return await this.runTasks(sessionId, tasks, preferredModel, reasoningLevel, allowedPaths);
+    } finally {
+      this.activeRuns.delete(runId);
     }
+  }
+
+  /** Run a set of tasks, starting each as soon as its dependencies are done. */
+  private async runTasks(sessionId: string, tasks: KoryTask[], preferredModel?: string, reasoningLevel?: string, allowedPaths: string[] = []): Promise<boolean> {
+    const emitBreakdown = () => this.emitWSMessage(sessionId, "kory.task_breakdown", {
+      tasks: tasks.map((t) => ({
+        id: t.id,
+        description: t.description,
+        domain: t.domain,
+        assignedModel: t.assignedModel,
+        status: t.status,
+        dependsOn: t.dependsOn,
+        error: t.error,
+      })),
+    } satisfies KoryTaskBreakdownPayload);
+    const onChange = () => {
+      for (const t of tasks) this.taskStore?.update(t.id, { status: t.status, error: t.error });
+      if (tasks.length > 1) emitBreakdown();
+    };
+
+    if (tasks.length > 1) this.emitThought(sessionId, "delegating", `Split into ${tasks.length} tasks.`);
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    // Workers sharing the project tree would edit the same files and verify each other's
+    // half-written changes, so only isolated workers run side by side.
+    const isolated = this.config.agents.coder?.isolation === "worktree";
+    const maxParallel = isolated && this.worktrees.isSupported() ? AGENT.MAX_PARALLEL_WORKERS : 1;
+
+    return runTaskGraph(tasks, maxParallel, async (task) => {
+      if (isolated && !(await this.worktrees.acquire(sessionId, task.id, task.dependsOn))) {
+        koryLog.warn({ sessionId, taskId: task.id }, "Worktree unavailable; worker will edit the project directly");
+        this.emitThought(sessionId, "delegating", `Could not isolate task ${task.id} in a worktree; its worker will edit the project directly.`);
+      }
+      const prerequisites = (task.dependsOn ?? []).map((dep) => `- ${byId.get(dep)?.description}`);
+      const instruction = prerequisites.length > 0
+        ? `${task.description}\n\nAlready completed by other workers:\n${prerequisites.join("\n")}`
+        : task.description;
+      return this.routeToWorker(sessionId, instruction, preferredModel, reasoningLevel, allowedPaths, task.domain, task.id);
+    }, onChange);
+  }
+
+  private async routeToWorker(sessionId: string, userMessage: string, preferredModel?: string, reasoningLevel?: string, allowedPaths: string[] = [], domainOverride?: WorkerDomain, taskId?: string): Promise<boolean> {
+    if (this.runs.signal(sessionId)?.aborted) return false;
+    let domain: WorkerDomain;
+    try { domain = domainOverride ?? this.classifyDomainLLM(userMessage); } catch { domain = "general"; }
+    const isSandboxed = !this.requiresSystemAccess(userMessage);
 
     let workerTask = await this.generateWorkerTask(sessionId, userMessage, domain, preferredModel);
     let attempts = 0;
@@ -400,16 +1240,19 @@ export class KoryManager {
         // Failover if specific provider not available
         const alt = this.providers.getAvailable()[0];
         if (!alt) return false;
-        const res = await this.executeWithProvider(sessionId, alt, routing.model, workerTask, domain, reasoningLevel, true, allowedPaths, isSandboxed);
+        const res = await this.executeWithProvider(sessionId, alt, routing.model, workerTask, domain, reasoningLevel, true, allowedPaths, isSandboxed, taskId);
+        if (res.cancelled) throw new Error("Cancelled by user");
         if (res.success) {
-           if ((await this.runCriticGate(sessionId, workerTask, domain, preferredModel)).passed) return true;
+           if ((await this.runCriticGate(sessionId, workerTask, domain, preferredModel, taskId)).passed) return true;
         }
         return false;
       }
 
-      const result = await this.executeWithProvider(sessionId, provider, routing.model, workerTask, domain, reasoningLevel, true, allowedPaths, isSandboxed);
+      const result = await this.executeWithProvider(sessionId, provider, routing.model, workerTask, domain, reasoningLevel, true, allowedPaths, isSandboxed, taskId);
+      // Thrown so the task graph records why the task stopped instead of retrying it.
+      if (result.cancelled) throw new Error("Cancelled by user");
       if (result.success) {
-        const criticResult = await this.runCriticGate(sessionId, workerTask, domain, preferredModel);
+        const criticResult = await this.runCriticGate(sessionId, workerTask, domain, preferredModel, taskId);
         if (criticResult.passed) return true;
         workerTask = `QUALITY FAILURE. Fix these:\n${criticResult.feedback}`;
       }
@@ -418,26 +1261,49 @@ export class KoryManager {
     return false;
   }
 
-  private async runCriticGate(sessionId: string, task: string, domain: WorkerDomain, preferredModel?: string): Promise<{ passed: boolean; feedback?: string }> {
-    const hardCheckResult = await this.runHardChecks(sessionId);
+  private async runCriticGate(sessionId: string, task: string, domain: WorkerDomain, preferredModel?: string, taskId?: string): Promise<{ passed: boolean; feedback?: string }> {
+    const hardCheckResult = await this.runHardChecks(sessionId, (taskId && this.worktrees.get(taskId)?.path) || this.workingDirectory, taskId);
     if (!hardCheckResult.passed) return { passed: false, feedback: hardCheckResult.output };
     
     const routing = this.resolveActiveRouting(preferredModel, "critic");
     const provider = await this.providers.resolveProvider(routing.model, routing.provider);
     if (!provider) return { passed: true };
     
-    const stream = provider.streamResponse({ model: routing.model, systemPrompt: "PASS or FAIL.", messages: [{ role: "user", content: task }], maxTokens: 100 });
+    const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, provider.streamResponse({ model: routing.model, systemPrompt: CRITIC_SYSTEM_PROMPT, messages: [{ role: "user", content: task }], maxTokens: 500, responseSchema: CRITIC_RESPONSE, signal: this.runs.signal(sessionId) }));
     let content = "";
-    for await (const event of stream) if (event.type === "content_delta") content += event.content;
-    return { passed: content.toUpperCase().includes("PASS"), feedback: content };
+    let error: string | undefined;
+    for await (const event of stream) {
+      if (event.type === "content_delta") content += event.content;
+      else if (event.type === "error") error = event.error;
+    }
+    // A critic that could not answer has no verdict; failing the worker on it would loop until the task fails.
+    if (error && !content.trim()) {
+      koryLog.warn({ sessionId, taskId, model: routing.model, error }, "Critic call failed; skipping the review gate");
+      this.emitThought(sessionId, "verifying", `Critic unavailable (${error}); accepting the checked result without review.`);
+      return { passed: true };
+    }
+    return parseCriticVerdict(content);
   }
 
-  private async runHardChecks(sessionId: string): Promise<{ passed: boolean; output: string }> {
-    const pkgPath = join(this.workingDirectory, "package.json");
-    if (!existsSync(pkgPath)) return { passed: true, output: "" };
+  private async runHardChecks(sessionId: string, workingDirectory: string, taskId?: string): Promise<{ passed: boolean; output: string }> {
     const bash = this.tools.get("bash")!;
-    const result = await bash.run({ sessionId, workingDirectory: this.workingDirectory, isSandboxed: true }, { id: nanoid(), name: "bash", input: { command: "npm test", timeout: 60 } });
-    return { passed: !result.isError, output: result.output };
+    const pipeline = new VerificationPipeline(workingDirectory, this.config.verification, async (command, cwd, timeout) => {
+      const result = await bash.run(
+        { sessionId, workingDirectory, isSandboxed: true, signal: this.runs.signal(sessionId) },
+        { id: nanoid(), name: "bash", input: { command, workingDirectory: cwd, timeout } },
+      );
+      return { passed: !result.isError, output: result.output };
+    });
+    // Changes are recorded as project paths; worktrees mirror the project layout.
+    const changed = (this.sessionChanges.get(sessionId) ?? []).map((c) => relative(this.workingDirectory, c.path));
+    const checks = await pipeline.run(changed);
+    if (checks.length === 0) return { passed: true, output: "" };
+
+    const passed = checks.every((c) => c.passed);
+    this.emitWSMessage(sessionId, "kory.verification", { taskId, passed, checks } satisfies KoryVerificationPayload);
+    const failed = checks.filter((c) => !c.passed).map((c) => c.name);
+    this.emitThought(sessionId, "verifying", passed ? `Verification passed: ${checks.map((c) => c.name).join(", ")}.` : `Verification failed: ${failed.join(", ")}.`);
+    return { passed, output: passed ? "" : formatVerificationFeedback(checks) };
   }
 
   private requiresSystemAccess(m: string): boolean { return ["install", "sudo", "apt"].some(k => m.toLowerCase().includes(k)); }
@@ -449,8 +1315,8 @@ export class KoryManager {
 
     let res = "";
     try {
-      for await (const event of provider.streamResponse({ model: routing.model, systemPrompt: "WORKER or MANAGER?", messages: [{ role: "user", content: m }], maxTokens: 5 })) if (event.type === "content_delta") res += event.content;
-      return res.toUpperCase().includes("WORKER");
+      for await (const event of this.metered(sessionId, KORY_IDENTITY.id, routing.model, provider.streamResponse({ model: routing.model, systemPrompt: ROUTING_SYSTEM_PROMPT, messages: [{ role: "user", content: m }], maxTokens: 20, responseSchema: ROUTING_RESPONSE, signal: this.runs.signal(sessionId) }))) if (event.type === "content_delta") res += event.content;
+      return parseRoutingDecision(res);
     } catch { return true; }
   }
 
@@ -469,6 +1335,7 @@ export class KoryManager {
     const provider = await this.providers.resolveProvider(routing.model, routing.provider);
     if (!provider) throw new Error("No provider.");
     const providerName = provider.name as ProviderName;
+    const signal = this.runs.signal(sessionId);
 
     this.emitWSMessage(sessionId, "agent.status", { agentId: KORY_IDENTITY.id, status: "thinking" });
     let content = "";
@@ -476,25 +1343,52 @@ export class KoryManager {
     let tokensOut = 0;
     let usageKnown = false;
     this.emitUsageUpdate(sessionId, KORY_IDENTITY.id, routing.model, providerName, tokensIn, tokensOut, usageKnown);
-    const stream = this.providers.executeWithRetry({ model: routing.model, systemPrompt: KORY_SYSTEM_PROMPT, messages: [{ role: "user", content: userMessage }], maxTokens: 4096 }, providerName);
+    // The server stores the user's message before processing; reuse that turn, extended with any
+    // clarifications folded into userMessage, rather than adding the message twice.
+    const history = this.loadHistory(sessionId);
+    const last = history[history.length - 1];
+    if (last?.role === "user" && turnText(last) && userMessage.startsWith(turnText(last))) history[history.length - 1] = textTurn("user", userMessage);
+    else history.push(textTurn("user", userMessage));
+    let thinking = "";
+    let call: MeteredCall | undefined;
+    const systemPrompt = this.withMemory(this.withContextFiles(sessionId, KORY_IDENTITY.id, KORY_SYSTEM_PROMPT, mentionedPaths(userMessage)), userMessage);
+    const stream = this.metered(sessionId, KORY_IDENTITY.id, routing.model, this.providers.executeWithRetry({ model: routing.model, systemPrompt, messages: toProviderMessages(history), maxTokens: 4096, signal }, providerName, this.buildFallbackChain(routing.model)), (c) => { call = c; });
     for await (const event of stream) {
       if (event.type === "content_delta") {
         content += event.content;
         this.emitWSMessage(sessionId, "stream.delta", { agentId: KORY_IDENTITY.id, content: event.content, model: routing.model });
+      } else if (event.type === "thinking_delta") {
+        thinking += event.thinking ?? "";
       } else if (event.type === "usage_update") {
         if (typeof event.tokensIn === "number") tokensIn = Math.max(tokensIn, event.tokensIn);
         if (typeof event.tokensOut === "number") tokensOut = Math.max(tokensOut, event.tokensOut);
         usageKnown = usageKnown || typeof event.tokensIn === "number" || typeof event.tokensOut === "number";
         this.emitUsageUpdate(sessionId, KORY_IDENTITY.id, routing.model, providerName, tokensIn, tokensOut, usageKnown);
+      } else if (event.type === "error") {
+        // An interrupted reply is still saved below, up to where it stopped.
+        if (signal?.aborted) break;
+        throw new Error(event.error ?? "Provider stream failed");
       }
     }
-    if (this.messages) this.messages.add(sessionId, { id: nanoid(12), sessionId, role: "assistant", content, model: routing.model, provider: providerName, createdAt: Date.now() });
-    this.emitWSMessage(sessionId, "agent.status", { agentId: KORY_IDENTITY.id, status: "done" });
+    const reply: ConversationTurn = {
+      role: "assistant",
+      content: [
+        ...(thinking ? [{ type: "thinking" as const, thinking }] : []),
+        { type: "text" as const, text: content },
+      ],
+    };
+    if (content || thinking || !signal?.aborted) {
+      this.persistTurns(sessionId, [reply], routing.model, providerName, undefined, call ? new Map([[reply, call]]) : undefined);
+    }
+    this.emitWSMessage(sessionId, "agent.status", { agentId: KORY_IDENTITY.id, status: signal?.aborted ? "cancelled" : "done" });
   }
 
-  private async executeWithProvider(sessionId: string, provider: any, modelId: string, userMessage: string, domain: WorkerDomain, reasoningLevel: any, isAutoMode: boolean, allowedPaths: string[], isSandboxed: boolean): Promise<{ success: boolean; error?: string }> {
+  private async executeWithProvider(sessionId: string, provider: any, modelId: string, userMessage: string, domain: WorkerDomain, reasoningLevel: any, isAutoMode: boolean, allowedPaths: string[], isSandboxed: boolean, taskId?: string): Promise<{ success: boolean; error?: string; cancelled?: boolean }> {
     const workerId = `worker-${nanoid(8)}`;
     const abort = new AbortController();
+    const runSignal = this.runs.signal(sessionId);
+    const onRunAbort = () => abort.abort();
+    runSignal?.addEventListener("abort", onRunAbort, { once: true });
     const identity: AgentIdentity = { id: workerId, name: `${domain} Worker`, role: "coder", model: modelId, provider: provider.name, domain, glowColor: DOMAIN.GLOW_COLORS[domain] };
     this.emitWSMessage(sessionId, "agent.spawned", { agent: identity, task: userMessage });
     let tokensIn = 0;
@@ -503,29 +1397,66 @@ export class KoryManager {
     this.emitUsageUpdate(sessionId, workerId, modelId, provider.name, tokensIn, tokensOut, usageKnown);
     this.activeWorkers.set(workerId, { agent: identity, status: "thinking", task: { id: workerId, description: userMessage, domain, assignedModel: modelId, assignedProvider: provider.name, status: "active" }, abort, sessionId });
 
-    const ctx: ToolContext = { sessionId, workingDirectory: this.workingDirectory, signal: abort.signal, allowedPaths, isSandboxed, emitFileEdit: (e) => this.emitWSMessage(sessionId, "stream.file_delta", { agentId: workerId, ...e }), emitFileComplete: (e) => this.emitWSMessage(sessionId, "stream.file_complete", { agentId: workerId, ...e }), recordChange: (c) => { const e = this.sessionChanges.get(sessionId) || []; e.push(c); this.sessionChanges.set(sessionId, e); } };
-    const history = this.loadHistory(sessionId);
-    const messages: any[] = [...history, { role: "user", content: userMessage }];
+    // In worktree isolation the worker edits its own checkout; the UI still sees project paths.
+    const worktree = taskId ? this.worktrees.get(taskId) : undefined;
+    const projectPath = (path: string) => (worktree ? this.worktrees.toProjectPath(worktree.taskId, path) : path);
+    const ctx: ToolContext = { sessionId, workingDirectory: worktree?.path ?? this.workingDirectory, signal: abort.signal, allowedPaths, isSandboxed, emitFileEdit: (e) => this.emitWSMessage(sessionId, "stream.file_delta", { agentId: workerId, ...e, path: projectPath(e.path) }), emitFileComplete: (e) => this.emitWSMessage(sessionId, "stream.file_complete", { agentId: workerId, ...e, path: projectPath(e.path) }), recordChange: (c) => { const e = this.sessionChanges.get(sessionId) || []; e.push({ ...c, path: projectPath(c.path) }); this.sessionChanges.set(sessionId, e); } };
+    // A task with a saved transcript (critic retry, or resume after restart) continues that conversation.
+    const transcriptPath = taskId ? this.transcriptPathFor(taskId) : undefined;
+    const prior = transcriptPath ? this.loadTranscript(transcriptPath) : [];
+    const messages: ConversationTurn[] = prior.length > 0 ? prior : this.loadHistory(sessionId);
+    // Turns produced by this call; persisted to the session together so parallel workers don't interleave.
+    const newTurns: ConversationTurn[] = [];
+    // Usage of the provider call that produced each assistant turn.
+    const turnCalls = new Map<ConversationTurn, MeteredCall>();
+    const record = (turn: ConversationTurn) => {
+      messages.push(turn);
+      newTurns.push(turn);
+      if (transcriptPath) appendFileSync(transcriptPath, JSON.stringify(turn) + "\n");
+    };
+    record(textTurn("user", userMessage));
+    const contextWindow = contextLimitFor(modelId, provider.name);
+    const workerPrompt = this.withMemory(this.withContextFiles(sessionId, workerId, WORKER_SYSTEM_PROMPT, [...allowedPaths, ...mentionedPaths(userMessage)]), userMessage);
+    let lastTurnTokens = 0;
+    let outcome: AgentStatus = "error";
 
     try {
       let turnCount = 0;
       while (turnCount < 25) {
+        if (abort.signal.aborted) throw new Error("Cancelled");
         turnCount++;
-        const stream = this.providers.executeWithRetry({ model: modelId, systemPrompt: WORKER_SYSTEM_PROMPT, messages: messages.map(m => ({ role: m.role, content: m.content })), tools: this.tools.getToolDefsForRole("worker"), maxTokens: 16384 }, provider.name);
+        const manual = this.pendingCompaction.delete(workerId);
+        if (manual || shouldCompact(Math.max(lastTurnTokens, estimateTokens(messages)), contextWindow)) {
+          if (await this.compactWorkerContext(sessionId, workerId, provider.name, modelId, messages, transcriptPath, manual)) lastTurnTokens = 0;
+        }
+        let turnTokensIn = 0;
+        let turnTokensOut = 0;
+        let call: MeteredCall | undefined;
+        const stream = this.metered(sessionId, workerId, modelId, this.providers.executeWithRetry({ model: modelId, systemPrompt: workerPrompt, messages: toProviderMessages(messages), tools: this.tools.getToolDefsForRole("worker"), maxTokens: 16384, signal: abort.signal }, provider.name, this.buildFallbackChain(modelId)), (c) => { call = c; });
         let assistantContent = "";
+        let thinking = "";
         let pendingToolCalls = new Map<string, { name: string; input: string }>();
-        const completedToolCalls: any[] = [];
+        const completedToolCalls: ToolCall[] = [];
         let hasToolCalls = false;
 
         for await (const event of stream) {
           if (event.type === "content_delta") {
             assistantContent += event.content;
             this.emitWSMessage(sessionId, "stream.delta", { agentId: workerId, content: event.content, model: modelId });
+          } else if (event.type === "thinking_delta") {
+            thinking += event.thinking ?? "";
+            this.emitWSMessage(sessionId, "stream.thinking", { agentId: workerId, thinking: event.thinking ?? "" });
           } else if (event.type === "usage_update") {
             if (typeof event.tokensIn === "number") tokensIn = Math.max(tokensIn, event.tokensIn);
             if (typeof event.tokensOut === "number") tokensOut = Math.max(tokensOut, event.tokensOut);
             usageKnown = usageKnown || typeof event.tokensIn === "number" || typeof event.tokensOut === "number";
             this.emitUsageUpdate(sessionId, workerId, modelId, provider.name, tokensIn, tokensOut, usageKnown);
+            turnTokensIn = Math.max(turnTokensIn, event.tokensIn ?? 0);
+            turnTokensOut = Math.max(turnTokensOut, event.tokensOut ?? 0);
+            lastTurnTokens = turnTokensIn + turnTokensOut;
+          } else if (event.type === "error") {
+            if (abort.signal.aborted) break;
+            throw new Error(event.error ?? "Provider stream failed");
           } else if (event.type === "tool_use_start") {
             hasToolCalls = true;
             pendingToolCalls.set(event.toolCallId!, { name: event.toolName!, input: "" });
@@ -536,33 +1467,149 @@ export class KoryManager {
           } else if (event.type === "tool_use_stop") {
             const call = pendingToolCalls.get(event.toolCallId!);
             if (call) {
-              let parsedInput = {};
+              let parsedInput: Record<string, unknown> = {};
               try { parsedInput = JSON.parse(call.input || "{}"); } catch {}
-              completedToolCalls.push({ id: event.toolCallId!, name: call.name, input: parsedInput });
+              completedToolCalls.push({ id: event.toolCallId!, name: call.name as ToolName, input: parsedInput });
               pendingToolCalls.delete(event.toolCallId!);
             }
           }
         }
-        messages.push({ role: "assistant", content: assistantContent });
+        // A reply cut off by cancellation keeps its text but not tool calls that will never run.
+        const cutOff = abort.signal.aborted;
+        const reply: ConversationTurn = {
+          role: "assistant",
+          content: [
+            ...(thinking ? [{ type: "thinking" as const, thinking }] : []),
+            ...(assistantContent ? [{ type: "text" as const, text: assistantContent }] : []),
+            ...(cutOff ? [] : completedToolCalls.map((toolCall) => ({ type: "tool_use" as const, toolCall }))),
+          ],
+        };
+        if (!cutOff || reply.content.length > 0) {
+          if (call) turnCalls.set(reply, call);
+          record(reply);
+        }
+        if (cutOff) throw new Error("Cancelled");
         if (hasToolCalls && completedToolCalls.length > 0) {
+          const results: ContentBlock[] = [];
           for (const tc of completedToolCalls) {
-            let result;
-            if (tc.name === "ask_manager") {
-               const ans = await this.handleManagerInquiry(sessionId, workerId, tc.input.question);
+            let result: ToolResult;
+            if (abort.signal.aborted) {
+              // Every tool_use still needs a result for the saved conversation to stay valid.
+              result = { callId: tc.id, name: tc.name, output: "Cancelled before it ran.", isError: true, durationMs: 0 };
+            } else if (tc.name === "ask_manager") {
+               const ans = await this.handleManagerInquiry(sessionId, workerId, String(tc.input.question ?? ""));
                result = { callId: tc.id, name: tc.name, output: ans, isError: false, durationMs: 0 };
+            } else if (worktree) {
+               result = await this.tools.execute(ctx, { id: tc.id, name: tc.name, input: tc.input });
+            } else if (SHELL_TOOLS.has(tc.name)) {
+               result = await this.executeJournaledShell(sessionId, ctx, { id: tc.id, name: tc.name, input: tc.input });
             } else {
+               const written = writtenPaths(tc, ctx.workingDirectory);
+               this.journal.before(sessionId, written);
                result = await this.tools.execute(ctx, { id: tc.id, name: tc.name, input: tc.input });
+               this.journal.after(sessionId, written);
             }
             this.emitWSMessage(sessionId, "stream.tool_result", { agentId: workerId, toolResult: result });
-            messages.push({ role: "tool", content: JSON.stringify(result), tool_call_id: tc.id });
+            results.push({ type: "tool_result", toolResult: result });
           }
+          record({ role: "user", content: results });
+          // Worktree edits stay on the task's branch; the timeline covers the shared tree.
+          if (!worktree) await this.recordCheckpoint(sessionId, `${identity.name}: ${completedToolCalls.map((tc) => tc.name).join(", ")}`, workerId);
           continue;
         }
         break;
       }
-      this.activeWorkers.delete(workerId);
+      outcome = "done";
       return { success: true };
-    } catch (err: any) { this.activeWorkers.delete(workerId); return { success: false, error: err.message }; }
+    } catch (err: any) {
+      if (abort.signal.aborted) {
+        outcome = "cancelled";
+        return { success: false, error: "Cancelled", cancelled: true };
+      }
+      return { success: false, error: err.message };
+    } finally {
+      runSignal?.removeEventListener("abort", onRunAbort);
+      this.activeWorkers.delete(workerId);
+      this.pendingCompaction.delete(workerId);
+      this.persistTurns(sessionId, newTurns, modelId, provider.name, workerId, turnCalls);
+      if (worktree) this.worktrees.commit(worktree.taskId, `[KORY WORKER] ${identity.name}: ${userMessage.split("\n")[0].slice(0, 60)}`);
+      this.emitWSMessage(sessionId, "agent.status", { agentId: workerId, status: outcome });
+    }
+  }
+
+  /** Save worker turns to the session so follow-up requests continue the same conversation. */
+  private persistTurns(sessionId: string, turns: ConversationTurn[], model: string, provider: ProviderName, agentId?: string, calls?: ReadonlyMap<ConversationTurn, MeteredCall>) {
+    if (!this.messages) return;
+    const now = Date.now();
+    turns.forEach((turn, i) => {
+      const call = calls?.get(turn);
+      this.messages!.add(sessionId, {
+        id: nanoid(12),
+        sessionId,
+        role: turn.role,
+        content: JSON.stringify(turn.content),
+        model: call?.model ?? model,
+        provider,
+        agentId,
+        tokensIn: call?.tokensIn,
+        tokensOut: call?.tokensOut,
+        cost: call?.cost,
+        // Keep insertion order stable for turns saved in the same millisecond.
+        createdAt: now + i,
+      });
+    });
+  }
+
+  /** Ask every running worker in a session to compact its context. Returns how many were asked. */
+  requestCompaction(sessionId: string): number {
+    let count = 0;
+    for (const [workerId, worker] of this.activeWorkers) {
+      if (worker.sessionId !== sessionId) continue;
+      this.pendingCompaction.add(workerId);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Summarize a worker's older turns in place. Returns false (leaving `messages` untouched)
+   * when there is nothing to compact or the summarizer fails.
+   */
+  private async compactWorkerContext(sessionId: string, workerId: string, provider: ProviderName, modelId: string, messages: ConversationTurn[], transcriptPath: string | undefined, manual: boolean): Promise<boolean> {
+    const worker = this.activeWorkers.get(workerId);
+    if (worker) worker.status = "compacting";
+    this.emitWSMessage(sessionId, "agent.status", { agentId: workerId, status: "compacting", detail: manual ? "Requested by user" : "Approaching context limit" });
+    const before = estimateTokens(messages);
+
+    try {
+      const compacted = await compactMessages(messages, async (transcript) => {
+        let summary = "";
+        const stream = this.metered(sessionId, workerId, modelId, this.providers.executeWithRetry({
+          model: modelId,
+          systemPrompt: SUMMARIZER_SYSTEM_PROMPT,
+          messages: [{ role: "user", content: transcript }],
+          maxTokens: COMPACTION.SUMMARY_MAX_TOKENS,
+          signal: worker?.abort.signal,
+        }, provider, this.buildFallbackChain(modelId)));
+        for await (const event of stream) {
+          if (event.type === "content_delta") summary += event.content;
+          else if (event.type === "error") throw new Error(event.error ?? "Summarizer failed");
+        }
+        return summary;
+      });
+      if (!compacted) return false;
+
+      messages.splice(0, messages.length, ...compacted);
+      if (transcriptPath) writeFileSync(transcriptPath, compacted.map((m) => JSON.stringify(m) + "\n").join(""));
+      koryLog.info({ sessionId, workerId, before, after: estimateTokens(messages), manual }, "Compacted worker context");
+      return true;
+    } catch (err) {
+      koryLog.warn({ sessionId, workerId, err }, "Context compaction failed; continuing with full history");
+      return false;
+    } finally {
+      if (worker) worker.status = "thinking";
+      this.emitWSMessage(sessionId, "agent.status", { agentId: workerId, status: "thinking" });
+    }
   }
 
   private async generateWorkerTask(sessionId: string, message: string, domain: WorkerDomain, preferredModel?: string): Promise<string> {
@@ -571,12 +1618,137 @@ export class KoryManager {
     if (!provider) return message;
     let res = "";
     try {
-      for await (const event of provider.streamResponse({ model: routing.model, systemPrompt: "Be brief and actionable.", messages: [{ role: "user", content: `Worker instruction for ${domain}: ${message}` }], maxTokens: 200 })) if (event.type === "content_delta") res += event.content;
+      for await (const event of this.metered(sessionId, KORY_IDENTITY.id, routing.model, provider.streamResponse({ model: routing.model, systemPrompt: "Be brief and actionable.", messages: [{ role: "user", content: `Worker instruction for ${domain}: ${message}` }], maxTokens: 200, signal: this.runs.signal(sessionId) }))) if (event.type === "content_delta") res += event.content;
       return res.trim() || message;
     } catch { return message; }
   }
 
-  private loadHistory(sessionId: string): any[] { return this.messages?.getRecent(sessionId, 10).map((m: any) => ({ role: m.role, content: m.content })) || []; }
+  private transcriptPathFor(taskId: string): string { return join(this.transcriptDir, `${taskId}.jsonl`); }
+  private loadTranscript(path: string): ConversationTurn[] {
+    if (!existsSync(path)) return [];
+    return readFileSync(path, "utf-8").split("\n").filter(Boolean).flatMap((line) => {
+      try {
+        const turn = JSON.parse(line);
+        return Array.isArray(turn.content) ? [turn as ConversationTurn] : [];
+      } catch { return []; }
+    });
+  }
+  /**
+   * Append the configured context files from the project root and the directories of `paths`
+   * to a system prompt, and tell the UI which files this agent received.
+   */
+  private withContextFiles(sessionId: string, agentId: string, systemPrompt: string, paths: readonly string[]): string {
+    const contextPaths = this.config.contextPaths ?? [];
+    if (contextPaths.length === 0) return systemPrompt;
+    try {
+      const files = loadContextFiles(this.workingDirectory, contextPaths, relevantDirectories(this.workingDirectory, paths));
+      if (files.length === 0) return systemPrompt;
+      this.emitWSMessage(sessionId, "kory.context_files", { agentId, files: files.map(({ path, chars, truncated }) => ({ path, chars, truncated })) });
+      return systemPrompt + formatContextFiles(files);
+    } catch (err) {
+      koryLog.warn({ err }, "Failed to load context files");
+      return systemPrompt;
+    }
+  }
+
+  /**
+   * Pass a provider stream through unchanged while metering it. When the call ends (or the
+   * consumer stops early) its usage is priced and added to the agent's and session's totals.
+   */
+  private async *metered(sessionId: string, agentId: string, model: string, stream: AsyncIterable<ProviderEvent>, onCall?: (call: MeteredCall) => void): AsyncGenerator<ProviderEvent> {
+    await this.enforceBudget(sessionId, agentId);
+    let usage = EMPTY_USAGE;
+    let servedBy = model;
+    try {
+      for await (const event of stream) {
+        if (event.type === "usage_update") {
+          usage = accumulateUsage(usage, event);
+          if (event.model) servedBy = event.model;
+        }
+        yield event;
+      }
+    } finally {
+      if (usage.tokensIn > 0 || usage.tokensOut > 0) {
+        const call = this.usage.record(sessionId, agentId, servedBy, usage);
+        onCall?.(call);
+        this.spend?.add(spendDay(), call.cost, call.tokensIn + call.tokensOut);
+        const session = this.sessions?.addUsage(sessionId, { tokensIn: call.tokensIn, tokensOut: call.tokensOut, cost: call.cost });
+        if (session) this.emitWSMessage(sessionId, "session.updated", { session, agentUsage: this.usage.agents(sessionId) } satisfies SessionUpdatedPayload);
+      }
+    }
+  }
+
+  /** A new request to Kory starts a fresh task budget. */
+  private startBudgetRun(sessionId: string) {
+    this.usage.startRun(sessionId);
+    this.budgetApprovals.delete(this.budgetKey(sessionId, KORY_IDENTITY.id, "task"));
+  }
+
+  private budgetKey(sessionId: string, agentId: string, scope: BudgetBreach["scope"]): string {
+    if (scope === "daily") return `daily:${spendDay()}`;
+    if (scope === "worker") return `worker:${agentId}`;
+    return `${scope}:${sessionId}`;
+  }
+
+  /**
+   * Check spend limits before a provider call. A hard limit stops the worker (token budget)
+   * or the whole run; a soft limit pauses to ask the user once per limit.
+   */
+  private async enforceBudget(sessionId: string, agentId: string): Promise<void> {
+    if (!this.config.budgets) return;
+    // One budget question per session at a time; everyone else waits for the answer.
+    const pending = this.budgetPrompts.get(sessionId);
+    if (pending) {
+      await pending.catch(() => {});
+      this.runs.signal(sessionId)?.throwIfAborted();
+      return this.enforceBudget(sessionId, agentId);
+    }
+
+    const breaches = checkBudget(this.config.budgets, {
+      taskUsd: this.usage.runCost(sessionId),
+      sessionUsd: this.sessions?.get(sessionId)?.totalCost ?? 0,
+      dailyUsd: this.spend?.get(spendDay()).cost ?? 0,
+      workerTokens: agentId === KORY_IDENTITY.id ? undefined : this.usage.agentTokens(sessionId, agentId),
+    });
+    const hard = breaches.find((b) => b.level === "hard");
+    if (hard) this.stopForBudget(sessionId, agentId, hard, "limit reached");
+
+    const soft = breaches.find((b) => !this.budgetApprovals.has(this.budgetKey(sessionId, agentId, b.scope)));
+    if (!soft) return;
+    const prompt = (async () => {
+      const answer = await this.waitForUserInputInternal(sessionId, `${describeBudgetBreach(soft)}. Continue?`, ["Continue", "Stop"]);
+      if (!/^continue/i.test(answer.trim())) this.stopForBudget(sessionId, agentId, soft, "stopped by user");
+      this.budgetApprovals.add(this.budgetKey(sessionId, agentId, soft.scope));
+    })().finally(() => this.budgetPrompts.delete(sessionId));
+    this.budgetPrompts.set(sessionId, prompt);
+    await prompt;
+    return this.enforceBudget(sessionId, agentId);
+  }
+
+  private stopForBudget(sessionId: string, agentId: string, breach: BudgetBreach, outcome: string): never {
+    const message = `${describeBudgetBreach(breach)} — ${outcome}.`;
+    koryLog.warn({ sessionId, agentId, ...breach }, "Budget stop");
+    this.emitError(sessionId, message);
+    // A worker over its token budget stops alone; spend limits stop the whole run, leaving queued messages be.
+    if (breach.scope !== "worker") this.runs.cancelCurrent(sessionId);
+    throw new BudgetExceededError(message, { sessionId, agentId, ...breach });
+  }
+
+  /** Append the project memories relevant to `query` to a system prompt. */
+  private withMemory(systemPrompt: string, query: string): string {
+    if (!this.memory) return systemPrompt;
+    try {
+      return systemPrompt + formatMemoriesForPrompt(selectPromptMemories(this.memory, query));
+    } catch (err) {
+      koryLog.warn({ err }, "Failed to load project memory");
+      return systemPrompt;
+    }
+  }
+
+  private loadHistory(sessionId: string): ConversationTurn[] {
+    const stored = this.messages?.getRecent(sessionId, MESSAGE.HISTORY_TURNS) ?? [];
+    return trimToTurnBoundary(stored.map(storedToTurn).filter((t): t is ConversationTurn => t !== null));
+  }
   private emitThought(sessionId: string, phase: string, thought: string) { this.emitWSMessage(sessionId, "kory.thought", { thought, phase }); }
   private emitRouting(sessionId: string, d: WorkerDomain, m: string, p: string) { this.emitWSMessage(sessionId, "kory.routing", { domain: d, selectedModel: m, selectedProvider: p, reasoning: `Routing to ${m} via ${p}` }); }
   private emitError(sessionId: string, error: string) { this.emitWSMessage(sessionId, "system.error", { error }); }
@@ -0,0 +1,129 @@
+// Session Run Queue — one run at a time per session, any number of sessions in parallel.
+// Follow-up messages wait their turn; an interrupt aborts the current run and
+// replaces whatever was queued with the redirect.
+
+import type { SessionRunStatusPayload } from "@koryphaios/shared";
+import { koryLog } from "../logger";
+
+export interface QueuedRun {
+  label: string;
+  run: (signal: AbortSignal) => Promise<void>;
+  /** Called instead of `run` when an interrupt drops the run before it started */
+  dropped?: () => void;
+}
+
+interface SessionRuns {
+  queue: QueuedRun[];
+  current?: { run: QueuedRun; abort: AbortController };
+  /** Settles once the queue has run dry */
+  drained?: Promise<void>;
+}
+
+export class SessionRunQueue {
+  private sessions = new Map<string, SessionRuns>();
+
+  constructor(private onChange?: (status: SessionRunStatusPayload) => void) {}
+
+  /** Queue a run. Returns how many runs are ahead of it (0 = started immediately). */
+  submit(sessionId: string, run: QueuedRun): number {
+    const entry = this.entry(sessionId);
+    entry.queue.push(run);
+    const ahead = entry.queue.length - 1 + (entry.current ? 1 : 0);
+    if (!entry.current) entry.drained = this.drain(sessionId, entry);
+    else this.emit(sessionId);
+    return ahead;
+  }
+
+  /**
+   * Abort the current run and drop queued ones. When `redirect` is given it runs as soon
+   * as the aborted run has unwound. Returns whether a run was in progress.
+   */
+  interrupt(sessionId: string, redirect?: QueuedRun): boolean {
+    const entry = this.sessions.get(sessionId);
+    if (!entry?.current) {
+      if (redirect) this.submit(sessionId, redirect);
+      return false;
+    }
+    const dropped = entry.queue;
+    entry.queue = redirect ? [redirect] : [];
+    for (const run of dropped) run.dropped?.();
+    entry.current.abort.abort();
+    this.emit(sessionId);
+    return true;
+  }
+
+  /**
+   * Abort the current run but keep what is queued behind it, e.g. when a budget stops one
+   * run and the user's follow-ups should still get their turn. Returns whether a run was in progress.
+   */
+  cancelCurrent(sessionId: string): boolean {
+    const entry = this.sessions.get(sessionId);
+    if (!entry?.current) return false;
+    entry.current.abort.abort();
+    this.emit(sessionId);
+    return true;
+  }
+
+  /** Interrupt every session. Returns how many had a run in progress. */
+  interruptAll(): number {
+    let interrupted = 0;
+    for (const sessionId of [...this.sessions.keys()]) {
+      if (this.interrupt(sessionId)) interrupted++;
+    }
+    return interrupted;
+  }
+
+  /** Resolves once the session has nothing running or queued, e.g. after an interrupt has unwound. */
+  whenIdle(sessionId: string): Promise<void> {
+    return this.sessions.get(sessionId)?.drained ?? Promise.resolve();
+  }
+
+  isRunning(sessionId: string): boolean {
+    return !!this.sessions.get(sessionId)?.current;
+  }
+
+  /** Abort signal of the session's current run. */
+  signal(sessionId: string): AbortSignal | undefined {
+    return this.sessions.get(sessionId)?.current?.abort.signal;
+  }
+
+  status(sessionId: string): SessionRunStatusPayload {
+    const entry = this.sessions.get(sessionId);
+    if (!entry?.current) return { sessionId, state: "idle", queued: entry?.queue.length ?? 0 };
+    return {
+      sessionId,
+      state: entry.current.abort.signal.aborted ? "interrupting" : "running",
+      queued: entry.queue.length,
+      current: entry.current.run.label,
+    };
+  }
+
+  private entry(sessionId: string): SessionRuns {
+    let entry = this.sessions.get(sessionId);
+    if (!entry) {
+      entry = { queue: [] };
+      this.sessions.set(sessionId, entry);
+    }
+    return entry;
+  }
+
+  private async drain(sessionId: string, entry: SessionRuns) {
+    while (entry.queue.length > 0) {
+      const run = entry.queue.shift()!;
+      entry.current = { run, abort: new AbortController() };
+      this.emit(sessionId);
+      try {
+        await run.run(entry.current.abort.signal);
+      } catch (err) {
+        koryLog.error({ sessionId, run: run.label, err }, "Session run failed");
+      }
+      entry.current = undefined;
+    }
+    this.sessions.delete(sessionId);
+    this.emit(sessionId);
+  }
+
+  private emit(sessionId: string) {
+    this.onChange?.(this.status(sessionId));
+  }
+}
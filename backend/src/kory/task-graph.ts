@@ -0,0 +1,108 @@
+// Task Graph — dependency-aware scheduling for decomposed Kory tasks.
+// Runs every task whose dependencies are done, up to a concurrency limit.
+
+export type TaskGraphStatus = "pending" | "active" | "done" | "failed";
+
+export interface TaskGraphNode {
+  id: string;
+  dependsOn?: string[];
+  status: TaskGraphStatus;
+  error?: string;
+}
+
+/**
+ * Check that every dependency refers to a known task and that the graph is acyclic.
+ * Returns a human-readable reason when the graph cannot be scheduled, or null when it can.
+ */
+export function findTaskGraphError(tasks: readonly TaskGraphNode[]): string | null {
+  const ids = new Set<string>();
+  for (const task of tasks) {
+    if (ids.has(task.id)) return `Duplicate task id "${task.id}"`;
+    ids.add(task.id);
+  }
+
+  for (const task of tasks) {
+    for (const dep of task.dependsOn ?? []) {
+      if (dep === task.id) return `Task "${task.id}" depends on itself`;
+      if (!ids.has(dep)) return `Task "${task.id}" depends on unknown task "${dep}"`;
+    }
+  }
+
+  // Kahn's algorithm: anything left unvisited sits on a cycle.
+  const remaining = new Map(tasks.map((t) => [t.id, new Set(t.dependsOn ?? [])]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [id, deps] of remaining) {
+      if ([...deps].every((dep) => !remaining.has(dep))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) return `Dependency cycle between tasks: ${[...remaining.keys()].join(", ")}`;
+  return null;
+}
+
+/**
+ * Execute a validated task graph. Task statuses are updated in place and `onChange`
+ * fires after every transition so callers can stream progress.
+ * Tasks whose dependencies fail are marked failed without running.
+ * Resolves true only when every task finished successfully.
+ */
+export async function runTaskGraph<T extends TaskGraphNode>(
+  tasks: T[],
+  maxParallel: number,
+  runTask: (task: T) => Promise<boolean>,
+  onChange: () => void,
+): Promise<boolean> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const running = new Map<string, Promise<void>>();
+  const limit = Math.max(1, maxParallel);
+
+  const start = (task: T) => {
+    task.status = "active";
+    onChange();
+    const run = runTask(task)
+      .then((ok) => {
+        task.status = ok ? "done" : "failed";
+        if (!ok && !task.error) task.error = "Worker did not complete the task";
+      })
+      .catch((err) => {
+        task.status = "failed";
+        task.error = err instanceof Error ? err.message : String(err);
+      })
+      .finally(() => {
+        running.delete(task.id);
+        onChange();
+      });
+    running.set(task.id, run);
+  };
+
+  while (true) {
+    let blocked = false;
+    for (const task of tasks) {
+      if (task.status !== "pending") continue;
+      const failedDep = (task.dependsOn ?? []).find((dep) => byId.get(dep)?.status === "failed");
+      if (failedDep) {
+        task.status = "failed";
+        task.error = `Skipped: dependency "${failedDep}" failed`;
+        blocked = true;
+      }
+    }
+    if (blocked) onChange();
+
+    const ready = tasks.filter(
+      (t) => t.status === "pending" && (t.dependsOn ?? []).every((dep) => byId.get(dep)?.status === "done"),
+    );
+    for (const task of ready) {
+      if (running.size >= limit) break;
+      start(task);
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  return tasks.every((t) => t.status === "done");
+}
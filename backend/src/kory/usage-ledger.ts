@@ -0,0 +1,59 @@
+// Usage Ledger — per-session, per-agent token and cost totals for this process.
+// Session totals are persisted by the session store; the per-agent split is kept here.
+
+import type { AgentUsage } from "@koryphaios/shared";
+import { calculateCost, type TokenUsage } from "../providers";
+
+export interface MeteredCall extends TokenUsage {
+  model: string;
+  cost: number;
+}
+
+export class UsageLedger {
+  private sessions = new Map<string, Map<string, AgentUsage>>();
+  /** Spend of each session's current run (one request to Kory) */
+  private runs = new Map<string, number>();
+
+  startRun(sessionId: string) {
+    this.runs.set(sessionId, 0);
+  }
+
+  runCost(sessionId: string): number {
+    return this.runs.get(sessionId) ?? 0;
+  }
+
+  agentTokens(sessionId: string, agentId: string): number {
+    const totals = this.sessions.get(sessionId)?.get(agentId);
+    return totals ? totals.tokensIn + totals.tokensOut : 0;
+  }
+
+  /** Price one finished provider call and add it to its agent's totals. */
+  record(sessionId: string, agentId: string, model: string, usage: TokenUsage): MeteredCall {
+    const call: MeteredCall = { ...usage, model, cost: calculateCost(model, usage) };
+    let agents = this.sessions.get(sessionId);
+    if (!agents) {
+      agents = new Map();
+      this.sessions.set(sessionId, agents);
+    }
+    const totals = agents.get(agentId) ?? { agentId, calls: 0, tokensIn: 0, tokensOut: 0, tokensCacheRead: 0, tokensCacheWrite: 0, cost: 0 };
+    totals.model = model;
+    totals.calls++;
+    totals.tokensIn += usage.tokensIn;
+    totals.tokensOut += usage.tokensOut;
+    totals.tokensCacheRead += usage.tokensCacheRead;
+    totals.tokensCacheWrite += usage.tokensCacheWrite;
+    totals.cost += call.cost;
+    agents.set(agentId, totals);
+    this.runs.set(sessionId, this.runCost(sessionId) + call.cost);
+    return call;
+  }
+
+  agents(sessionId: string): AgentUsage[] {
+    return [...(this.sessions.get(sessionId)?.values() ?? [])].map((a) => ({ ...a }));
+  }
+
+  clear(sessionId: string) {
+    this.sessions.delete(sessionId);
+    this.runs.delete(sessionId);
+  }
+}
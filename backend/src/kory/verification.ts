@@ -0,0 +1,240 @@
+// Verification pipeline — the named checks (typecheck, lint, tests) a worker's changes must
+// pass before they're offered to the user. Checks come from the project's `verification`
+// config or are detected from each package's manifest, and in a monorepo only the packages
+// containing changed files are checked. Output is parsed into per-file failures so the
+// worker gets a short list to fix rather than a wall of logs.
+
+import { existsSync, readFileSync } from "fs";
+import { dirname, isAbsolute, join, relative, resolve } from "path";
+import type { VerificationCheck, VerificationCheckResult, VerificationConfig, VerificationFailure } from "@koryphaios/shared";
+import { VERIFICATION } from "../constants";
+
+/** Runs one check's command; `passed` is whether it exited cleanly. */
+export type CheckRunner = (command: string, cwd: string, timeoutSeconds: number) => Promise<{ passed: boolean; output: string }>;
+
+/** Files whose presence makes a directory a package with its own checks. */
+const PACKAGE_MARKERS = ["package.json", "Cargo.toml", "go.mod", "pyproject.toml", "setup.py"];
+
+/** Lockfiles naming the JS package manager, searched from the package up to the project root. */
+const LOCKFILES: Array<[string, string]> = [
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+];
+
+/** How each package manager runs a binary from node_modules. */
+const EXEC: Record<string, string> = { bun: "bunx", pnpm: "pnpm exec", yarn: "yarn", npm: "npx" };
+
+const TYPECHECK_SCRIPTS = ["typecheck", "type-check", "tsc", "check-types"];
+
+export class VerificationPipeline {
+  constructor(
+    private root: string,
+    private config: VerificationConfig | undefined,
+    private runner: CheckRunner,
+  ) {}
+
+  /** The checks covering these project-relative changed files (every package when none are given). */
+  resolve(changedFiles: string[]): VerificationCheck[] {
+    if (this.config?.disabled) return [];
+    const changed = changedFiles.map((f) => this.toRelative(f)).filter((f): f is string => f !== null);
+
+    if (this.config?.checks) {
+      return this.config.checks.filter((check) =>
+        !check.cwd || changed.length === 0 || changed.some((f) => isInside(f, normalize(check.cwd!))),
+      );
+    }
+
+    const packages = new Set<string>();
+    if (changed.length === 0) {
+      if (hasMarker(this.root)) packages.add(".");
+    } else {
+      for (const file of changed) {
+        const pkg = this.nearestPackage(file);
+        if (pkg !== null) packages.add(pkg);
+      }
+    }
+    return [...packages].sort().flatMap((pkg) => this.detect(pkg));
+  }
+
+  /** Runs the checks for these changed files in order; an empty result means nothing applied. */
+  async run(changedFiles: string[]): Promise<VerificationCheckResult[]> {
+    const results: VerificationCheckResult[] = [];
+    for (const check of this.resolve(changedFiles)) {
+      const cwd = normalize(check.cwd ?? ".");
+      const timeout = check.timeoutSeconds ?? this.config?.timeoutSeconds ?? VERIFICATION.DEFAULT_TIMEOUT_SECONDS;
+      const started = performance.now();
+      const { passed, output } = await this.runner(check.command, join(this.root, cwd), timeout);
+      const clean = stripAnsi(output);
+      results.push({
+        name: check.name,
+        command: check.command,
+        cwd,
+        passed,
+        durationMs: Math.round(performance.now() - started),
+        failures: passed ? [] : parseFailures(clean),
+        output: clean.split("\n").slice(-VERIFICATION.OUTPUT_TAIL_LINES).join("\n").trim(),
+      });
+    }
+    return results;
+  }
+
+  /** The checks a package's manifest implies, with `cwd` set to the package. */
+  private detect(pkg: string): VerificationCheck[] {
+    const dir = join(this.root, pkg);
+    const checks: Array<Omit<VerificationCheck, "cwd">> = [];
+
+    if (existsSync(join(dir, "package.json"))) {
+      let scripts: Record<string, string> = {};
+      try {
+        scripts = JSON.parse(readFileSync(join(dir, "package.json"), "utf-8")).scripts ?? {};
+      } catch {
+        // An unparsable manifest still gets the tsconfig-based typecheck below.
+      }
+      const pm = this.packageManager(pkg);
+      const typecheck = TYPECHECK_SCRIPTS.find((s) => scripts[s]);
+      if (typecheck) checks.push({ name: "typecheck", command: `${pm} run ${typecheck}` });
+      else if (existsSync(join(dir, "tsconfig.json"))) checks.push({ name: "typecheck", command: `${EXEC[pm]} tsc --noEmit` });
+      if (scripts.lint) checks.push({ name: "lint", command: `${pm} run lint` });
+      // npm init's placeholder test script always fails.
+      if (scripts.test && !scripts.test.includes("no test specified")) checks.push({ name: "test", command: `${pm} run test` });
+    } else if (existsSync(join(dir, "Cargo.toml"))) {
+      checks.push({ name: "typecheck", command: "cargo check --all-targets" });
+      checks.push({ name: "test", command: "cargo test" });
+    } else if (existsSync(join(dir, "go.mod"))) {
+      checks.push({ name: "typecheck", command: "go build ./..." });
+      checks.push({ name: "lint", command: "go vet ./..." });
+      checks.push({ name: "test", command: "go test ./..." });
+    } else {
+      const pyproject = existsSync(join(dir, "pyproject.toml")) ? readFileSync(join(dir, "pyproject.toml"), "utf-8") : "";
+      if (pyproject.includes("[tool.mypy]")) checks.push({ name: "typecheck", command: "mypy ." });
+      if (pyproject.includes("[tool.ruff")) checks.push({ name: "lint", command: "ruff check ." });
+      if (pyproject.includes("pytest") || existsSync(join(dir, "pytest.ini")) || existsSync(join(dir, "tests"))) {
+        checks.push({ name: "test", command: "python -m pytest -q" });
+      }
+    }
+
+    return checks.map((check) => ({ ...check, cwd: pkg }));
+  }
+
+  /** The package manager owning a JS package, from the nearest lockfile at or above it. */
+  private packageManager(pkg: string): string {
+    for (let dir = pkg; ; dir = dirname(dir)) {
+      const found = LOCKFILES.find(([file]) => existsSync(join(this.root, dir, file)));
+      if (found) return found[1];
+      if (dir === ".") return "npm";
+    }
+  }
+
+  /** The closest directory at or above a changed file that is a package, or null outside any. */
+  private nearestPackage(file: string): string | null {
+    for (let dir = dirname(file); ; dir = dirname(dir)) {
+      if (hasMarker(join(this.root, dir))) return dir;
+      if (dir === ".") return null;
+    }
+  }
+
+  private toRelative(file: string): string | null {
+    const rel = relative(this.root, resolve(this.root, file));
+    if (rel.startsWith("..") || isAbsolute(rel)) return null;
+    return rel || ".";
+  }
+}
+
+/** A worker-facing summary of what failed, one line per parsed problem. */
+export function formatVerificationFeedback(results: VerificationCheckResult[]): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    const where = result.cwd === "." ? "" : ` in ${result.cwd}`;
+    if (result.passed) {
+      lines.push(`✓ ${result.name} (${result.command}${where})`);
+      continue;
+    }
+    lines.push(`✗ ${result.name} failed (${result.command}${where})`);
+    if (result.failures.length === 0) {
+      lines.push(...result.output.split("\n").map((line) => `    ${line}`));
+      continue;
+    }
+    for (const failure of result.failures) {
+      const location = failure.file ? `${failure.file}${failure.line ? `:${failure.line}` : ""}: ` : "";
+      lines.push(`  - ${location}${failure.message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+interface FailurePattern {
+  pattern: RegExp;
+  parse: (m: RegExpMatchArray) => VerificationFailure;
+}
+
+/** Single-line failure formats, most specific first. */
+const FAILURE_PATTERNS: FailurePattern[] = [
+  // tsc: src/a.ts(12,5): error TS2322: Type 'string' is not assignable...
+  { pattern: /^(.+?)\((\d+),\d+\): error (TS\d+: .+)$/, parse: (m) => ({ file: m[1], line: Number(m[2]), message: m[3] }) },
+  // pytest: FAILED tests/test_a.py::test_name - AssertionError: ...
+  { pattern: /^FAILED (\S+?)::(\S+)(?: - (.+))?$/, parse: (m) => ({ file: m[1], message: `${m[2]} failed${m[3] ? `: ${m[3]}` : ""}` }) },
+  // vitest: FAIL  src/a.test.ts > suite > name
+  { pattern: /^\s*FAIL\s+(\S+)\s+>\s+(.+)$/, parse: (m) => ({ file: m[1], message: `${m[2]} failed` }) },
+  // bun test: (fail) suite > name [1.20ms]
+  { pattern: /^\(fail\) (.+?)(?: \[[\d.]+m?s\])?$/, parse: (m) => ({ message: `${m[1]} failed` }) },
+  // jest: ● suite › name
+  { pattern: /^\s*● (.+)$/, parse: (m) => ({ message: `${m[1]} failed` }) },
+  // go test: --- FAIL: TestName (0.00s)
+  { pattern: /^\s*--- FAIL: (\S+)/, parse: (m) => ({ message: `${m[1]} failed` }) },
+  // cargo test: test tests::name ... FAILED
+  { pattern: /^test (\S+) \.\.\. FAILED$/, parse: (m) => ({ message: `${m[1]} failed` }) },
+  // file:line[:col]: message — go vet, gcc, mypy, ruff, eslint's unix format
+  { pattern: /^([^\s:(][^\s:]*\.\w+):(\d+)(?::\d+)?:\s*(.+)$/, parse: (m) => ({ file: m[1], line: Number(m[2]), message: m[3] }) },
+];
+
+/** ESLint's default "stylish" format puts the file on its own line above its problems. */
+const STYLISH_FILE = /^(?:[A-Za-z]:)?[\w./\\@-]+\.\w+$/;
+const STYLISH_PROBLEM = /^\s+(\d+):\d+\s+error\s+(.+?)(?:\s{2,}\S+)?$/;
+
+/** Problems recognised in a failed check's output, deduplicated and capped. */
+export function parseFailures(output: string): VerificationFailure[] {
+  const failures: VerificationFailure[] = [];
+  const seen = new Set<string>();
+  let stylishFile: string | undefined;
+
+  for (const line of output.split("\n")) {
+    let failure: VerificationFailure | undefined;
+    const problem = stylishFile ? line.match(STYLISH_PROBLEM) : null;
+    if (problem) {
+      failure = { file: stylishFile, line: Number(problem[1]), message: problem[2] };
+    } else {
+      for (const { pattern, parse } of FAILURE_PATTERNS) {
+        const m = line.match(pattern);
+        if (m) { failure = parse(m); break; }
+      }
+      if (!failure && STYLISH_FILE.test(line)) stylishFile = line;
+    }
+    if (!failure) continue;
+
+    const key = `${failure.file ?? ""}:${failure.line ?? ""}:${failure.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    failures.push(failure);
+    if (failures.length >= VERIFICATION.MAX_FAILURES) break;
+  }
+  return failures;
+}
+
+function hasMarker(dir: string): boolean {
+  return PACKAGE_MARKERS.some((marker) => existsSync(join(dir, marker)));
+}
+
+function normalize(dir: string): string {
+  return join(dir).replace(/\/+$/, "") || ".";
+}
+
+function isInside(file: string, dir: string): boolean {
+  return dir === "." || file === dir || file.startsWith(`${dir}/`);
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
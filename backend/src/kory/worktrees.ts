@@ -0,0 +1,192 @@
+// Worker worktrees — each task runs in its own `git worktree` on a throwaway branch,
+// so parallel and retried workers never touch the user's working tree. Branches are
+// merged back into the user's current branch when the session's changes are accepted.
+
+import { existsSync, mkdirSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join, relative, isAbsolute } from "path";
+import { GitManager } from "./git-manager";
+import { koryLog } from "../logger";
+
+export interface WorkerWorktree {
+  taskId: string;
+  sessionId: string;
+  path: string;
+  branch: string;
+}
+
+export interface WorktreeMergeResult {
+  /** Branches merged into the user's branch, in order */
+  merged: string[];
+  /** Files left with conflict markers by the branch that stopped the merge */
+  conflicts: string[];
+  /** Set when a branch could not be merged for a reason other than conflicts */
+  error?: string;
+}
+
+/** Untracked directories linked into each worktree so builds and tests work there. Never committed. */
+const SHARED_DIRECTORIES = ["node_modules"];
+const BRANCH_PREFIX = "kory/";
+
+export class WorktreeManager {
+  /** Worktrees by task id, in creation order */
+  private worktrees = new Map<string, WorkerWorktree>();
+  /** Tasks whose branch has at least one worker commit */
+  private committed = new Set<string>();
+
+  constructor(
+    private workingDirectory: string,
+    private git: GitManager,
+    private root = join(tmpdir(), "koryphaios-worktrees"),
+  ) {}
+
+  /** Worktrees can only be made in a repository with at least one commit. */
+  isSupported(): boolean {
+    return this.git.isGitRepo() && this.git.getCurrentHash() !== null;
+  }
+
+  get(taskId: string): WorkerWorktree | undefined {
+    return this.worktrees.get(taskId);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.forSession(sessionId).length > 0;
+  }
+
+  /** Whether any of the session's workers committed something that could be merged. */
+  hasCommits(sessionId: string): boolean {
+    return this.forSession(sessionId).some((w) => this.committed.has(w.taskId));
+  }
+
+  /**
+   * The task's worktree, created on first use from HEAD with the branches of the tasks it
+   * depends on merged in. Retries of the same task reuse it. Returns null when it can't be made.
+   */
+  async acquire(sessionId: string, taskId: string, dependsOn: readonly string[] = []): Promise<WorkerWorktree | null> {
+    const existing = this.worktrees.get(taskId);
+    if (existing) return existing;
+    if (!this.isSupported()) {
+      koryLog.warn({ sessionId, taskId, workingDirectory: this.workingDirectory }, "Worktrees need a git repository with at least one commit");
+      return null;
+    }
+
+    const worktree: WorkerWorktree = { taskId, sessionId, path: join(this.root, taskId), branch: `${BRANCH_PREFIX}${taskId}` };
+    if (!this.checkOut(worktree)) return null;
+
+    const worktreeGit = new GitManager(worktree.path);
+    for (const dep of dependsOn) {
+      const base = this.worktrees.get(dep);
+      if (!base) continue;
+      const result = await worktreeGit.merge(base.branch);
+      if (!result.success) {
+        // The worker starts without that dependency's changes rather than on conflict markers.
+        worktreeGit.abortMerge();
+        koryLog.warn({ taskId, dependency: dep, output: result.output }, "Could not bring dependency changes into worktree");
+      }
+    }
+
+    this.worktrees.set(taskId, worktree);
+    koryLog.info({ sessionId, taskId, path: worktree.path }, "Created worker worktree");
+    return worktree;
+  }
+
+  /**
+   * Pick up the worker branches a previous server run left behind, so resumed tasks continue
+   * on them and unmerged work can still be accepted or rejected. Branches whose worktree
+   * directory is gone (e.g. a cleared temp dir) are checked out again. `taskOf` looks up the
+   * owning session; branches of unknown tasks are left alone. Returns how many were reattached.
+   */
+  async reattach(taskOf: (taskId: string) => { sessionId: string; createdAt: number } | undefined): Promise<number> {
+    if (!this.isSupported()) return 0;
+    const checkedOut = new Map(this.git.listWorktrees().filter((w) => w.branch).map((w) => [w.branch!, w.path]));
+    const found: Array<WorkerWorktree & { createdAt: number }> = [];
+    for (const branch of await this.git.getBranches()) {
+      if (!branch.startsWith(BRANCH_PREFIX)) continue;
+      const taskId = branch.slice(BRANCH_PREFIX.length);
+      if (this.worktrees.has(taskId)) continue;
+      const task = taskOf(taskId);
+      if (!task) {
+        koryLog.warn({ branch }, "Leaving worker branch of an unknown task");
+        continue;
+      }
+      const worktree = { taskId, sessionId: task.sessionId, path: checkedOut.get(branch) ?? join(this.root, taskId), branch };
+      if (!checkedOut.has(branch) && !this.checkOut(worktree)) continue;
+      found.push({ ...worktree, createdAt: task.createdAt });
+    }
+
+    // Merges follow creation order, so dependencies land before the tasks built on them.
+    for (const { createdAt: _, ...worktree } of found.sort((a, b) => a.createdAt - b.createdAt)) {
+      this.worktrees.set(worktree.taskId, worktree);
+      if (this.git.isAhead(worktree.branch)) this.committed.add(worktree.taskId);
+    }
+    if (found.length > 0) koryLog.info({ count: found.length }, "Reattached worker worktrees");
+    return found.length;
+  }
+
+  /** Commit whatever the task's worker left in its worktree. Returns whether anything was committed. */
+  commit(taskId: string, message: string): boolean {
+    const worktree = this.worktrees.get(taskId);
+    if (!worktree || !new GitManager(worktree.path).commitAll(message, SHARED_DIRECTORIES)) return false;
+    this.committed.add(taskId);
+    return true;
+  }
+
+  /** Map a path inside a worktree to the same path in the user's working tree. */
+  toProjectPath(taskId: string, path: string): string {
+    const worktree = this.worktrees.get(taskId);
+    if (!worktree) return path;
+    const rel = relative(worktree.path, path);
+    return rel.startsWith("..") || isAbsolute(rel) ? path : join(this.workingDirectory, rel);
+  }
+
+  /**
+   * Merge the session's branches into the user's current branch in the order they were created,
+   * stopping at the first that fails. A conflicted merge is left in progress for the user to
+   * resolve; a branch git refused to merge (e.g. over uncommitted edits) is kept for the next
+   * attempt, as are the branches after it.
+   */
+  async mergeSession(sessionId: string): Promise<WorktreeMergeResult> {
+    const merged: string[] = [];
+    for (const worktree of this.forSession(sessionId)) {
+      const result = await this.git.merge(worktree.branch);
+      if (result.hasConflicts) {
+        const conflicts = await this.git.getConflicts();
+        koryLog.warn({ sessionId, branch: worktree.branch, conflicts }, "Worker branch merged with conflicts");
+        // MERGE_HEAD keeps the branch's commit, so the branch itself can go.
+        this.release(worktree);
+        return { merged, conflicts };
+      }
+      if (!result.success) return { merged, conflicts: [], error: result.output.trim() };
+      merged.push(worktree.branch);
+      this.release(worktree);
+    }
+    return { merged, conflicts: [] };
+  }
+
+  /** Drop the session's worktrees and branches without merging anything. */
+  discardSession(sessionId: string): void {
+    for (const worktree of this.forSession(sessionId)) this.release(worktree);
+  }
+
+  /** Check the worktree's branch out at its path and link the shared directories in. */
+  private checkOut(worktree: WorkerWorktree): boolean {
+    mkdirSync(this.root, { recursive: true });
+    if (!this.git.addWorktree(worktree.path, worktree.branch)) return false;
+    for (const dir of SHARED_DIRECTORIES) {
+      const source = join(this.workingDirectory, dir);
+      const target = join(worktree.path, dir);
+      if (existsSync(source) && !existsSync(target)) symlinkSync(source, target, "dir");
+    }
+    return true;
+  }
+
+  private forSession(sessionId: string): WorkerWorktree[] {
+    return [...this.worktrees.values()].filter((w) => w.sessionId === sessionId);
+  }
+
+  private release(worktree: WorkerWorktree) {
+    this.git.removeWorktree(worktree.path, worktree.branch);
+    this.worktrees.delete(worktree.taskId);
+    this.committed.delete(worktree.taskId);
+  }
+}
@@ -14,6 +14,7 @@ import {
 } from "./types";
 import { withRetry } from "./utils";
 import { detectClaudeCodeToken } from "./auth-utils";
+import { PROVIDER } from "../constants";
 
 export class AnthropicProvider implements Provider {
   readonly name: "anthropic";
@@ -41,19 +42,19 @@ export class AnthropicProvider implements Provider {
   private cachedModels: ModelDef[] | null = null;
   private lastFetch = 0;
 
-  async listModels(): Promise<ModelDef[]> {
+  async listModels(options?: { refresh?: boolean }): Promise<ModelDef[]> {
     const localModels = getModelsForProvider(this.name);
     
     if (!this.isAvailable()) {
       return localModels;
     }
 
-    if (this.cachedModels && Date.now() - this.lastFetch < 5 * 60 * 1000) {
+    if (!options?.refresh && this.cachedModels && Date.now() - this.lastFetch < PROVIDER.MODEL_CACHE_TTL_MS) {
       return this.cachedModels;
     }
 
     try {
-      const response = await withRetry(() => this.client.models.list());
+      const response = await withRetry(() => this.client.models.list(), { maxRetries: PROVIDER.MODEL_LIST_MAX_ATTEMPTS });
       
       const remoteModels: ModelDef[] = [];
       for (const model of response.data) {
@@ -65,25 +66,30 @@ export class AnthropicProvider implements Provider {
       }
       
       this.cachedModels = [...localModels, ...remoteModels];
-      this.lastFetch = Date.now();
-      return this.cachedModels;
-    } catch (err) {
-      return localModels;
+    } catch {
+      // Remembered for the TTL like a successful listing, so a failing endpoint isn't re-queried on every call.
+      this.cachedModels ??= localModels;
     }
+    this.lastFetch = Date.now();
+    return this.cachedModels;
   }
 
   async *streamResponse(request: StreamRequest): AsyncGenerator<ProviderEvent> {
     const messages = this.convertMessages(request.messages);
-    const tools = request.tools?.map((t) => ({
+    const tools: Anthropic.Tool[] | undefined = request.tools?.map((t) => ({
       name: t.name,
       description: t.description,
       input_schema: t.inputSchema as Anthropic.Tool.InputSchema,
     }));
+    // Tools, system prompt and conversation form one prefix that worker loops resend every turn.
+    // Breakpoints at the end of each (4, the API's limit) let the next call read it from cache.
+    if (tools?.length) tools[tools.length - 1].cache_control = CACHE_BREAKPOINT;
+    markHistoryBreakpoints(messages);
 
     const params: Anthropic.MessageCreateParamsStreaming = {
       model: request.model,
       max_tokens: request.maxTokens ?? 16_384,
-      system: request.systemPrompt,
+      system: request.systemPrompt ? [{ type: "text", text: request.systemPrompt, cache_control: CACHE_BREAKPOINT }] : undefined,
       messages,
       stream: true,
       ...(tools?.length && { tools }),
@@ -112,7 +118,7 @@ export class AnthropicProvider implements Provider {
       }
 
       if (thinkingBudget > 0) {
-        (params as any).thinking = {
+        params.thinking = {
           type: "enabled",
           budget_tokens: thinkingBudget,
         };
@@ -121,10 +127,20 @@ export class AnthropicProvider implements Provider {
       }
     }
 
+    // There is no JSON mode; forcing a call to a tool whose input schema is the response schema has
+    // the same effect. Forced tool choice can't be combined with extended thinking or other tools.
+    const structured = !!request.responseSchema && !tools?.length && !params.thinking;
+    if (structured) {
+      const { name, schema } = request.responseSchema!;
+      params.tools = [{ name, description: "Give your answer as this tool's input.", input_schema: schema as Anthropic.Tool.InputSchema }];
+      params.tool_choice = { type: "tool", name };
+    }
+
     try {
-      const stream = await withRetry(() => this.client.messages.stream(params, {
+      // Transient failures are retried by ProviderRegistry.executeWithRetry.
+      const stream = this.client.messages.stream(params, {
         signal: request.signal,
-      }));
+      });
 
       let currentToolCallId = "";
       let currentToolName = "";
@@ -134,7 +150,8 @@ export class AnthropicProvider implements Provider {
         switch (event.type) {
           case "content_block_start": {
             const block = event.content_block;
-            if (block.type === "tool_use") {
+            // The forced tool's input is the reply itself, streamed below as content.
+            if (block.type === "tool_use" && !structured) {
               currentToolCallId = block.id;
               currentToolName = block.name;
               toolInputBuffer = "";
@@ -155,6 +172,8 @@ export class AnthropicProvider implements Provider {
               yield { type: "content_delta", content: delta.text };
             } else if (delta.type === "thinking_delta") {
               yield { type: "thinking_delta", thinking: delta.thinking };
+            } else if (delta.type === "input_json_delta" && structured) {
+              yield { type: "content_delta", content: delta.partial_json };
             } else if (delta.type === "input_json_delta") {
               toolInputBuffer += delta.partial_json;
               yield {
@@ -183,14 +202,18 @@ export class AnthropicProvider implements Provider {
           }
 
           case "message_delta": {
-            const usage = (event as any).usage;
+            // Newer API versions repeat the final input and cache counters here.
+            const usage = event.usage as Anthropic.MessageDeltaUsage & Partial<Anthropic.Usage>;
             yield {
               type: "usage_update",
               tokensOut: usage?.output_tokens,
+              ...(typeof usage?.input_tokens === "number" && { tokensIn: promptTokens(usage as Anthropic.Usage) }),
+              tokensCache: usage?.cache_read_input_tokens ?? undefined,
+              tokensCacheWrite: usage?.cache_creation_input_tokens ?? undefined,
             };
             yield {
               type: "complete",
-              finishReason: event.delta.stop_reason === "tool_use" ? "tool_use" : "end_turn",
+              finishReason: event.delta.stop_reason === "tool_use" && !structured ? "tool_use" : "end_turn",
             };
             break;
           }
@@ -199,10 +222,10 @@ export class AnthropicProvider implements Provider {
             const usage = event.message.usage;
             yield {
               type: "usage_update",
-              tokensIn: usage.input_tokens,
+              tokensIn: promptTokens(usage),
               tokensOut: usage.output_tokens,
-              // Anthropic reports cache reads in usage.cache_read_input_tokens
-              tokensCache: (usage as any).cache_read_input_tokens,
+              tokensCache: usage.cache_read_input_tokens ?? undefined,
+              tokensCacheWrite: usage.cache_creation_input_tokens ?? undefined,
             };
             break;
           }
@@ -260,3 +283,31 @@ export class AnthropicProvider implements Provider {
       });
   }
 }
+
+const CACHE_BREAKPOINT: Anthropic.CacheControlEphemeral = { type: "ephemeral" };
+
+/** Anthropic's input_tokens excludes cached tokens; report the full prompt like other providers. */
+function promptTokens(usage: Anthropic.Usage): number {
+  return usage.input_tokens + (usage.cache_read_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0);
+}
+
+/**
+ * Mark the ends of the last two user turns. The newest breakpoint writes the whole history to
+ * cache for the next call; the one before it reads back what the previous call wrote.
+ */
+function markHistoryBreakpoints(messages: Anthropic.MessageParam[]) {
+  let marked = 0;
+  for (let i = messages.length - 1; i >= 0 && marked < 2; i--) {
+    const message = messages[i];
+    if (message.role !== "user") continue;
+    if (typeof message.content === "string") {
+      if (!message.content) continue;
+      message.content = [{ type: "text", text: message.content }];
+    }
+    // Empty text blocks can't carry a breakpoint.
+    const last = [...message.content].reverse().find((b) => b.type !== "text" || b.text);
+    if (!last || last.type === "thinking" || last.type === "redacted_thinking") continue;
+    last.cache_control = CACHE_BREAKPOINT;
+    marked++;
+  }
+}
@@ -0,0 +1,172 @@
+// Provider cassettes — record real provider exchanges to a JSONL file and serve them back later,
+// so a tricky live session can be captured once and replayed as a deterministic regression test.
+// Each line holds one call: the request (redacted), the events the provider streamed, and a hash
+// of the unredacted request that replay looks responses up by.
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { createHash } from "crypto";
+import type { ModelDef, ProviderConfig, ProviderName } from "@koryphaios/shared";
+import {
+  type Provider,
+  type ProviderEvent,
+  type StreamRequest,
+  getModelsForProvider,
+} from "./types";
+
+export interface CassetteEntry {
+  hash: string;
+  provider: ProviderName;
+  /** The request with secrets redacted, for reading the cassette; replay only uses `hash` */
+  request: Omit<StreamRequest, "signal">;
+  events: ProviderEvent[];
+  recordedAt: number;
+}
+
+const REDACTED = "[REDACTED]";
+
+/** Credential shapes redacted even when the registry doesn't know the value. */
+const SECRET_PATTERNS = [
+  /sk-ant-[\w-]{20,}/g,
+  /sk-(?:proj-)?[\w-]{20,}/g,
+  /AIza[\w-]{35}/g,
+  /gh[pousr]_[A-Za-z0-9]{36,}/g,
+  /xox[abpr]-[\w-]{10,}/g,
+  /AKIA[0-9A-Z]{16}/g,
+  /(Bearer\s+)[\w.~+/-]{20,}=*/g,
+];
+
+/** Stable identity of a request: everything the provider sees, with object keys sorted. */
+export function requestHash(request: StreamRequest): string {
+  const { model, systemPrompt, messages, tools, maxTokens, temperature, reasoningLevel, responseSchema } = request;
+  const canonical = stableStringify({ model, systemPrompt, messages, tools, maxTokens, temperature, reasoningLevel, responseSchema });
+  return createHash("sha256").update(canonical).digest("hex").slice(0, 16);
+}
+
+/** Replace known secret values and credential-shaped strings anywhere inside `value`. */
+export function redactSecrets<T>(value: T, secrets: string[] = []): T {
+  const known = secrets.filter((s) => s.length >= 8);
+  const scrub = (text: string): string => {
+    let out = text;
+    for (const secret of known) out = out.split(secret).join(REDACTED);
+    for (const pattern of SECRET_PATTERNS) out = out.replace(pattern, (match, prefix) => (typeof prefix === "string" ? `${prefix}${REDACTED}` : REDACTED));
+    return out;
+  };
+  const walk = (v: unknown): unknown => {
+    if (typeof v === "string") return scrub(v);
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, inner]) => [k, walk(inner)]));
+    return v;
+  };
+  return walk(value) as T;
+}
+
+export class Cassette {
+  private byHash: Map<string, CassetteEntry[]> | null = null;
+  /** How many times each hash has been served, so repeated requests replay in recorded order */
+  private served = new Map<string, number>();
+
+  /** `secrets` is read on every recording, so credentials added at runtime are redacted too. */
+  constructor(readonly path: string, private secrets: () => string[] = () => []) {}
+
+  record(provider: ProviderName, request: StreamRequest, events: ProviderEvent[]) {
+    const { signal: _signal, ...rest } = request;
+    const entry: CassetteEntry = {
+      hash: requestHash(request),
+      provider,
+      request: redactSecrets(rest, this.secrets()),
+      events: redactSecrets(events, this.secrets()),
+      recordedAt: Date.now(),
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + "\n");
+  }
+
+  /** The recorded response for a request; a request recorded N times replays each in turn, then the last. */
+  next(request: StreamRequest): CassetteEntry | undefined {
+    const hash = requestHash(request);
+    const entries = this.entries().get(hash);
+    if (!entries) return undefined;
+    const count = this.served.get(hash) ?? 0;
+    this.served.set(hash, count + 1);
+    return entries[Math.min(count, entries.length - 1)];
+  }
+
+  /** Whether anything was recorded from this provider. */
+  has(provider: ProviderName): boolean {
+    for (const entries of this.entries().values()) if (entries.some((e) => e.provider === provider)) return true;
+    return false;
+  }
+
+  private entries(): Map<string, CassetteEntry[]> {
+    if (this.byHash) return this.byHash;
+    this.byHash = new Map();
+    if (!existsSync(this.path)) return this.byHash;
+    for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as CassetteEntry;
+      const list = this.byHash.get(entry.hash) ?? [];
+      list.push(entry);
+      this.byHash.set(entry.hash, list);
+    }
+    return this.byHash;
+  }
+}
+
+/** Passes calls through to a real provider and records each finished exchange. */
+export class RecordingProvider implements Provider {
+  constructor(private inner: Provider, private cassette: Cassette) {}
+
+  get name(): ProviderName { return this.inner.name; }
+  get config(): ProviderConfig { return this.inner.config; }
+  isAvailable(): boolean { return this.inner.isAvailable(); }
+  listModels(options?: { refresh?: boolean }): Promise<ModelDef[]> { return this.inner.listModels(options); }
+
+  async *streamResponse(request: StreamRequest): AsyncGenerator<ProviderEvent> {
+    const events: ProviderEvent[] = [];
+    for await (const event of this.inner.streamResponse(request)) {
+      events.push(event);
+      yield event;
+    }
+    // A cancelled call didn't get the provider's real answer; replaying it would mislead.
+    if (!request.signal?.aborted) this.cassette.record(this.inner.name, request, events);
+  }
+}
+
+/** Serves a provider's recorded responses; available whenever the cassette holds calls to it. */
+export class ReplayProvider implements Provider {
+  constructor(readonly name: ProviderName, readonly config: ProviderConfig, private cassette: Cassette) {}
+
+  isAvailable(): boolean {
+    return this.cassette.has(this.name);
+  }
+
+  async listModels(): Promise<ModelDef[]> {
+    return getModelsForProvider(this.name);
+  }
+
+  async *streamResponse(request: StreamRequest): AsyncGenerator<ProviderEvent> {
+    const entry = this.cassette.next(request);
+    if (!entry) {
+      yield { type: "error", error: `No recorded response for ${request.model} request ${requestHash(request)} in ${this.cassette.path}` };
+      return;
+    }
+    for (const event of entry.events) {
+      if (request.signal?.aborted) {
+        yield { type: "error", error: "Request was aborted" };
+        return;
+      }
+      yield event;
+    }
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
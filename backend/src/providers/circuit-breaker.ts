@@ -0,0 +1,104 @@
+// Circuit breaker — stops routing calls to providers that keep failing.
+// closed → open after N consecutive failures; open → half-open after a cooldown,
+// where a single trial call decides whether to close or re-open.
+
+import type { ProviderName } from "@koryphaios/shared";
+import { PROVIDER } from "../constants";
+import { providerLog } from "../logger";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface CircuitEntry {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  lastError?: string;
+  /** A half-open trial call has been admitted and hasn't reported back yet. */
+  trialInFlight?: boolean;
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<ProviderName, CircuitEntry>();
+
+  constructor(
+    private failureThreshold: number = PROVIDER.CIRCUIT_FAILURE_THRESHOLD,
+    private cooldownMs: number = PROVIDER.CIRCUIT_COOLDOWN_MS,
+    private onStateChange?: (provider: ProviderName, state: CircuitState) => void,
+    private now: () => number = Date.now,
+  ) {}
+
+  /** Current state, promoting open circuits to half-open once the cooldown has elapsed. */
+  getState(provider: ProviderName): CircuitState {
+    const entry = this.circuits.get(provider);
+    if (!entry) return "closed";
+    if (entry.state === "open" && this.now() - entry.openedAt >= this.cooldownMs) {
+      this.transition(provider, entry, "half_open");
+    }
+    return entry.state;
+  }
+
+  isOpen(provider: ProviderName): boolean {
+    return this.getState(provider) === "open";
+  }
+
+  /**
+   * Whether a call may be attempted right now. A half-open circuit admits exactly one
+   * trial call; everyone else is turned away until it records a result or is released.
+   */
+  canRequest(provider: ProviderName): boolean {
+    const state = this.getState(provider);
+    if (state === "open") return false;
+    if (state === "half_open") {
+      const entry = this.circuits.get(provider)!;
+      if (entry.trialInFlight) return false;
+      entry.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /** Give up a half-open trial that ended without a verdict (cancelled, or a non-transient error). */
+  releaseTrial(provider: ProviderName) {
+    const entry = this.circuits.get(provider);
+    if (entry) entry.trialInFlight = false;
+  }
+
+  lastError(provider: ProviderName): string | undefined {
+    return this.circuits.get(provider)?.lastError;
+  }
+
+  recordSuccess(provider: ProviderName) {
+    const entry = this.circuits.get(provider);
+    if (!entry) return;
+    entry.failures = 0;
+    entry.lastError = undefined;
+    entry.trialInFlight = false;
+    if (entry.state !== "closed") this.transition(provider, entry, "closed");
+  }
+
+  recordFailure(provider: ProviderName, error?: string) {
+    const entry = this.circuits.get(provider) ?? { state: "closed" as CircuitState, failures: 0, openedAt: 0 };
+    this.circuits.set(provider, entry);
+    entry.failures++;
+    entry.lastError = error;
+    entry.trialInFlight = false;
+
+    if (entry.state === "half_open" || (entry.state === "closed" && entry.failures >= this.failureThreshold)) {
+      entry.openedAt = this.now();
+      this.transition(provider, entry, "open");
+    }
+  }
+
+  /** Forget all failure history for a provider (e.g. after credentials change). */
+  reset(provider: ProviderName) {
+    const entry = this.circuits.get(provider);
+    this.circuits.delete(provider);
+    if (entry && entry.state !== "closed") this.onStateChange?.(provider, "closed");
+  }
+
+  private transition(provider: ProviderName, entry: CircuitEntry, state: CircuitState) {
+    entry.state = state;
+    const level = state === "closed" ? "info" : "warn";
+    providerLog[level]({ provider, state, failures: entry.failures, error: entry.lastError }, "Circuit state changed");
+    this.onStateChange?.(provider, state);
+  }
+}
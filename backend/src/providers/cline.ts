@@ -1,6 +1,7 @@
 import type { ModelDef, ProviderConfig, ProviderName } from "@koryphaios/shared";
 import { OpenAIProvider } from "./openai";
 import { createGenericModel, getModelsForProvider } from "./types";
+import { PROVIDER } from "../constants";
 
 const CLINE_API_BASE = "https://api.cline.bot";
 const CLINE_OPENAI_BASE = `${CLINE_API_BASE}/api/v1`;
@@ -37,7 +38,7 @@ export class ClineProvider extends OpenAIProvider {
     return !this.config.disabled && !!normalizeClineAuthToken(this.config.authToken);
   }
 
-  async listModels(): Promise<ModelDef[]> {
+  async listModels(options?: { refresh?: boolean }): Promise<ModelDef[]> {
     const providerName = "cline" as ProviderName;
     const localModels = getModelsForProvider(providerName);
 
@@ -45,7 +46,7 @@ export class ClineProvider extends OpenAIProvider {
       return localModels;
     }
 
-    if (this.clineCachedModels && Date.now() - this.clineLastFetch < 5 * 60 * 1000) {
+    if (!options?.refresh && this.clineCachedModels && Date.now() - this.clineLastFetch < PROVIDER.MODEL_CACHE_TTL_MS) {
       return this.clineCachedModels;
     }
 
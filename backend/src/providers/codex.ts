@@ -8,6 +8,7 @@ import {
   type StreamRequest,
   getModelsForProvider,
 } from "./types";
+import { messageContentText } from "./utils";
 
 export class CodexProvider implements Provider {
   readonly name = "codex" as const;
@@ -33,7 +34,7 @@ export class CodexProvider implements Provider {
   async *streamResponse(request: StreamRequest): AsyncGenerator<ProviderEvent> {
     const prompt = request.messages
       .filter((m) => m.role === "user")
-      .map((m) => (typeof m.content === "string" ? m.content : ""))
+      .map((m) => messageContentText(m.content))
       .join("\n");
 
     const args = ["--model", request.model];
@@ -49,6 +50,7 @@ export class CodexProvider implements Provider {
       stdout: "pipe",
       stderr: "pipe",
       env: { ...process.env },
+      signal: request.signal,
     });
 
     const reader = proc.stdout.getReader();
@@ -65,6 +67,8 @@ export class CodexProvider implements Provider {
       }
 
       const exitCode = await proc.exited;
+      // Killed by the abort signal; the caller already knows why it stopped.
+      if (request.signal?.aborted) return;
       if (exitCode !== 0) {
         const stderrReader = proc.stderr.getReader();
         const { value } = await stderrReader.read();
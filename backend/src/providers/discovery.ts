@@ -0,0 +1,63 @@
+// Model discovery — turns a provider's /models listing into catalog entries, so models added
+// upstream (or pulled into a local server) show up without a catalog edit.
+
+import type { ModelDef, ProviderName } from "@koryphaios/shared";
+import { createGenericModel } from "./types";
+
+/** One entry of an OpenAI-style /models listing; servers add their own metadata fields. */
+export interface ListedModel {
+  id: string;
+  [field: string]: unknown;
+}
+
+/** Listings from OpenAI itself include embeddings, audio and image models we can't chat with. */
+const NON_CHAT_MODEL = /embed|whisper|tts|dall-e|moderation|transcribe|realtime|audio|image|rerank/i;
+const OPENAI_CHAT_MODEL = /gpt|^o\d/i;
+
+export function isChatModel(provider: ProviderName, id: string): boolean {
+  if (NON_CHAT_MODEL.test(id)) return false;
+  return provider !== "openai" || OPENAI_CHAT_MODEL.test(id);
+}
+
+/**
+ * Merge a listing with the provider's catalog. Listed models in the catalog keep its metadata;
+ * the rest become generic models, filled in with whatever the server reports. Catalog
+ * placeholders (the `*-default` local entries) are dropped once the server lists real models.
+ */
+export function mergeDiscoveredModels(provider: ProviderName, catalog: ModelDef[], listed: ListedModel[]): ModelDef[] {
+  const discovered: ModelDef[] = [];
+  for (const entry of listed) {
+    if (!isChatModel(provider, entry.id)) continue;
+    if (catalog.some((m) => m.id === entry.id || m.apiModelId === entry.id)) continue;
+    if (discovered.some((m) => m.id === entry.id)) continue;
+    discovered.push(describeListedModel(provider, entry));
+  }
+  const known = discovered.length > 0 ? catalog.filter((m) => !m.isGeneric) : catalog;
+  return [...known, ...discovered];
+}
+
+function describeListedModel(provider: ProviderName, entry: ListedModel): ModelDef {
+  const model = createGenericModel(entry.id, provider);
+  if (typeof entry.name === "string" && entry.name) model.name = entry.name;
+
+  // OpenRouter and LM Studio: context_length; Groq: context_window; vLLM: max_model_len; llama.cpp: meta.n_ctx_train
+  const meta = entry.meta as Record<string, unknown> | undefined;
+  const context = [entry.context_length, entry.context_window, entry.max_model_len, meta?.n_ctx_train].find(isPositiveNumber);
+  if (context) model.contextWindow = context;
+
+  const maxOutput = (entry.top_provider as Record<string, unknown> | undefined)?.max_completion_tokens;
+  if (isPositiveNumber(maxOutput)) model.maxOutputTokens = maxOutput;
+
+  // OpenRouter prices in dollars per token, as strings.
+  const pricing = entry.pricing as Record<string, unknown> | undefined;
+  const perMillion = (value: unknown) => Math.max(0, Number(value) * 1_000_000 || 0);
+  if (pricing) {
+    model.costPerMInputTokens = perMillion(pricing.prompt);
+    model.costPerMOutputTokens = perMillion(pricing.completion);
+  }
+  return model;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && value > 0;
+}
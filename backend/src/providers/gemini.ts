@@ -11,7 +11,7 @@ import {
   createGenericModel,
   resolveModel,
 } from "./types";
-import { withRetry } from "./utils";
+import { withRetry, messageContentText } from "./utils";
 import { googleAuth } from "./google-auth";
 import { providerLog } from "../logger";
 
@@ -79,13 +79,15 @@ export class GeminiProvider implements Provider {
       .filter((m) => m.role !== "system")
       .map((m) => ({
         role: m.role === "assistant" ? "model" : "user",
-        parts: typeof m.content === "string" ? [{ text: m.content }] : (m.content as any[]).map(b => b.type === "text" ? { text: b.text ?? "" } : { text: "" }),
+        parts: [{ text: messageContentText(m.content) }],
       }));
 
     const generationConfig: any = {
       systemInstruction: request.systemPrompt,
       maxOutputTokens: request.maxTokens ?? 65_536,
       temperature: request.temperature,
+      abortSignal: request.signal,
+      ...(request.responseSchema && { responseMimeType: "application/json", responseJsonSchema: request.responseSchema.schema }),
     };
 
     const modelDef = resolveModel(request.model);
@@ -144,13 +146,15 @@ export class GeminiCLIProvider implements Provider {
 
     const prompt = request.messages
       .filter((m) => m.role === "user")
-      .map((m) => (typeof m.content === "string" ? m.content : ""))
+      .map((m) => messageContentText(m.content))
       .join("\n");
 
+    // Aborting kills the CLI, which ends stdout and the loop below.
     const proc = Bun.spawn(["gemini", "--model", cliModel, "--prompt", prompt], {
       stdout: "pipe",
       stderr: "pipe",
       env: { ...process.env, ...this.config.headers },
+      signal: request.signal,
     });
 
     const reader = proc.stdout.getReader();
@@ -163,6 +167,7 @@ export class GeminiCLIProvider implements Provider {
         const text = decoder.decode(value, { stream: true });
         if (text) yield { type: "content_delta", content: text };
       }
+      if (request.signal?.aborted) return;
       yield { type: "complete", finishReason: "end_turn" };
     } catch (err: any) {
       yield { type: "error", error: err.message ?? String(err) };
@@ -1,9 +1,13 @@
 export { ProviderRegistry } from "./registry";
 export { AnthropicProvider } from "./anthropic";
-export { OpenAIProvider, GroqProvider, OpenRouterProvider, XAIProvider, AzureProvider } from "./openai";
+export { OpenAIProvider, GroqProvider, OpenRouterProvider, XAIProvider, AzureProvider, LocalProvider } from "./openai";
+export { mergeDiscoveredModels, isChatModel, type ListedModel } from "./discovery";
 export { ClineProvider, normalizeClineAuthToken } from "./cline";
 export { GeminiProvider, GeminiCLIProvider } from "./gemini";
 export { CopilotProvider } from "./copilot";
 export { CodexProvider } from "./codex";
+export { Cassette, RecordingProvider, ReplayProvider, requestHash, redactSecrets, type CassetteEntry } from "./cassette";
+export { MockProvider, loadMockScript, type MockScript, type MockStep, type MockEvent } from "./mock";
 export * from "./types";
+export { calculateCost, accumulateUsage, EMPTY_USAGE, type TokenUsage } from "./pricing";
 export * from "./models";
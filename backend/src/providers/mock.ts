@@ -0,0 +1,160 @@
+// Mock provider — replays scripted responses instead of calling a model, for offline
+// development and deterministic tests of the whole orchestration flow. Each call is answered
+// by the first unused script step whose prompt/system patterns and turn index match it.
+// Scripts are given inline or loaded from JSON fixtures (a file, or a directory of them).
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import type { ProviderConfig, ModelDef } from "@koryphaios/shared";
+import {
+  type Provider,
+  type ProviderEvent,
+  type StreamRequest,
+  getModelsForProvider,
+} from "./types";
+import { messageContentText } from "./utils";
+
+/** One scripted event: a raw provider event or a shorthand for a common sequence. */
+export type MockEvent =
+  | ProviderEvent
+  /** A content delta */
+  | { text: string }
+  /** A thinking delta */
+  | { thinking: string }
+  /** A complete tool call: start, input delta and stop */
+  | { tool: string; input?: Record<string, unknown>; id?: string }
+  /** A failed HTTP call, e.g. 429 to exercise quota fallback */
+  | { status: number; message?: string }
+  /** Pause before the next event; ends early when the request is aborted */
+  | { delayMs: number };
+
+export interface MockStep {
+  /** Regex tested against the latest user message */
+  prompt?: string;
+  /** Regex tested against the system prompt */
+  system?: string;
+  /** Zero-based index of the call this step answers */
+  turn?: number;
+  /** Answer every matching call rather than only the first */
+  repeat?: boolean;
+  events: MockEvent[];
+}
+
+export interface MockScript {
+  steps: MockStep[];
+}
+
+/** Load a script from a JSON fixture, or from every `.json` fixture in a directory in name order. */
+export function loadMockScript(path: string): MockScript {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter((f) => f.endsWith(".json")).sort().map((f) => join(path, f))
+    : [path];
+  const steps = files.flatMap((file) => {
+    const parsed = JSON.parse(readFileSync(file, "utf-8")) as MockScript | MockStep[];
+    return Array.isArray(parsed) ? parsed : parsed.steps;
+  });
+  return { steps };
+}
+
+export class MockProvider implements Provider {
+  readonly name = "mock" as const;
+  /** Every request received, in order, for assertions */
+  readonly requests: StreamRequest[] = [];
+  private script: MockScript | null;
+  private used = new Set<MockStep>();
+
+  /** Without an inline script, the config's base URL is the path of the fixture to load. */
+  constructor(readonly config: ProviderConfig, script?: MockScript) {
+    this.script = script ?? (config.baseUrl && existsSync(config.baseUrl) ? loadMockScript(config.baseUrl) : null);
+  }
+
+  isAvailable(): boolean {
+    return !this.config.disabled && this.script !== null;
+  }
+
+  async listModels(): Promise<ModelDef[]> {
+    return getModelsForProvider("mock");
+  }
+
+  async *streamResponse(request: StreamRequest): AsyncGenerator<ProviderEvent> {
+    const turn = this.requests.length;
+    this.requests.push(request);
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    const prompt = lastUser ? messageContentText(lastUser.content) : "";
+
+    const step = this.script?.steps.find((s) =>
+      (s.repeat || !this.used.has(s))
+      && (s.turn === undefined || s.turn === turn)
+      && (s.prompt === undefined || new RegExp(s.prompt, "i").test(prompt))
+      && (s.system === undefined || new RegExp(s.system, "i").test(request.systemPrompt)),
+    );
+    if (!step) {
+      yield { type: "error", error: `Mock provider has no scripted response for call ${turn}: ${JSON.stringify(prompt.slice(0, 80))}` };
+      return;
+    }
+    this.used.add(step);
+
+    let sawTool = false;
+    let sawUsage = false;
+    let output = "";
+    for (const [index, scripted] of step.events.entries()) {
+      if (request.signal?.aborted) {
+        yield { type: "error", error: "Request was aborted" };
+        return;
+      }
+      if ("delayMs" in scripted) {
+        await abortableSleep(scripted.delayMs, request.signal);
+        continue;
+      }
+      if ("status" in scripted) {
+        yield { type: "error", error: `HTTP ${scripted.status}: ${scripted.message ?? defaultStatusMessage(scripted.status)}` };
+        return;
+      }
+      for (const event of expand(scripted, `mock-${turn}-${index}`)) {
+        if (event.type === "tool_use_start") sawTool = true;
+        if (event.type === "usage_update") sawUsage = true;
+        if (event.type === "content_delta") output += event.content ?? "";
+        if (event.type === "error" || event.type === "complete") {
+          yield event;
+          return;
+        }
+        yield event;
+      }
+    }
+
+    // Scripts rarely bother with usage; estimate it so budgets and the ledger see the call.
+    if (!sawUsage) {
+      const promptChars = request.systemPrompt.length + request.messages.reduce((n, m) => n + messageContentText(m.content).length, 0);
+      yield { type: "usage_update", tokensIn: Math.ceil(promptChars / 4), tokensOut: Math.ceil(output.length / 4) };
+    }
+    yield { type: "complete", finishReason: sawTool ? "tool_use" : "end_turn" };
+  }
+}
+
+function expand(event: MockEvent, callId: string): ProviderEvent[] {
+  if ("text" in event) return [{ type: "content_delta", content: event.text }];
+  if ("thinking" in event && !("type" in event)) return [{ type: "thinking_delta", thinking: event.thinking }];
+  if ("tool" in event) {
+    const toolCallId = event.id ?? callId;
+    const toolInput = JSON.stringify(event.input ?? {});
+    return [
+      { type: "tool_use_start", toolCallId, toolName: event.tool },
+      { type: "tool_use_delta", toolCallId, toolName: event.tool, toolInput },
+      { type: "tool_use_stop", toolCallId, toolName: event.tool, toolInput },
+    ];
+  }
+  return [event as ProviderEvent];
+}
+
+function defaultStatusMessage(status: number): string {
+  if (status === 429) return "Rate limit exceeded";
+  if (status >= 500) return "Service unavailable";
+  return "Request failed";
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
@@ -9,6 +9,7 @@ import { XAIModels } from "./xai";
 import { AzureModels } from "./azure";
 import { CopilotModels } from "./copilot";
 import { BedrockModels } from "./bedrock";
+import { MockModels } from "./mock";
 import {
   DeepSeekModels,
   TogetherAIModels,
@@ -78,6 +79,8 @@ const ALL_MODELS: ModelDef[] = [
   ...LMStudioModels,
   ...LlamaCppModels,
   ...OllamaModels,
+  // Testing
+  ...MockModels,
 ];
 
 // Map for fast lookup by ID
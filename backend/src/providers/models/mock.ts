@@ -0,0 +1,17 @@
+import type { ModelDef } from "@koryphaios/shared";
+
+/** Scripted model served by the mock provider; free so budgets never trip in tests. */
+export const MockModels: ModelDef[] = [
+  {
+    id: "mock-model",
+    name: "Mock Model",
+    provider: "mock",
+    contextWindow: 200_000,
+    maxOutputTokens: 16_384,
+    costPerMInputTokens: 0,
+    costPerMOutputTokens: 0,
+    canReason: false,
+    supportsAttachments: false,
+    supportsStreaming: true,
+  },
+];
@@ -12,9 +12,10 @@ import {
   type ProviderContentBlock,
   getModelsForProvider,
   resolveModel,
-  createGenericModel,
 } from "./types";
 import { withRetry } from "./utils";
+import { mergeDiscoveredModels, type ListedModel } from "./discovery";
+import { PROVIDER } from "../constants";
 
 export class OpenAIProvider implements Provider {
   private _client: OpenAI | null = null;
@@ -43,40 +44,28 @@ export class OpenAIProvider implements Provider {
 
   private cachedModels: ModelDef[] | null = null;
   private lastFetch = 0;
+  /** Set once the endpoint rejects `response_format`; schemas are then asked for in the prompt only. */
+  private responseFormatUnsupported = false;
 
-  async listModels(): Promise<ModelDef[]> {
-    const localModels = getModelsForProvider(this.name);
-    
-    if (!this.isAvailable()) {
-      return localModels;
-    }
+  /** The catalog merged with the endpoint's /models listing, cached for PROVIDER.MODEL_CACHE_TTL_MS. */
+  async listModels(options?: { refresh?: boolean }): Promise<ModelDef[]> {
+    const catalog = getModelsForProvider(this.name);
+    if (!this.isAvailable()) return catalog;
 
-    if (this.cachedModels && Date.now() - this.lastFetch < 5 * 60 * 1000) {
+    if (!options?.refresh && this.cachedModels && Date.now() - this.lastFetch < PROVIDER.MODEL_CACHE_TTL_MS) {
       return this.cachedModels;
     }
 
     try {
-      const response = await withRetry(() => this.client.models.list());
-      
-      const remoteModels: ModelDef[] = [];
-      for await (const model of response) {
-        const id = model.id;
-        const existing = localModels.find(m => m.apiModelId === id || m.id === id);
-        if (existing) continue;
-        
-        // Filter for chat models
-        const lowerId = id.toLowerCase();
-        if (lowerId.includes("gpt") || lowerId.includes("o1") || lowerId.includes("o3") || lowerId.includes("o4")) {
-          remoteModels.push(createGenericModel(id, this.name));
-        }
-      }
-      
-      this.cachedModels = [...localModels, ...remoteModels];
-      this.lastFetch = Date.now();
-      return this.cachedModels;
-    } catch (err) {
-      return localModels;
+      const listed: ListedModel[] = [];
+      for await (const model of await withRetry(() => this.client.models.list(), { maxRetries: PROVIDER.MODEL_LIST_MAX_ATTEMPTS })) listed.push({ ...model });
+      this.cachedModels = mergeDiscoveredModels(this.name, catalog, listed);
+    } catch {
+      // A failed listing is remembered for the TTL too, so a down endpoint isn't asked on every status broadcast.
+      this.cachedModels ??= catalog;
     }
+    this.lastFetch = Date.now();
+    return this.cachedModels;
   }
 
   async *streamResponse(request: StreamRequest): AsyncGenerator<ProviderEvent> {
@@ -104,6 +93,13 @@ export class OpenAIProvider implements Provider {
       ...(request.maxTokens && { max_completion_tokens: request.maxTokens }),
       ...(request.temperature !== undefined && { temperature: request.temperature }),
       ...(tools?.length && { tools }),
+      ...(request.responseSchema && !this.responseFormatUnsupported && {
+        response_format: {
+          type: "json_schema",
+          // Non-strict: strict mode rejects optional properties, which our schemas use.
+          json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: false },
+        },
+      }),
       // Only send reasoning_effort if model + selected level supports it.
       ...(canReason && reasoningEffort && supportedEfforts.includes(reasoningEffort) && {
         reasoning_effort: reasoningEffort as any
@@ -111,11 +107,7 @@ export class OpenAIProvider implements Provider {
     };
 
     try {
-      const stream = await withRetry(() =>
-        this.client.chat.completions.create(params, {
-          signal: request.signal,
-        })
-      );
+      const stream = await this.createStream(params, request.signal);
 
       const toolCallBuffers = new Map<number, { id: string; name: string; args: string }>();
 
@@ -198,6 +190,22 @@ export class OpenAIProvider implements Provider {
     }
   }
 
+  /**
+   * Not every OpenAI-compatible endpoint implements `response_format: json_schema`. When one
+   * rejects it, retry once without it and stop sending it to this endpoint. Transient failures
+   * are left to ProviderRegistry.executeWithRetry, so retries don't multiply.
+   */
+  private async createStream(params: OpenAI.ChatCompletionCreateParamsStreaming, signal?: AbortSignal) {
+    try {
+      return await this.client.chat.completions.create(params, { signal });
+    } catch (err) {
+      if (!params.response_format || !isUnsupportedParameterError(err)) throw err;
+      this.responseFormatUnsupported = true;
+      const { response_format: _, ...withoutFormat } = params;
+      return this.client.chat.completions.create(withoutFormat, { signal });
+    }
+  }
+
   protected convertMessages(request: StreamRequest): OpenAI.ChatCompletionMessageParam[] {
     const result: OpenAI.ChatCompletionMessageParam[] = [];
 
@@ -259,6 +267,13 @@ export class OpenAIProvider implements Provider {
   }
 }
 
+/** A rejection of the structured-output parameter itself; other 400s (context length, bad tools) don't count. */
+function isUnsupportedParameterError(err: any): boolean {
+  const status = err?.status ?? err?.response?.status;
+  if (status !== undefined && status !== 400 && status !== 422) return false;
+  return /response_format|json_schema/i.test(err?.message ?? "");
+}
+
 // ─── OpenAI-Compatible Provider Factories ───────────────────────────────────
 
 export class GroqProvider extends OpenAIProvider {
@@ -284,3 +299,14 @@ export class AzureProvider extends OpenAIProvider {
     super(config, "azure", config.baseUrl);
   }
 }
+
+/** Ollama, LM Studio, llama.cpp and other local servers: no key, just the server's base URL. */
+export class LocalProvider extends OpenAIProvider {
+  constructor(config: ProviderConfig, name: ProviderName = "local") {
+    super(config, name, config.baseUrl);
+  }
+
+  override isAvailable(): boolean {
+    return !this.config.disabled && !!this.config.baseUrl;
+  }
+}
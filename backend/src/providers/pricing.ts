@@ -0,0 +1,57 @@
+// Pricing — turns provider usage counters into dollars using ModelDef rates.
+
+import type { ModelDef } from "@koryphaios/shared";
+import type { ProviderEvent } from "./types";
+import { resolveModel } from "./models";
+
+export interface TokenUsage {
+  /** All prompt tokens, including the cached ones below */
+  tokensIn: number;
+  tokensOut: number;
+  /** Prompt tokens served from the provider's cache */
+  tokensCacheRead: number;
+  /** Prompt tokens written to the provider's cache */
+  tokensCacheWrite: number;
+}
+
+export const EMPTY_USAGE: TokenUsage = { tokensIn: 0, tokensOut: 0, tokensCacheRead: 0, tokensCacheWrite: 0 };
+
+/**
+ * Cache rates as listed in the catalog. Models with separate write pricing (Anthropic,
+ * Bedrock) use costPerMInputCached for cache writes and costPerMOutputCached for cache
+ * reads; OpenAI-style models list only the discounted read rate in costPerMInputCached.
+ */
+function cacheRates(model: ModelDef): { read: number; write: number } {
+  if ((model.costPerMOutputCached ?? 0) > 0) {
+    return { read: model.costPerMOutputCached!, write: model.costPerMInputCached ?? model.costPerMInputTokens };
+  }
+  return { read: model.costPerMInputCached ?? model.costPerMInputTokens, write: model.costPerMInputTokens };
+}
+
+/** Dollar cost of `usage` on `model`; 0 for models missing from the catalog. */
+export function calculateCost(model: ModelDef | string | undefined, usage: TokenUsage): number {
+  const def = typeof model === "string" ? resolveModel(model) : model;
+  if (!def) return 0;
+  const rates = cacheRates(def);
+  const cached = Math.min(usage.tokensIn, usage.tokensCacheRead + usage.tokensCacheWrite);
+  const uncached = usage.tokensIn - cached;
+  return (
+    uncached * def.costPerMInputTokens +
+    Math.min(usage.tokensCacheRead, cached) * rates.read +
+    Math.max(0, cached - usage.tokensCacheRead) * rates.write +
+    usage.tokensOut * def.costPerMOutputTokens
+  ) / 1_000_000;
+}
+
+/**
+ * Usage of one provider call. Providers report cumulative counters, sometimes split across
+ * several usage_update events, so the largest value seen for each counter wins.
+ */
+export function accumulateUsage(usage: TokenUsage, event: ProviderEvent): TokenUsage {
+  return {
+    tokensIn: Math.max(usage.tokensIn, event.tokensIn ?? 0),
+    tokensOut: Math.max(usage.tokensOut, event.tokensOut ?? 0),
+    tokensCacheRead: Math.max(usage.tokensCacheRead, event.tokensCache ?? 0),
+    tokensCacheWrite: Math.max(usage.tokensCacheWrite, event.tokensCacheWrite ?? 0),
+  };
+}
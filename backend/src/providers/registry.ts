@@ -3,17 +3,23 @@ import { providerLog } from "../logger";
 // Auto-detects API keys from environment variables, config files, and CLI auth tokens.
 // Mirrors OpenCode's provider initialization order and env var conventions.
 
-import type { ProviderAuthMode, ProviderConfig, ProviderName, KoryphaiosConfig } from "@koryphaios/shared";
-import type { Provider } from "./types";
+import type { ModelDef, ProviderAuthMode, ProviderConfig, ProviderName, KoryphaiosConfig } from "@koryphaios/shared";
+import type { Provider, ProviderEvent, StreamRequest } from "./types";
 import { AnthropicProvider } from "./anthropic";
 import { detectClaudeCodeToken } from "./auth-utils";
-import { OpenAIProvider, GroqProvider, OpenRouterProvider, XAIProvider, AzureProvider } from "./openai";
+import { OpenAIProvider, GroqProvider, OpenRouterProvider, XAIProvider, AzureProvider, LocalProvider } from "./openai";
 import { ClineProvider, normalizeClineAuthToken } from "./cline";
 import { GeminiProvider, GeminiCLIProvider } from "./gemini";
 import { CopilotProvider, detectCopilotToken, resolveCopilotBearerToken } from "./copilot";
 import { CodexProvider } from "./codex";
+import { MockProvider } from "./mock";
+import { Cassette, RecordingProvider, ReplayProvider } from "./cassette";
 import { decryptApiKey } from "../security";
 import { resolveModel, getModelsForProvider } from "./types";
+import { withRetry, isRetryableError } from "./utils";
+import { CircuitBreaker } from "./circuit-breaker";
+import { PROVIDER } from "../constants";
+import { wsBroker } from "../pubsub";
 
 // ─── Environment Variable Mapping (from OpenCode's config.go) ───────────────
 
@@ -124,6 +130,8 @@ const ENV_API_KEY_MAP: Partial<Record<ProviderName, string[]>> = {
   // Additional providers
   novita: ["NOVITA_API_KEY"],
   banbri: ["BANBRI_API_KEY"],
+  // Testing
+  mock: [],
 };
 
 const ENV_URL_MAP: Partial<Record<ProviderName, string>> = {
@@ -139,6 +147,8 @@ const ENV_URL_MAP: Partial<Record<ProviderName, string>> = {
   openrouter: "OPENROUTER_BASE_URL",
   novita: "NOVITA_BASE_URL",
   banbri: "BANBRI_BASE_URL",
+  // The mock provider's "base URL" is the path of its script fixture
+  mock: "KORYPHAIOS_MOCK_SCRIPT",
   fireworks: "FIREWORKS_BASE_URL",
   cerebras: "CEREBRAS_BASE_URL",
   ionet: "IONET_BASE_URL",
@@ -279,6 +289,8 @@ const PROVIDER_AUTH_MODE: Record<ProviderName, ProviderAuthMode> = {
   // Additional providers
   novita: "api_key",
   banbri: "api_key",
+  // Testing
+  mock: "base_url_only",
 };
 
 const EXTRA_AUTH_MODES: Partial<Record<ProviderName, Array<{ id: string; label: string; description: string }>>> = {
@@ -299,8 +311,18 @@ const EXTRA_AUTH_MODES: Partial<Record<ProviderName, Array<{ id: string; label:
 export class ProviderRegistry {
   private providers = new Map<ProviderName, Provider>();
   private providerConfigs = new Map<ProviderName, ProviderConfig>();
+  private circuitBreaker = new CircuitBreaker(undefined, undefined, () => this.broadcastStatus());
+  private cassette: Cassette | null = null;
+  /** Each provider's latest model listing, for synchronous lookups by model ID */
+  private models = new Map<ProviderName, ModelDef[]>();
 
   constructor(private config?: KoryphaiosConfig) {
+    if (config?.cassette) {
+      this.cassette = new Cassette(config.cassette.path, () => [...this.providerConfigs.values()]
+        .flatMap((c) => [c.apiKey, c.authToken])
+        .filter((secret): secret is string => !!secret));
+      providerLog.info({ mode: config.cassette.mode, path: config.cassette.path }, "Provider cassette enabled");
+    }
     this.initializeAll();
   }
 
@@ -314,13 +336,16 @@ export class ProviderRegistry {
     return [...this.providers.values()].filter((p) => p.isAvailable());
   }
 
-  /** Get provider status for all configured providers. */
-  getStatus(): Array<{
+  /**
+   * Get provider status for all configured providers. `discover: false` reuses the last
+   * model listing (or the catalog) instead of querying providers, for quick rebroadcasts.
+   */
+  async getStatus({ discover = true }: { discover?: boolean } = {}): Promise<Array<{
     name: ProviderName;
     enabled: boolean;
     authenticated: boolean;
     models: string[];
-    allAvailableModels: string[];
+    allAvailableModels: ModelDef[];
     selectedModels: string[];
     hideModelSelector: boolean;
     authMode: ProviderAuthMode;
@@ -329,8 +354,9 @@ export class ProviderRegistry {
     requiresBaseUrl: boolean;
     extraAuthModes?: Array<{ id: string; label: string; description: string }>;
     error?: string;
-  }> {
-    return Object.keys(PROVIDER_AUTH_MODE).map((name) => {
+    circuitOpen: boolean;
+  }>> {
+    return Promise.all(Object.keys(PROVIDER_AUTH_MODE).map(async (name) => {
       const pn = name as ProviderName;
       const provider = this.providers.get(pn);
       const config = this.providerConfigs.get(pn);
@@ -346,11 +372,12 @@ export class ProviderRegistry {
         (pn === "copilot" && !!detectCopilotToken());
 
       // Only show models if the provider is enabled AND authenticated
-      let allModels: string[] = [];
+      let allModels: ModelDef[] = [];
       if (isEnabled && isAuthenticated) {
         const modelProviderId = pn === "claude-code" ? "anthropic" : pn;
-        allModels = provider?.listModels().map((m) => m.id)
-          ?? getModelsForProvider(modelProviderId).map((m) => m.id);
+        allModels = provider && discover
+          ? await this.discoverModels(provider)
+          : this.models.get(pn) ?? getModelsForProvider(modelProviderId);
       }
 
       const selectedModels = config?.selectedModels ?? [];
@@ -359,19 +386,20 @@ export class ProviderRegistry {
       // Special case for Claude Code: only show modern flagship models
       if (pn === "claude-code") {
         const flagshipModels = ["claude-opus-4-6", "claude-sonnet-4-5", "claude-haiku-4-5"];
-        allModels = allModels.filter(id => flagshipModels.includes(id));
+        allModels = allModels.filter(m => flagshipModels.includes(m.id));
       } else if (pn === "anthropic") {
         const isClaudeCodeAuth = config?.authToken?.startsWith("cli:claude") || detectClaudeCodeToken() !== null;
         if (isClaudeCodeAuth) {
           const flagshipModels = ["claude-opus-4-6", "claude-sonnet-4-5", "claude-haiku-4-5"];
-          allModels = allModels.filter(id => flagshipModels.includes(id));
+          allModels = allModels.filter(m => flagshipModels.includes(m.id));
         }
       }
 
       // The 'models' field returned to UI should only be the ENABLED ones
+      const allModelIds = allModels.map((m) => m.id);
       const enabledModels = (selectedModels.length > 0)
-        ? allModels.filter(id => selectedModels.includes(id))
-        : allModels;
+        ? allModelIds.filter(id => selectedModels.includes(id))
+        : allModelIds;
 
       return {
         name: pn,
@@ -386,7 +414,137 @@ export class ProviderRegistry {
         supportsAuthToken: authMode === "api_key_or_auth",
         requiresBaseUrl: authMode === "base_url_only" || pn === "azure",
         extraAuthModes: EXTRA_AUTH_MODES[pn],
+        circuitOpen: this.circuitBreaker.isOpen(pn),
+        ...(this.circuitBreaker.isOpen(pn) && { error: `Circuit open: ${this.circuitBreaker.lastError(pn) ?? "repeated failures"}` }),
       };
+    }));
+  }
+
+  /**
+   * Query model listings again, bypassing discovery caches, for one provider or every available
+   * one. Broadcasts and returns the updated status.
+   */
+  async refreshModels(name?: ProviderName): Promise<Awaited<ReturnType<ProviderRegistry["getStatus"]>>> {
+    const targets = name ? [this.providers.get(name)] : [...this.providers.values()];
+    await Promise.all(targets
+      .filter((p): p is Provider => !!p?.isAvailable())
+      .map((p) => this.discoverModels(p, true)));
+    const status = await this.getStatus();
+    this.publishStatus(status);
+    return status;
+  }
+
+  private async discoverModels(provider: Provider, refresh = false): Promise<ModelDef[]> {
+    const models = await provider.listModels({ refresh });
+    this.models.set(provider.name, models);
+    return models;
+  }
+
+  /**
+   * Stream a request with retries, model fallbacks and per-provider circuit breaking.
+   * Transient errors raised before the first event are retried; quota errors, exhausted
+   * retries, open circuits and unavailable providers move on to the next model in
+   * `fallbackChain`. Errors after output has started are yielded as-is because a
+   * partially consumed stream cannot be replayed.
+   */
+  async *executeWithRetry(
+    request: StreamRequest,
+    preferredProvider?: ProviderName,
+    fallbackChain: string[] = [],
+  ): AsyncGenerator<ProviderEvent> {
+    const chain = [request.model, ...fallbackChain.filter((m) => m !== request.model)];
+    const failures: string[] = [];
+
+    for (const [index, modelId] of chain.entries()) {
+      if (request.signal?.aborted) return;
+
+      const provider = this.resolveProvider(modelId, index === 0 ? preferredProvider : undefined);
+      if (!provider) {
+        failures.push(`${modelId}: no available provider`);
+        continue;
+      }
+      const trial = this.circuitBreaker.getState(provider.name) === "half_open";
+      if (!this.circuitBreaker.canRequest(provider.name)) {
+        failures.push(`${modelId}: ${provider.name} circuit open`);
+        continue;
+      }
+
+      try {
+        const attempt: StreamRequest = { ...request, model: modelId };
+        let opened: { stream: AsyncGenerator<ProviderEvent>; first: IteratorResult<ProviderEvent> };
+        try {
+          opened = await withRetry(async () => {
+            const stream = provider.streamResponse(attempt);
+            const first = await stream.next();
+            if (!first.done && first.value.type === "error") {
+              // Providers report failures as events; throw so withRetry can classify and retry them.
+              throw new Error(first.value.error ?? "Unknown provider error");
+            }
+            return { stream, first };
+          }, {
+            maxRetries: PROVIDER.STREAM_MAX_RETRIES,
+            shouldRetry: (err) => !request.signal?.aborted && !this.isQuotaError(err) && isRetryableError(err),
+            signal: request.signal,
+          });
+        } catch (err: any) {
+          const message = err?.message ?? String(err);
+          failures.push(`${modelId}: ${message}`);
+          if (request.signal?.aborted) return;
+
+          const isQuota = this.isQuotaError(err);
+          if (isQuota || isRetryableError(err)) {
+            this.circuitBreaker.recordFailure(provider.name, message);
+            providerLog.warn({ provider: provider.name, model: modelId, quota: isQuota, error: message }, "Falling back to next model");
+            continue;
+          }
+          yield { type: "error", error: message };
+          return;
+        }
+
+        if (opened.first.done) {
+          this.circuitBreaker.recordSuccess(provider.name);
+          return;
+        }
+        const tag = (event: ProviderEvent): ProviderEvent => (event.type === "usage_update" ? { ...event, model: modelId } : event);
+        yield tag(opened.first.value);
+
+        for await (const event of opened.stream) {
+          if (event.type === "error") {
+            // Cancellation is not a provider fault.
+            if (request.signal?.aborted) return;
+            if (isRetryableError(event.error)) this.circuitBreaker.recordFailure(provider.name, event.error);
+            yield event;
+            return;
+          }
+          yield tag(event);
+        }
+        this.circuitBreaker.recordSuccess(provider.name);
+        return;
+      } finally {
+        // Cancelled or non-transient outcomes record no verdict; let the next caller try.
+        if (trial) this.circuitBreaker.releaseTrial(provider.name);
+      }
+    }
+
+    yield { type: "error", error: `All models failed: ${failures.join("; ") || "empty fallback chain"}` };
+  }
+
+  /** Whether calls to a provider are currently short-circuited. */
+  isCircuitOpen(name: ProviderName): boolean {
+    return this.circuitBreaker.isOpen(name);
+  }
+
+  private broadcastStatus() {
+    void this.getStatus({ discover: false })
+      .then((providers) => this.publishStatus(providers))
+      .catch((err) => providerLog.warn({ err }, "Failed to broadcast provider status"));
+  }
+
+  private publishStatus(providers: Awaited<ReturnType<ProviderRegistry["getStatus"]>>) {
+    wsBroker.publish("custom", {
+      type: "provider.status",
+      payload: { providers },
+      timestamp: Date.now(),
     });
   }
 
@@ -408,7 +566,8 @@ export class ProviderRegistry {
         if (!flagshipModels.includes(modelId)) continue;
       }
 
-      if (provider.listModels().some((m) => m.id === modelId)) {
+      const models = this.models.get(provider.name) ?? getModelsForProvider(provider.name);
+      if (models.some((m) => m.id === modelId || m.apiModelId === modelId)) {
         return provider;
       }
     }
@@ -512,7 +671,10 @@ export class ProviderRegistry {
           if (authToken) headers.Authorization = `Bearer ${authToken}`;
           return this.verifyHttp(`${trimmed}/openai/models?api-version=2024-10-21`, { headers });
         }
-        case "local": {
+        case "local":
+        case "ollama":
+        case "lmstudio":
+        case "llamacpp": {
           if (!baseUrl) return { success: false, error: "Missing baseUrl" };
           const trimmed = baseUrl.replace(/\/+$/, "");
           return this.verifyHttp(`${trimmed}/models`);
@@ -521,6 +683,12 @@ export class ProviderRegistry {
           return this.verifyBedrockEnvironment();
         case "vertexai":
           return this.verifyVertexEnvironment();
+        case "mock": {
+          if (!baseUrl) return { success: false, error: "Missing script path (baseUrl)" };
+          return new MockProvider({ name, baseUrl, disabled: false }).isAvailable()
+            ? { success: true }
+            : { success: false, error: `Mock script not found: ${baseUrl}` };
+        }
         case "codex": {
           // Verify codex CLI is installed and responsive
           const whichProc = Bun.spawnSync(["which", "codex"], { stdout: "pipe", stderr: "pipe" });
@@ -597,6 +765,8 @@ export class ProviderRegistry {
       const provider = this.createProvider(name, providerConfig);
       if (provider) {
         this.providers.set(name, provider);
+        this.models.delete(name);
+        this.circuitBreaker.reset(name);
         providerLog.info({ provider: name }, "Configured with new API key");
         return { success: true };
       }
@@ -614,6 +784,8 @@ export class ProviderRegistry {
       const provider = this.createProvider(name, config);
       if (!provider) return { success: false, error: "Failed to initialize provider" };
       this.providers.set(name, provider);
+      this.models.delete(name);
+      this.circuitBreaker.reset(name);
       return { success: true };
     } catch (err: any) {
       return { success: false, error: err.message ?? String(err) };
@@ -630,6 +802,7 @@ export class ProviderRegistry {
       this.providerConfigs.set(name, config);
     }
     this.providers.delete(name);
+    this.models.delete(name);
     providerLog.info({ provider: name }, "Disconnected");
   }
 
@@ -700,7 +873,16 @@ export class ProviderRegistry {
     this.logProviderStatus();
   }
 
+  /** The provider for a config, recording through or replaying from the cassette when one is set. */
   private createProvider(name: ProviderName, config: ProviderConfig): Provider | null {
+    if (this.cassette && this.config?.cassette?.mode === "replay") {
+      return new ReplayProvider(name, config, this.cassette);
+    }
+    const provider = this.instantiateProvider(name, config);
+    return provider && this.cassette ? new RecordingProvider(provider, this.cassette) : provider;
+  }
+
+  private instantiateProvider(name: ProviderName, config: ProviderConfig): Provider | null {
     switch (name) {
       case "anthropic":
         // Use Claude Code token if no apiKey or authToken provided
@@ -742,10 +924,12 @@ export class ProviderRegistry {
       case "vertexai":
         return new GeminiProvider({ ...config, name: "vertexai" });
       case "local":
-        if (config.baseUrl) {
-          return new OpenAIProvider(config, "local", config.baseUrl);
-        }
-        return null;
+      case "ollama":
+      case "lmstudio":
+      case "llamacpp":
+        return config.baseUrl ? new LocalProvider(config, name) : null;
+      case "mock":
+        return config.baseUrl ? new MockProvider(config) : null;
       default:
         return null;
     }
@@ -25,9 +25,15 @@ export interface ProviderEvent {
   toolCallId?: string;
   toolName?: string;
   toolInput?: string;
+  /** Prompt tokens for the whole call, cached tokens included */
   tokensIn?: number;
   tokensOut?: number;
-  tokensCache?: number; // Added for caching support
+  /** Prompt tokens read from the provider's cache */
+  tokensCache?: number;
+  /** Prompt tokens written to the provider's cache */
+  tokensCacheWrite?: number;
+  /** Model that served the call (set by ProviderRegistry.executeWithRetry, which may fall back) */
+  model?: string;
   finishReason?: "end_turn" | "tool_use" | "max_tokens" | "stop";
   error?: string;
 }
@@ -61,6 +67,14 @@ export interface ProviderContentBlock {
 
 // ─── Stream request ─────────────────────────────────────────────────────────
 
+/** JSON Schema a reply must follow; each provider maps it to its native structured output. */
+export interface ResponseSchema {
+  /** Letters, digits, `_` and `-` only (used as a function/tool name by some APIs) */
+  name: string;
+  /** Root must be an object schema */
+  schema: Record<string, unknown>;
+}
+
 export interface StreamRequest {
   model: string;
   messages: ProviderMessage[];
@@ -70,6 +84,9 @@ export interface StreamRequest {
   temperature?: number;
   /** For reasoning models — never restrict this. Can be "low"|"medium"|"high" or provider-specific like "8192" */
   reasoningLevel?: string;
+  /** Ask for a JSON reply matching this schema. Providers without native support still get the
+   *  system prompt's instructions, so callers must validate the reply either way. */
+  responseSchema?: ResponseSchema;
   /** Signal to abort the stream */
   signal?: AbortSignal;
 }
@@ -86,8 +103,8 @@ export interface Provider {
   /** Check if this provider is configured and authenticated. */
   isAvailable(): boolean;
 
-  /** List models available for this provider. */
-  listModels(): Promise<ModelDef[]>;
+  /** List models available for this provider. `refresh` bypasses any cached discovery results. */
+  listModels(options?: { refresh?: boolean }): Promise<ModelDef[]>;
 }
 
 // ─── Provider factory ───────────────────────────────────────────────────────
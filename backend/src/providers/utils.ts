@@ -1,39 +1,70 @@
 import { providerLog } from "../logger";
+import type { ProviderMessage } from "./types";
 
 export interface RetryOptions {
   maxRetries?: number;
   initialDelayMs?: number;
   jitterFactor?: number;
   shouldRetry?: (error: any) => boolean;
+  /** Stops waiting out the backoff and gives up with the last error once aborted */
+  signal?: AbortSignal;
 }
 
-const DEFAULT_OPTIONS: Required<RetryOptions> = {
+/** A 5xx status as providers word it in messages: "503 Service Unavailable", "HTTP 502", "status code 500". */
+const SERVER_ERROR_STATUS = /^5\d\d\b|\b(?:status|http)(?: code)?:? ?5\d\d\b|\b5\d\d status code\b/;
+
+/**
+ * Whether an error looks transient (rate limits, 5xx, dropped connections).
+ * Providers often surface errors as plain strings, so the message is checked too.
+ */
+export function isRetryableError(error: any): boolean {
+  // Check for standard fetch errors or provider-specific error objects
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  const message = (error?.message || String(error ?? "")).toLowerCase();
+
+  // 429: Too Many Requests (Rate Limit)
+  // 500: Internal Server Error
+  // 502: Bad Gateway
+  // 503: Service Unavailable
+  // 504: Gateway Timeout
+  if (status === 429 || (status >= 500 && status < 600)) {
+    return true;
+  }
+
+  // Check message content for rate limit indicators if status is missing
+  if (message.includes("rate limit") || message.includes("quota") || message.includes("429")) {
+    return true;
+  }
+
+  // Server-side and network failures reported as text
+  if (SERVER_ERROR_STATUS.test(message) || message.includes("overloaded") || message.includes("timed out") || message.includes("econnreset")) {
+    return true;
+  }
+
+  return false;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<RetryOptions, "signal">> = {
   maxRetries: 8,
   initialDelayMs: 2000,
   jitterFactor: 0.2,
-  shouldRetry: (error: any) => {
-    // Check for standard fetch errors or provider-specific error objects
-    const status = error?.status ?? error?.statusCode ?? error?.response?.status;
-    const message = (error?.message || "").toLowerCase();
-    
-    // 429: Too Many Requests (Rate Limit)
-    // 500: Internal Server Error
-    // 502: Bad Gateway
-    // 503: Service Unavailable
-    // 504: Gateway Timeout
-    if (status === 429 || (status >= 500 && status < 600)) {
-      return true;
-    }
-
-    // Check message content for rate limit indicators if status is missing
-    if (message.includes("rate limit") || message.includes("quota") || message.includes("429")) {
-      return true;
-    }
-    
-    return false;
-  }
+  shouldRetry: isRetryableError,
 };
 
+/** Wait `ms`, returning early if `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
 /**
  * Execute an async operation with exponential backoff and jitter.
  * Ported from OpenCode's robust retry logic.
@@ -51,7 +82,7 @@ export async function withRetry<T>(
     } catch (error: any) {
       lastError = error;
       
-      if (attempt === opts.maxRetries || !opts.shouldRetry(error)) {
+      if (attempt === opts.maxRetries || opts.signal?.aborted || !opts.shouldRetry(error)) {
         throw error;
       }
 
@@ -96,9 +127,27 @@ export async function withRetry<T>(
         "Retrying operation due to error"
       );
 
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      await sleep(delayMs, opts.signal);
+      if (opts.signal?.aborted) throw error;
     }
   }
 
   throw lastError;
 }
+
+/**
+ * Render message content as plain text for providers without native tool-call turns
+ * (CLI bridges, Gemini without function calling), so tool history is not silently dropped.
+ */
+export function messageContentText(content: ProviderMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((b) => {
+      if (b.type === "text") return b.text ?? "";
+      if (b.type === "tool_use") return `[Called ${b.toolName}(${JSON.stringify(b.toolInput ?? {})})]`;
+      if (b.type === "tool_result") return `[${b.isError ? "Error from" : "Result of"} ${b.toolCallId}]\n${b.toolOutput ?? ""}`;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
@@ -52,6 +52,12 @@ export function loadConfig(projectRoot: string): KoryphaiosConfig {
       : undefined),
     mcpServers: fileConfig.mcpServers,
     contextPaths: fileConfig.contextPaths ?? DEFAULT_CONTEXT_PATHS,
+    budgets: fileConfig.budgets,
+    permissions: fileConfig.permissions,
+    verification: fileConfig.verification,
+    cassette: process.env.KORYPHAIOS_CASSETTE_MODE && process.env.KORYPHAIOS_CASSETTE
+      ? { mode: process.env.KORYPHAIOS_CASSETTE_MODE as "record" | "replay", path: process.env.KORYPHAIOS_CASSETTE }
+      : fileConfig.cassette,
     dataDirectory: fileConfig.dataDirectory ?? FS.DEFAULT_DATA_DIR,
     fallbacks: fileConfig.fallbacks ?? AGENT.DEFAULT_FALLBACKS,
   };
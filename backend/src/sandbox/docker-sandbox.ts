@@ -51,11 +51,13 @@ export async function isDockerAvailable(): Promise<boolean> {
 
 /**
  * Execute a command in a Docker container with strict isolation.
+ * Aborting `signal` removes the container, which also ends the `docker run` client.
  */
 export async function executeInSandbox(
     command: string,
     workdir: string,
     config: Partial<SandboxConfig> = {},
+    signal?: AbortSignal,
 ): Promise<SandboxResult> {
     const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
@@ -68,8 +70,14 @@ export async function executeInSandbox(
         throw new Error("Docker is not available. Please install Docker to enable secure command execution.");
     }
 
+    if (signal?.aborted) throw new Error("Command cancelled");
+
     const containerName = `koryphaios-sandbox-${Date.now()}-${Math.random().toString(36).substring(7)}`;
     const startTime = Date.now();
+    const removeContainer = () => {
+        exec(`docker rm -f ${containerName} > /dev/null 2>&1`).catch(() => {});
+    };
+    signal?.addEventListener("abort", removeContainer, { once: true });
 
     try {
         // Build docker run command with security constraints
@@ -119,6 +127,9 @@ export async function executeInSandbox(
             // Ignore cleanup errors
         }
 
+        if (signal?.aborted) {
+            throw new Error("Command cancelled");
+        }
         if (error.killed && error.signal === "SIGTERM") {
             throw new Error(`Command timed out after ${finalConfig.timeout}ms`);
         }
@@ -129,6 +140,8 @@ export async function executeInSandbox(
             exitCode: error.code || 1,
             duration,
         };
+    } finally {
+        signal?.removeEventListener("abort", removeContainer);
     }
 }
 
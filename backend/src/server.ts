@@ -1,11 +1,12 @@
 // Koryphaios Backend Server — Bun HTTP + WebSocket server.
 // This is the main entry point that wires everything together.
 
-import type { WSMessage, APIResponse, SendMessageRequest, CreateSessionRequest, StoredMessage, ProviderName } from "@koryphaios/shared";
+import type { WSMessage, APIResponse, SendMessageRequest, CreateSessionRequest, StoredMessage, ProviderName, MemoryCategory, Session, AutonomyLevel } from "@koryphaios/shared";
+import { AUTONOMY_LEVELS } from "@koryphaios/shared";
 import type { ServerWebSocket } from "bun";
 import { ProviderRegistry } from "./providers";
 import { startCopilotDeviceAuth, pollCopilotDeviceAuth } from "./providers/copilot";
-import { ToolRegistry, BashTool, ReadFileTool, WriteFileTool, EditFileTool, GrepTool, GlobTool, LsTool, WebSearchTool, WebFetchTool, DeleteFileTool, MoveFileTool, DiffTool, PatchTool } from "./tools";
+import { ToolRegistry, BashTool, ReadFileTool, WriteFileTool, EditFileTool, GrepTool, GlobTool, LsTool, WebSearchTool, WebFetchTool, DeleteFileTool, MoveFileTool, DiffTool, PatchTool, RememberTool, RecallTool, PermissionEngine } from "./tools";
 import { AskUserTool, AskManagerTool } from "./tools/interaction";
 import { KoryManager } from "./kory/manager";
 import { TelegramBridge } from "./telegram/bot";
@@ -14,7 +15,7 @@ import { wsBroker } from "./pubsub";
 import { serverLog } from "./logger";
 import { getCorsHeaders, validateSessionId, validateProviderName, sanitizeString, encryptApiKey, RateLimiter } from "./security";
 import { ValidationError, SessionError, handleError, generateCorrelationId } from "./errors";
-import { SESSION, MESSAGE, ID, RATE_LIMIT } from "./constants";
+import { SESSION, MESSAGE, ID, RATE_LIMIT, MEMORY } from "./constants";
 import { validateEnvironment } from "./config-schema";
 import { nanoid } from "nanoid";
 import { existsSync, readFileSync, mkdirSync, writeFileSync, unlinkSync, readdirSync } from "fs";
@@ -27,6 +28,9 @@ import { loadConfig } from "./runtime/config";
 import { persistEnvVar, clearEnvVar } from "./runtime/env";
 import { SessionStore } from "./stores/session-store";
 import { MessageStore } from "./stores/message-store";
+import { TaskStore } from "./stores/task-store";
+import { MemoryStore, MEMORY_CATEGORIES } from "./stores/memory-store";
+import { SpendStore } from "./stores/spend-store";
 import { WSManager, type WSClientData } from "./ws/ws-manager";
 import { normalizeClineAuthToken } from "./providers/cline";
 
@@ -48,11 +52,18 @@ async function main() {
   // Initialize SQLite Database
   initDb(join(PROJECT_ROOT, config.dataDirectory));
 
+  // Initialize sessions
+  const sessions = new SessionStore();
+  const messages = new MessageStore();
+  const tasks = new TaskStore();
+  const spend = new SpendStore();
+
   // Initialize providers (auth hub)
   const providers = new ProviderRegistry(config);
 
   // Initialize tools
-  const tools = new ToolRegistry();
+  const permissions = new PermissionEngine(config.permissions, (id) => sessions.get(id)?.autonomy ?? SESSION.DEFAULT_AUTONOMY);
+  const tools = new ToolRegistry(permissions);
   tools.register(new BashTool());
   tools.register(new ReadFileTool());
   tools.register(new WriteFileTool());
@@ -69,6 +80,10 @@ async function main() {
   tools.register(new AskUserTool());
   tools.register(new AskManagerTool());
 
+  const memory = new MemoryStore(join(PROJECT_ROOT, MEMORY.DIRECTORY));
+  tools.register(new RememberTool(memory));
+  tools.register(new RecallTool(memory));
+
   // Load local plugins
   await loadPlugins(tools);
 
@@ -89,12 +104,13 @@ async function main() {
     serverLog.info({ count: mcpManager.getStatus().length }, "MCP servers connected");
   }
 
-  // Initialize sessions
-  const sessions = new SessionStore();
-  const messages = new MessageStore();
-
   // Initialize Kory
-  const kory = new KoryManager(providers, tools, PROJECT_ROOT, config, sessions, messages);
+  const kory = new KoryManager(providers, tools, PROJECT_ROOT, config, sessions, messages, tasks, memory, spend);
+  await kory.restoreWorktrees();
+  const interrupted = kory.listInterruptedTasks();
+  if (interrupted.length > 0) {
+    serverLog.warn({ count: interrupted.length }, "Found tasks interrupted by a previous shutdown");
+  }
 
   // Initialize WebSocket manager
   const wsManager = new WSManager();
@@ -189,10 +205,13 @@ async function main() {
       // ── REST API Routes ──
 
       // Agent steering
-      if (url.pathname.startsWith("/api/agents/") && url.pathname.endsWith("/cancel") && method === "POST") {
-        const agentId = url.pathname.replace("/api/agents/", "").replace("/cancel", "");
-        kory.cancelWorker(agentId);
-        return json({ ok: true }, 200, corsHeaders);
+      // POST /api/agents/:id/cancel (POST /api/agents/cancel, handled below, stops everything)
+      if (url.pathname.startsWith("/api/agents/") && method === "POST") {
+        const [, , , agentId, action] = url.pathname.split("/");
+        if (agentId && action === "cancel") {
+          if (!kory.cancelWorker(agentId)) return json({ ok: false, error: "Worker not found" }, 404, corsHeaders);
+          return json({ ok: true }, 200, corsHeaders);
+        }
       }
 
       // Sessions
@@ -237,7 +256,7 @@ async function main() {
         // POST /api/sessions/:id/auto-title — generate title from first message
         if (subResource === "auto-title" && method === "POST") {
           const sessionMessages = messages.getAll(validatedId);
-          const firstUserMsg = sessionMessages.find(m => m.role === "user");
+          const firstUserMsg = sessionMessages.find(m => m.role === "user" && !m.agentId);
           if (firstUserMsg) {
             // Simple title: first 50 chars of first message, cleaned up
             const rawTitle = firstUserMsg.content.replace(/\n/g, " ").trim();
@@ -265,10 +284,21 @@ async function main() {
           }
 
           if (method === "PATCH") {
-            const body = await req.json() as { title?: string };
-            const title = sanitizeString(body.title, SESSION.MAX_TITLE_LENGTH);
-            if (!title) return json({ ok: false, error: "title is required" }, 400, corsHeaders);
-            const updated = sessions.update(validatedId, { title });
+            const body = await req.json() as { title?: string; autonomy?: string };
+            const updates: Partial<Session> = {};
+            if (body.title !== undefined) {
+              const title = sanitizeString(body.title, SESSION.MAX_TITLE_LENGTH);
+              if (!title) return json({ ok: false, error: "title must be a non-empty string" }, 400, corsHeaders);
+              updates.title = title;
+            }
+            if (body.autonomy !== undefined) {
+              if (!AUTONOMY_LEVELS.includes(body.autonomy as AutonomyLevel)) {
+                return json({ ok: false, error: `autonomy must be one of: ${AUTONOMY_LEVELS.join(", ")}` }, 400, corsHeaders);
+              }
+              updates.autonomy = body.autonomy as AutonomyLevel;
+            }
+            if (Object.keys(updates).length === 0) return json({ ok: false, error: "title or autonomy is required" }, 400, corsHeaders);
+            const updated = sessions.update(validatedId, updates);
             if (!updated) return json({ ok: false, error: "Session not found" }, 404, corsHeaders);
             wsManager.broadcast({
               type: "session.updated",
@@ -280,7 +310,9 @@ async function main() {
           }
 
           if (method === "DELETE") {
-            kory.cancelSessionWorkers(validatedId);
+            // Refuse pending permission prompts first so the run can unwind.
+            permissions.clearSession(validatedId);
+            await kory.closeSession(validatedId);
             sessions.delete(validatedId);
             wsManager.broadcast({
               type: "session.deleted",
@@ -292,9 +324,47 @@ async function main() {
           }
         }
 
-        // GET /api/sessions/:id/running — check if session is running workers
+        // POST /api/sessions/:id/compact — compact the context of the session's running workers
+        if (subResource === "compact" && method === "POST") {
+          const workers = kory.requestCompaction(validatedId);
+          if (workers === 0) return json({ ok: false, error: "No running workers to compact" }, 409, corsHeaders);
+          return json({ ok: true, data: { workers } }, 202, corsHeaders);
+        }
+
+        // GET /api/sessions/:id/rejection-preview — files rejecting the pending changes would revert
+        if (subResource === "rejection-preview" && method === "GET") {
+          return json({ ok: true, data: kory.previewRejection(validatedId) }, 200, corsHeaders);
+        }
+
+        // GET /api/sessions/:id/checkpoints — the session's restore point timeline, oldest first
+        if (subResource === "checkpoints" && !segments[5] && method === "GET") {
+          return json({ ok: true, data: await kory.listCheckpoints(validatedId) }, 200, corsHeaders);
+        }
+
+        // GET /api/sessions/:id/checkpoints/:checkpointId/diff[?against=current]
+        // POST /api/sessions/:id/checkpoints/:checkpointId/restore
+        if (subResource === "checkpoints" && segments[5]) {
+          const checkpointId = segments[5];
+          const action = segments[6];
+          if (!(await kory.listCheckpoints(validatedId)).some((c) => c.id === checkpointId)) {
+            return json({ ok: false, error: "Checkpoint not found" }, 404, corsHeaders);
+          }
+          if (action === "diff" && method === "GET") {
+            const against = url.searchParams.get("against") === "current" ? "current" : "previous";
+            return json({ ok: true, data: await kory.diffCheckpoint(validatedId, checkpointId, against) }, 200, corsHeaders);
+          }
+          if (action === "restore" && method === "POST") {
+            if (kory.getSessionRunStatus(validatedId).state !== "idle") {
+              return json({ ok: false, error: "Stop the session's current run before restoring a checkpoint" }, 409, corsHeaders);
+            }
+            return json({ ok: true, data: await kory.restoreCheckpoint(validatedId, checkpointId) }, 200, corsHeaders);
+          }
+        }
+
+        // GET /api/sessions/:id/running — current run state and queued follow-ups
         if (subResource === "running" && method === "GET") {
-          return json({ ok: true, data: { running: kory.isSessionRunning(validatedId) } }, 200, corsHeaders);
+          const status = kory.getSessionRunStatus(validatedId);
+          return json({ ok: true, data: { running: status.state !== "idle", ...status } }, 200, corsHeaders);
         }
       }
 
@@ -345,22 +415,77 @@ async function main() {
           } satisfies WSMessage);
         }
 
-        // Process async — results stream via WebSocket
-        kory.processTask(activeSessionId, content, body.model, body.reasoningLevel)
-          .then(() => {
-            serverLog.debug({ sessionId: activeSessionId }, "Task completed successfully");
-          })
-          .catch((err) => {
-            serverLog.error({ sessionId: activeSessionId, error: err }, "Error processing request");
-            wsManager.broadcast({
-              type: "system.error",
-              payload: { error: err.message },
-              timestamp: Date.now(),
-              sessionId: activeSessionId,
-            });
-          });
+        // Process async — runs one at a time per session, results stream via WebSocket
+        const ahead = kory.processTask(activeSessionId, content, body.model, body.reasoningLevel, { interrupt: body.interrupt === true });
+
+        return json({ ok: true, data: { sessionId: activeSessionId, status: ahead > 0 ? "queued" : "processing", position: ahead } }, 202, corsHeaders);
+      }
+
+      // GET /api/tasks/interrupted — tasks left pending/active by a previous process
+      if (url.pathname === "/api/tasks/interrupted" && method === "GET") {
+        const sessionParam = url.searchParams.get("sessionId");
+        const sessionId = sessionParam ? validateSessionId(sessionParam) : undefined;
+        if (sessionParam && !sessionId) return json({ ok: false, error: "Invalid session ID" }, 400, corsHeaders);
+        return json({ ok: true, data: kory.listInterruptedTasks(sessionId ?? undefined) }, 200, corsHeaders);
+      }
+
+      // POST /api/tasks/:id/resume | /api/tasks/:id/abandon
+      if (url.pathname.startsWith("/api/tasks/") && method === "POST") {
+        const [, , , rawId, action] = url.pathname.split("/");
+        const taskId = validateSessionId(rawId);
+        if (!taskId) return json({ ok: false, error: "Invalid task ID" }, 400, corsHeaders);
+        if (!tasks.get(taskId)) return json({ ok: false, error: "Task not found" }, 404, corsHeaders);
+
+        if (action === "resume") {
+          const body = await req.json().catch(() => ({})) as { model?: string; reasoningLevel?: string };
+          try {
+            const ahead = kory.resumeTask(taskId, body.model, body.reasoningLevel);
+            return json({ ok: true, data: { taskId, status: ahead > 0 ? "queued" : "resuming" } }, 202, corsHeaders);
+          } catch (err: any) {
+            return json({ ok: false, error: err.message }, 409, corsHeaders);
+          }
+        }
+
+        if (action === "abandon") {
+          if (!kory.abandonTask(taskId)) return json({ ok: false, error: "Task is still running" }, 409, corsHeaders);
+          return json({ ok: true }, 200, corsHeaders);
+        }
+      }
+
+      // GET /api/memory — all project memories, most recently updated first
+      if (url.pathname === "/api/memory" && method === "GET") {
+        return json({ ok: true, data: memory.list() }, 200, corsHeaders);
+      }
+
+      // POST /api/memory — add a memory by hand
+      if (url.pathname === "/api/memory" && method === "POST") {
+        const body = await req.json().catch(() => ({})) as { content?: string; category?: string; tags?: string[] };
+        const content = sanitizeString(body.content, MEMORY.MAX_CONTENT_LENGTH);
+        if (!content) return json({ ok: false, error: "content is required" }, 400, corsHeaders);
+        const category = parseMemoryCategory(body.category);
+        if (category === null) return json({ ok: false, error: `category must be one of ${MEMORY_CATEGORIES.join(", ")}` }, 400, corsHeaders);
+        const entry = memory.add({ content, category, tags: parseMemoryTags(body.tags), source: "user" });
+        return json({ ok: true, data: entry }, 201, corsHeaders);
+      }
+
+      // PUT /api/memory/:id | DELETE /api/memory/:id
+      if (url.pathname.startsWith("/api/memory/") && (method === "PUT" || method === "DELETE")) {
+        const id = validateSessionId(url.pathname.split("/")[3]);
+        if (!id) return json({ ok: false, error: "Invalid memory ID" }, 400, corsHeaders);
 
-        return json({ ok: true, data: { sessionId: activeSessionId, status: "processing" } }, 202, corsHeaders);
+        if (method === "DELETE") {
+          if (!memory.delete(id)) return json({ ok: false, error: "Memory not found" }, 404, corsHeaders);
+          return json({ ok: true }, 200, corsHeaders);
+        }
+
+        const body = await req.json().catch(() => ({})) as { content?: string; category?: string; tags?: string[] };
+        const content = body.content !== undefined ? sanitizeString(body.content, MEMORY.MAX_CONTENT_LENGTH) : undefined;
+        if (content === "") return json({ ok: false, error: "content cannot be empty" }, 400, corsHeaders);
+        const category = parseMemoryCategory(body.category);
+        if (category === null) return json({ ok: false, error: `category must be one of ${MEMORY_CATEGORIES.join(", ")}` }, 400, corsHeaders);
+        const updated = memory.update(id, { content, category, tags: body.tags !== undefined ? parseMemoryTags(body.tags) : undefined });
+        if (!updated) return json({ ok: false, error: "Memory not found" }, 404, corsHeaders);
+        return json({ ok: true, data: updated }, 200, corsHeaders);
       }
 
       // Provider status
@@ -368,6 +493,14 @@ async function main() {
         return json({ ok: true, data: await providers.getStatus() }, 200, corsHeaders);
       }
 
+      // Re-query model listings, for one provider or all of them
+      if (url.pathname === "/api/providers/models/refresh" && method === "POST") {
+        const body = await req.json().catch(() => ({})) as { provider?: string };
+        const providerName = body.provider === undefined ? undefined : validateProviderName(body.provider);
+        if (providerName === null) return json({ ok: false, error: "Invalid provider name" }, 400, corsHeaders);
+        return json({ ok: true, data: await providers.refreshModels(providerName) }, 200, corsHeaders);
+      }
+
       // Start Copilot browser device auth flow
       if (url.pathname === "/api/providers/copilot/device/start" && method === "POST") {
         try {
@@ -412,7 +545,7 @@ async function main() {
 
           wsManager.broadcast({
             type: "provider.status",
-            payload: { providers: await providers.getStatus() },
+            payload: { providers: await providers.getStatus({ discover: false }) },
             timestamp: Date.now(),
           } satisfies WSMessage);
 
@@ -540,7 +673,7 @@ async function main() {
 
           wsManager.broadcast({
             type: "provider.status",
-            payload: { providers: await providers.getStatus() },
+            payload: { providers: await providers.getStatus({ discover: false }) },
             timestamp: Date.now(),
           } satisfies WSMessage);
 
@@ -675,7 +808,7 @@ async function main() {
 
           wsManager.broadcast({
             type: "provider.status",
-            payload: { providers: await providers.getStatus() },
+            payload: { providers: await providers.getStatus({ discover: false }) },
             timestamp: Date.now(),
           } satisfies WSMessage);
 
@@ -724,7 +857,7 @@ async function main() {
         // Broadcast updated provider status via WebSocket
         wsManager.broadcast({
           type: "provider.status",
-          payload: { providers: await providers.getStatus() },
+          payload: { providers: await providers.getStatus({ discover: false }) },
           timestamp: Date.now(),
         } satisfies WSMessage);
 
@@ -889,7 +1022,7 @@ async function main() {
 
         wsManager.broadcast({
           type: "provider.status",
-          payload: { providers: await providers.getStatus() },
+          payload: { providers: await providers.getStatus({ discover: false }) },
           timestamp: Date.now(),
         } satisfies WSMessage);
 
@@ -903,8 +1036,8 @@ async function main() {
 
       // Cancel all
       if (url.pathname === "/api/agents/cancel" && method === "POST") {
-        kory.cancel();
-        return json({ ok: true }, 200, corsHeaders);
+        const interrupted = kory.cancel();
+        return json({ ok: true, data: { interrupted } }, 200, corsHeaders);
       }
 
       // Health check
@@ -983,7 +1116,7 @@ async function main() {
           serverLog.info({ clientId: ws.data.id, clients: wsManager.clientCount }, "WS client connected");
 
           // Send initial state
-          void providers.getStatus()
+          void providers.getStatus({ discover: false })
             .then((initialStatus) => {
               ws.send(JSON.stringify({
                 type: "provider.status",
@@ -1012,8 +1145,24 @@ async function main() {
             kory.handleSessionResponse(msg.sessionId, true);
           } else if (msg.type === "session.reject_changes") {
             kory.handleSessionResponse(msg.sessionId, false);
-          } else if (msg.type === "toggle_yolo") {
-            kory.setYoloMode(!!msg.enabled);
+          } else if (msg.type === "session.review_change") {
+            if (typeof msg.path !== "string") return;
+            kory.reviewChange(msg.sessionId, {
+              path: msg.path,
+              accepted: !!msg.accepted,
+              hunk: typeof msg.hunk === "number" ? msg.hunk : undefined,
+              header: typeof msg.header === "string" ? msg.header : undefined,
+            });
+          } else if (msg.type === "clarify.response") {
+            const answers = Array.isArray(msg.answers) ? msg.answers.map((a: unknown) => (typeof a === "string" ? a : "")) : [];
+            kory.handleClarificationAnswers(msg.sessionId, answers);
+          } else if (msg.type === "plan.response") {
+            kory.handlePlanResponse(msg.sessionId, msg.planId, !!msg.approved, { steps: msg.steps, allowedPaths: msg.allowedPaths });
+          } else if (msg.type === "permission.response") {
+            const { id, response } = msg.payload ?? {};
+            if (typeof id === "string" && (response === "granted" || response === "denied" || response === "granted_session")) {
+              permissions.respond(id, response);
+            }
           }
         } catch (err) {
           handleError(err, { event: "ws.message", clientId: ws?.data?.id, raw: String(message).slice(0, 500) });
@@ -1110,6 +1259,17 @@ function json(data: APIResponse, status: number, headers: Record<string, string>
   });
 }
 
+/** undefined when absent, null when not a known category. */
+function parseMemoryCategory(input: unknown): MemoryCategory | undefined | null {
+  if (input === undefined || input === null || input === "") return undefined;
+  return MEMORY_CATEGORIES.includes(input as MemoryCategory) ? input as MemoryCategory : null;
+}
+
+function parseMemoryTags(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+  return input.map((t) => sanitizeString(t, 50)).filter(Boolean).slice(0, 20);
+}
+
 /**
  * Load local plugins from valid plugin directories
  */
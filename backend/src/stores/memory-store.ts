@@ -0,0 +1,159 @@
+import type { MemoryCategory, MemoryEntry } from "@koryphaios/shared";
+import { nanoid } from "nanoid";
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { MEMORY } from "../constants";
+
+export const MEMORY_CATEGORIES: readonly MemoryCategory[] = ["build", "convention", "decision", "fact"];
+
+export type NewMemory = Pick<MemoryEntry, "content" | "source"> & Partial<Pick<MemoryEntry, "category" | "tags" | "sessionId">>;
+export type MemoryUpdate = Partial<Pick<MemoryEntry, "content" | "category" | "tags">>;
+
+export interface IMemoryStore {
+  list(): MemoryEntry[];
+  get(id: string): MemoryEntry | undefined;
+  add(memory: NewMemory): MemoryEntry;
+  update(id: string, updates: MemoryUpdate): MemoryEntry | undefined;
+  delete(id: string): boolean;
+  /** Entries ranked by relevance to `query`; entries sharing no terms with it are left out. */
+  search(query: string, limit?: number): MemoryEntry[];
+}
+
+/**
+ * Project memory kept as one JSON file per entry, so it can be reviewed and edited by hand
+ * and concurrent workers never rewrite each other's entries. It lives under the gitignored
+ * `.koryphaios/` directory, so it stays local to this checkout rather than being committed.
+ */
+export class MemoryStore implements IMemoryStore {
+  constructor(private dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  list(): MemoryEntry[] {
+    return readdirSync(this.dir)
+      .filter((f) => f.endsWith(".json"))
+      .flatMap((f) => {
+        const entry = this.read(join(this.dir, f));
+        return entry ? [entry] : [];
+      })
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  get(id: string): MemoryEntry | undefined {
+    if (!isValidId(id)) return undefined;
+    return this.read(this.pathFor(id));
+  }
+
+  add(memory: NewMemory): MemoryEntry {
+    const content = normalizeContent(memory.content);
+    // Recording the same fact twice refreshes it instead of duplicating it.
+    const existing = this.list().find((e) => e.content.toLowerCase() === content.toLowerCase());
+    if (existing) return this.update(existing.id, { category: memory.category, tags: memory.tags })!;
+
+    const now = Date.now();
+    const entry: MemoryEntry = {
+      id: nanoid(12),
+      content,
+      category: memory.category ?? "fact",
+      tags: normalizeTags(memory.tags),
+      source: memory.source,
+      sessionId: memory.sessionId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.write(entry);
+    return entry;
+  }
+
+  update(id: string, updates: MemoryUpdate): MemoryEntry | undefined {
+    const entry = this.get(id);
+    if (!entry) return undefined;
+    const updated: MemoryEntry = {
+      ...entry,
+      content: updates.content !== undefined ? normalizeContent(updates.content) : entry.content,
+      category: updates.category ?? entry.category,
+      tags: updates.tags !== undefined ? normalizeTags(updates.tags) : entry.tags,
+      updatedAt: Date.now(),
+    };
+    this.write(updated);
+    return updated;
+  }
+
+  delete(id: string): boolean {
+    if (!isValidId(id) || !existsSync(this.pathFor(id))) return false;
+    unlinkSync(this.pathFor(id));
+    return true;
+  }
+
+  search(query: string, limit: number = MEMORY.RECALL_LIMIT): MemoryEntry[] {
+    const terms = new Set(tokenize(query));
+    return this.list()
+      .map((entry) => ({ entry, score: scoreEntry(entry, terms) }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score || b.entry.updatedAt - a.entry.updatedAt)
+      .slice(0, limit)
+      .map((r) => r.entry);
+  }
+
+  private pathFor(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+
+  private read(path: string): MemoryEntry | undefined {
+    try {
+      return JSON.parse(readFileSync(path, "utf-8")) as MemoryEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private write(entry: MemoryEntry) {
+    writeFileSync(this.pathFor(entry.id), JSON.stringify(entry, null, 2) + "\n");
+  }
+}
+
+/**
+ * Memories worth putting in a system prompt for `query`. Small memories are included
+ * whole; larger ones are ranked, with build commands and conventions always eligible.
+ */
+export function selectPromptMemories(store: IMemoryStore, query: string, limit: number = MEMORY.PROMPT_LIMIT): MemoryEntry[] {
+  const all = store.list();
+  if (all.length <= limit) return all;
+  const terms = new Set(tokenize(query));
+  return all
+    .map((entry) => ({ entry, score: scoreEntry(entry, terms) + (entry.category === "build" || entry.category === "convention" ? 0.5 : 0) }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score || b.entry.updatedAt - a.entry.updatedAt)
+    .slice(0, limit)
+    .map((r) => r.entry);
+}
+
+export function formatMemoriesForPrompt(entries: readonly MemoryEntry[]): string {
+  if (entries.length === 0) return "";
+  const lines = entries.map((e) => `- [${e.category}] ${e.content}`);
+  return `\n\nPROJECT MEMORY (facts recorded in earlier sessions; use the recall tool for more):\n${lines.join("\n")}`;
+}
+
+function isValidId(id: string): boolean {
+  return /^[a-zA-Z0-9_-]{1,64}$/.test(id);
+}
+
+function normalizeContent(content: string): string {
+  return content.trim().slice(0, MEMORY.MAX_CONTENT_LENGTH);
+}
+
+function normalizeTags(tags: string[] | undefined): string[] {
+  return [...new Set((tags ?? []).map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9_.-]+/).filter((t) => t.length > 2);
+}
+
+function scoreEntry(entry: MemoryEntry, terms: Set<string>): number {
+  if (terms.size === 0) return 0;
+  const words = new Set([...tokenize(entry.content), ...entry.tags, entry.category]);
+  let score = 0;
+  for (const term of terms) if (words.has(term)) score++;
+  return score;
+}
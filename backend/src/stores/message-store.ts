@@ -10,7 +10,7 @@ export interface IMessageStore {
 export class MessageStore implements IMessageStore {
   add(sessionId: string, msg: StoredMessage): void {
     getDb().run(
-      "INSERT INTO messages (id, session_id, role, content, model, provider, tokens_in, tokens_out, cost, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO messages (id, session_id, role, content, model, provider, agent_id, tokens_in, tokens_out, cost, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
       [
         msg.id,
         sessionId,
@@ -18,6 +18,7 @@ export class MessageStore implements IMessageStore {
         msg.content,
         msg.model || null,
         msg.provider || null,
+        msg.agentId || null,
         msg.tokensIn || 0,
         msg.tokensOut || 0,
         msg.cost || 0,
@@ -35,6 +36,7 @@ export class MessageStore implements IMessageStore {
       content: row.content,
       model: row.model,
       provider: row.provider,
+      agentId: row.agent_id ?? undefined,
       tokensIn: row.tokens_in,
       tokensOut: row.tokens_out,
       cost: row.cost,
@@ -51,6 +53,7 @@ export class MessageStore implements IMessageStore {
       content: row.content,
       model: row.model,
       provider: row.provider,
+      agentId: row.agent_id ?? undefined,
       tokensIn: row.tokens_in,
       tokensOut: row.tokens_out,
       cost: row.cost,
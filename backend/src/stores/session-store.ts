@@ -8,6 +8,8 @@ export interface ISessionStore {
   get(id: string): Session | undefined;
   list(): Session[];
   update(id: string, updates: Partial<Session>): Session | undefined;
+  /** Add a provider call's tokens and cost to the session totals. */
+  addUsage(id: string, usage: { tokensIn: number; tokensOut: number; cost: number }): Session | undefined;
   delete(id: string): void;
 }
 
@@ -18,14 +20,15 @@ export class SessionStore implements ISessionStore {
     const db = getDb();
 
     db.run(
-      "INSERT INTO sessions (id, title, parent_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?)",
-      [id, title ?? SESSION.DEFAULT_TITLE, parentId || null, now, now],
+      "INSERT INTO sessions (id, title, parent_id, autonomy, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)",
+      [id, title ?? SESSION.DEFAULT_TITLE, parentId || null, SESSION.DEFAULT_AUTONOMY, now, now],
     );
 
     return {
       id,
       title: title ?? SESSION.DEFAULT_TITLE,
       parentSessionId: parentId,
+      autonomy: SESSION.DEFAULT_AUTONOMY,
       messageCount: 0,
       totalTokensIn: 0,
       totalTokensOut: 0,
@@ -42,6 +45,7 @@ export class SessionStore implements ISessionStore {
       id: row.id,
       title: row.title,
       parentSessionId: row.parent_id,
+      autonomy: row.autonomy,
       messageCount: row.message_count,
       totalTokensIn: row.tokens_in,
       totalTokensOut: row.tokens_out,
@@ -57,6 +61,7 @@ export class SessionStore implements ISessionStore {
       id: row.id,
       title: row.title,
       parentSessionId: row.parent_id,
+      autonomy: row.autonomy,
       messageCount: row.message_count,
       totalTokensIn: row.tokens_in,
       totalTokensOut: row.tokens_out,
@@ -72,6 +77,7 @@ export class SessionStore implements ISessionStore {
 
     const mapping: Record<string, string> = {
       title: "title",
+      autonomy: "autonomy",
       messageCount: "message_count",
       totalTokensIn: "tokens_in",
       totalTokensOut: "tokens_out",
@@ -88,6 +94,15 @@ export class SessionStore implements ISessionStore {
     return this.get(id);
   }
 
+  addUsage(id: string, usage: { tokensIn: number; tokensOut: number; cost: number }): Session | undefined {
+    // Incremented in SQL so concurrent workers in one session never overwrite each other's totals.
+    getDb().run(
+      "UPDATE sessions SET tokens_in = tokens_in + ?, tokens_out = tokens_out + ?, total_cost = total_cost + ?, updated_at = ? WHERE id = ?",
+      [usage.tokensIn, usage.tokensOut, usage.cost, Date.now(), id],
+    );
+    return this.get(id);
+  }
+
   delete(id: string) {
     getDb().run("DELETE FROM sessions WHERE id = ?", [id]);
   }
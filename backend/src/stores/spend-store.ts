@@ -0,0 +1,34 @@
+import { getDb } from "../db/sqlite";
+
+export interface DailySpend {
+  day: string;
+  cost: number;
+  tokens: number;
+}
+
+export interface ISpendStore {
+  add(day: string, cost: number, tokens: number): void;
+  get(day: string): DailySpend;
+}
+
+/** Spend across all sessions per calendar day, for the daily budget. */
+export class SpendStore implements ISpendStore {
+  add(day: string, cost: number, tokens: number) {
+    getDb().run(
+      `INSERT INTO daily_spend (day, cost, tokens) VALUES (?, ?, ?)
+       ON CONFLICT(day) DO UPDATE SET cost = cost + excluded.cost, tokens = tokens + excluded.tokens`,
+      [day, cost, tokens],
+    );
+  }
+
+  get(day: string): DailySpend {
+    const row = getDb().query("SELECT cost, tokens FROM daily_spend WHERE day = ?").get(day) as { cost: number; tokens: number } | null;
+    return { day, cost: row?.cost ?? 0, tokens: row?.tokens ?? 0 };
+  }
+}
+
+/** Local calendar day as YYYY-MM-DD. */
+export function spendDay(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -1,32 +1,55 @@
+import type { PlanStep, StoredTask } from "@koryphaios/shared";
 import { getDb } from "../db/sqlite";
-import type { KoryTask } from "../kory/manager";
+
+export type NewTask = Omit<StoredTask, "status" | "result" | "error" | "createdAt" | "updatedAt">;
+export type TaskUpdate = Partial<Pick<StoredTask, "status" | "result" | "error" | "plan" | "transcriptPath" | "assignedModel" | "assignedProvider">>;
 
 export interface ITaskStore {
-  create(task: Omit<KoryTask, "status" | "result" | "error"> & { sessionId: string; plan?: string }): void;
-  update(id: string, updates: Partial<KoryTask> & { status?: string; plan?: string }): void;
-  get(id: string): (KoryTask & { sessionId: string; plan?: string }) | undefined;
-  listActive(): (KoryTask & { sessionId: string; plan?: string })[];
+  create(task: NewTask): void;
+  update(id: string, updates: TaskUpdate): void;
+  get(id: string): StoredTask | undefined;
+  /** Tasks that have not reached a terminal state (pending or active). */
+  listActive(sessionId?: string): StoredTask[];
+  listByRun(runId: string): StoredTask[];
 }
 
 export class TaskStore implements ITaskStore {
-  create(task: Omit<KoryTask, "status" | "result" | "error"> & { sessionId: string; plan?: string }) {
+  create(task: NewTask) {
     const now = Date.now();
     getDb().run(
-      `INSERT INTO tasks (id, session_id, description, domain, status, assigned_model, assigned_provider, plan, created_at, updated_at)
-       VALUES (?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?)`,
-      [task.id, task.sessionId, task.description, task.domain, task.assignedModel, task.assignedProvider, task.plan || null, now, now]
+      `INSERT INTO tasks (id, session_id, run_id, description, domain, status, assigned_model, assigned_provider, depends_on, plan, plan_steps, allowed_paths, transcript_path, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        task.id,
+        task.sessionId,
+        task.runId || null,
+        task.description,
+        task.domain,
+        task.assignedModel,
+        task.assignedProvider,
+        JSON.stringify(task.dependsOn),
+        task.plan || null,
+        task.planSteps ? JSON.stringify(task.planSteps) : null,
+        JSON.stringify(task.allowedPaths),
+        task.transcriptPath || null,
+        now,
+        now,
+      ]
     );
   }
 
-  update(id: string, updates: Partial<KoryTask> & { status?: string; plan?: string }) {
+  update(id: string, updates: TaskUpdate) {
     const fields: string[] = [];
     const values: any[] = [];
-    
+
     if (updates.status) { fields.push("status = ?"); values.push(updates.status); }
-    if (updates.result) { fields.push("result = ?"); values.push(updates.result); }
-    if (updates.error) { fields.push("error = ?"); values.push(updates.error); }
+    if (updates.result !== undefined) { fields.push("result = ?"); values.push(updates.result); }
+    if (updates.error !== undefined) { fields.push("error = ?"); values.push(updates.error); }
     if (updates.plan) { fields.push("plan = ?"); values.push(updates.plan); }
-    
+    if (updates.transcriptPath) { fields.push("transcript_path = ?"); values.push(updates.transcriptPath); }
+    if (updates.assignedModel) { fields.push("assigned_model = ?"); values.push(updates.assignedModel); }
+    if (updates.assignedProvider) { fields.push("assigned_provider = ?"); values.push(updates.assignedProvider); }
+
     if (fields.length === 0) return;
 
     fields.push("updated_at = ?");
@@ -42,23 +65,57 @@ export class TaskStore implements ITaskStore {
     return this.mapRow(row);
   }
 
-  listActive() {
-    const rows = getDb().query("SELECT * FROM tasks WHERE status IN ('active', 'pending')").all() as any[];
-    return rows.map(this.mapRow);
+  listActive(sessionId?: string) {
+    const rows = sessionId
+      ? getDb().query("SELECT * FROM tasks WHERE status IN ('active', 'pending') AND session_id = ? ORDER BY created_at ASC, rowid ASC").all(sessionId) as any[]
+      : getDb().query("SELECT * FROM tasks WHERE status IN ('active', 'pending') ORDER BY created_at ASC, rowid ASC").all() as any[];
+    return rows.map((row) => this.mapRow(row));
   }
 
-  private mapRow(row: any): KoryTask & { sessionId: string; plan?: string } {
+  listByRun(runId: string) {
+    const rows = getDb().query("SELECT * FROM tasks WHERE run_id = ? ORDER BY created_at ASC, rowid ASC").all(runId) as any[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  private mapRow(row: any): StoredTask {
     return {
       id: row.id,
       sessionId: row.session_id,
+      runId: row.run_id ?? undefined,
       description: row.description,
       domain: row.domain,
       assignedModel: row.assigned_model,
       assignedProvider: row.assigned_provider,
       status: row.status,
-      result: row.result,
-      error: row.error,
-      plan: row.plan,
+      dependsOn: parseJsonArray(row.depends_on),
+      plan: row.plan ?? undefined,
+      planSteps: parsePlanSteps(row.plan_steps),
+      allowedPaths: parseJsonArray(row.allowed_paths),
+      transcriptPath: row.transcript_path ?? undefined,
+      result: row.result ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
     };
   }
 }
+
+function parseJsonArray(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function parsePlanSteps(raw: string | null): PlanStep[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -47,9 +47,7 @@ export class TelegramBridge {
       try {
         // Fire and forget — Kory processes async, status available via /status
         const sessionId = `telegram-${Date.now()}`;
-        this.kory.processTask(sessionId, prompt).catch((err) => {
-          telegramLog.error(err, "Kory error from Telegram");
-        });
+        this.kory.processTask(sessionId, prompt);
         await ctx.reply("✅ Task dispatched. Use /status to check progress.");
       } catch (err: any) {
         await ctx.reply(`❌ Error: ${err.message}`);
@@ -71,7 +69,7 @@ export class TelegramBridge {
       }
 
       const lines = workers.map((w) =>
-        `• **${w.agent.name}** (${w.agent.model})\n  Status: ${w.status}\n  Task: ${w.task.slice(0, 100)}`
+        `• **${w.agent.name}** (${w.agent.model})\n  Status: ${w.status}\n  Task: ${w.task.description.slice(0, 100)}`
       );
 
       await ctx.reply(`📊 Active Workers:\n\n${lines.join("\n\n")}`, { parse_mode: "Markdown" });
@@ -90,7 +88,7 @@ export class TelegramBridge {
 
       await ctx.reply(`🎯 Processing: "${text.slice(0, 100)}..."`);
       const sessionId = `telegram-${Date.now()}`;
-      this.kory.processTask(sessionId, text).catch((err) => telegramLog.error(err, "Kory task error from Telegram"));
+      this.kory.processTask(sessionId, text);
     });
   }
 
@@ -142,7 +142,7 @@ SECURITY NOTE: Commands are executed with strict security controls:
           networkDisabled: NETWORK_CMD_BLACKLIST.has(command.trim().split(/\s+/)[0]),
         };
 
-        const result = await executeInSandbox(command, requestedCwd, sandboxConfig);
+        const result = await executeInSandbox(command, requestedCwd, sandboxConfig, ctx.signal);
 
         let output = "";
         if (result.stdout) output += result.stdout;
@@ -158,17 +158,24 @@ SECURITY NOTE: Commands are executed with strict security controls:
         };
       }
 
-      // Native execution with Bun.spawn
+      // Native execution with Bun.spawn, in its own process group so that cancelling or
+      // timing out also stops whatever the command started (and releases its output pipes).
       const proc = Bun.spawn(["bash", "-c", command], {
         cwd: requestedCwd,
         stdout: "pipe",
         stderr: "pipe",
         env: { ...process.env, PATH: process.env.PATH },
+        detached: true,
       });
+      const killGroup = () => {
+        try { process.kill(-proc.pid, "SIGKILL"); } catch { proc.kill(); }
+      };
+      if (ctx.signal?.aborted) killGroup();
+      ctx.signal?.addEventListener("abort", killGroup, { once: true });
 
       const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(() => {
-          proc.kill();
+          killGroup();
           reject(new Error(`Command timed out after ${timeout ?? 120}s`));
         }, timeoutMs),
       );
@@ -212,6 +219,16 @@ SECURITY NOTE: Commands are executed with strict security controls:
           output += `\n[output truncated at ${MAX_OUTPUT_BYTES} bytes]`;
         }
 
+        if (ctx.signal?.aborted) {
+          return {
+            callId: call.id,
+            name: this.name,
+            output: `Command cancelled\n${output}`,
+            isError: true,
+            durationMs: 0,
+          };
+        }
+
         return {
           callId: call.id,
           name: this.name,
@@ -221,7 +238,11 @@ SECURITY NOTE: Commands are executed with strict security controls:
         };
       })();
 
-      return await Promise.race([outputPromise, timeoutPromise]);
+      try {
+        return await Promise.race([outputPromise, timeoutPromise]);
+      } finally {
+        ctx.signal?.removeEventListener("abort", killGroup);
+      }
     } catch (err: any) {
       return {
         callId: call.id,
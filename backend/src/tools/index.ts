@@ -1,4 +1,6 @@
 export { ToolRegistry, type Tool, type ToolContext, type ToolCallInput, type ToolCallOutput } from "./registry";
+export { PermissionEngine, AUTONOMY_PERMISSION_RULES } from "./permissions";
 export { BashTool } from "./bash";
 export { ReadFileTool, WriteFileTool, EditFileTool, GrepTool, GlobTool, LsTool, DeleteFileTool, MoveFileTool, DiffTool, PatchTool } from "./files";
 export { WebSearchTool, WebFetchTool } from "./web";
+export { RememberTool, RecallTool } from "./memory";
@@ -0,0 +1,79 @@
+import type { MemoryCategory } from "@koryphaios/shared";
+import type { Tool, ToolContext, ToolCallInput, ToolCallOutput } from "./registry";
+import { MEMORY_CATEGORIES, type IMemoryStore } from "../stores/memory-store";
+import { MEMORY } from "../constants";
+
+/**
+ * Tool for recording a durable project fact (build command, convention, decision)
+ * so later sessions start with it instead of rediscovering it.
+ */
+export class RememberTool implements Tool {
+  readonly name = "remember";
+  readonly role = "any" as const;
+  readonly description = "Save a durable fact about this project to long-term memory so future sessions know it: build/test commands, coding conventions, architectural decisions, gotchas. Keep each memory to one self-contained statement. Do not store secrets or task-specific progress.";
+  readonly inputSchema = {
+    type: "object",
+    properties: {
+      content: { type: "string", description: "The fact to remember, e.g. 'Run backend tests with `bun test` from backend/'" },
+      category: { type: "string", enum: [...MEMORY_CATEGORIES], description: "Kind of fact (default: fact)" },
+      tags: { type: "array", items: { type: "string" }, description: "Optional keywords that help recall this memory" },
+    },
+    required: ["content"],
+  };
+
+  constructor(private memory: IMemoryStore) {}
+
+  async run(ctx: ToolContext, call: ToolCallInput): Promise<ToolCallOutput> {
+    const { content, category, tags } = call.input as { content: string; category?: MemoryCategory; tags?: string[] };
+
+    if (!content?.trim()) {
+      return { callId: call.id, name: this.name, output: "Error: content is required.", isError: true, durationMs: 0 };
+    }
+    if (category && !MEMORY_CATEGORIES.includes(category)) {
+      return { callId: call.id, name: this.name, output: `Error: category must be one of ${MEMORY_CATEGORIES.join(", ")}.`, isError: true, durationMs: 0 };
+    }
+
+    const entry = this.memory.add({ content, category, tags, source: "agent", sessionId: ctx.sessionId });
+    return {
+      callId: call.id,
+      name: this.name,
+      output: `Remembered [${entry.category}] (id: ${entry.id})${content.trim().length > MEMORY.MAX_CONTENT_LENGTH ? " — truncated" : ""}.`,
+      isError: false,
+      durationMs: 0,
+    };
+  }
+}
+
+/**
+ * Tool for searching project memory beyond the entries already injected into the prompt.
+ */
+export class RecallTool implements Tool {
+  readonly name = "recall";
+  readonly role = "any" as const;
+  readonly description = "Search the project's long-term memory for facts recorded in earlier sessions (build commands, conventions, decisions). Use keywords related to what you are about to do.";
+  readonly inputSchema = {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Keywords to search for, e.g. 'test command database migrations'" },
+      limit: { type: "number", description: `Maximum results (default ${MEMORY.RECALL_LIMIT})` },
+    },
+    required: ["query"],
+  };
+
+  constructor(private memory: IMemoryStore) {}
+
+  async run(_ctx: ToolContext, call: ToolCallInput): Promise<ToolCallOutput> {
+    const { query, limit } = call.input as { query: string; limit?: number };
+    const results = this.memory.search(query ?? "", limit ?? MEMORY.RECALL_LIMIT);
+
+    return {
+      callId: call.id,
+      name: this.name,
+      output: results.length === 0
+        ? `No memories match "${query}".`
+        : results.map((e) => `- [${e.category}] ${e.content}${e.tags.length ? ` (tags: ${e.tags.join(", ")})` : ""}`).join("\n"),
+      isError: false,
+      durationMs: 0,
+    };
+  }
+}
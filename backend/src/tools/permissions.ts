@@ -0,0 +1,210 @@
+// Tool permissions — policy engine in front of tool execution.
+// Project rules are checked before the session's autonomy defaults; "ask" blocks the call
+// until a client answers the permission.request over WebSocket.
+
+import { isAbsolute, relative, resolve } from "path";
+import { nanoid } from "nanoid";
+import type {
+  AutonomyLevel,
+  PermissionAction,
+  PermissionPolicy,
+  PermissionRequest,
+  PermissionResponse,
+  PermissionRule,
+  WSMessage,
+} from "@koryphaios/shared";
+import { wsBroker } from "../pubsub";
+import { SESSION } from "../constants";
+import type { ToolCallInput, ToolContext } from "./registry";
+
+const FILE_EDIT_TOOLS = ["write_file", "edit_file", "patch", "move_file", "delete_file"];
+
+/** Checked after the project's own rules, so a project can relax or tighten them at any level. */
+export const AUTONOMY_PERMISSION_RULES: Record<AutonomyLevel, PermissionRule[]> = {
+  suggest: [{ tool: "bash", action: "ask" }, ...FILE_EDIT_TOOLS.map((tool) => ({ tool, action: "ask" as const }))],
+  auto_edit: [{ tool: "bash", action: "ask" }, { tool: "delete_file", action: "ask" }],
+  full_auto: [],
+};
+
+/** Input fields that hold file paths, across the built-in file tools. */
+const PATH_FIELDS = ["path", "source", "destination", "path_a", "path_b"];
+
+const STRICTNESS: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+export interface PermissionDecision {
+  action: PermissionAction;
+  /** The project or autonomy rule that matched; absent when the policy default applied */
+  rule?: PermissionRule;
+  /** The path that produced this decision, for calls that touch several */
+  path?: string;
+}
+
+export type PermissionVerdict = { granted: true } | { granted: false; reason: string };
+
+type PermissionEmitter = (sessionId: string, type: "permission.request" | "permission.response", payload: unknown) => void;
+
+const emitToClients: PermissionEmitter = (sessionId, type, payload) =>
+  wsBroker.publish("custom", { type, payload, timestamp: Date.now(), sessionId } satisfies WSMessage);
+
+interface PendingPermission {
+  request: PermissionRequest;
+  grantKeys: string[];
+  resolve: (response: PermissionResponse) => void;
+}
+
+/** Project-relative form of a path when it lies inside the project, else the absolute path. */
+function projectPath(path: string, workingDirectory: string): string {
+  const abs = isAbsolute(path) ? path : resolve(workingDirectory, path);
+  const rel = relative(workingDirectory, abs);
+  return rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel : abs;
+}
+
+/**
+ * Split a shell command at its control operators (`;`, `&&`, `||`, `|`, `&`, newlines, backticks,
+ * `$(` and subshell parentheses), so rules judge each program it runs rather than the whole line.
+ * Redirections such as `2>&1` are not split.
+ */
+function commandSegments(command: string): string[] {
+  return command
+    .split(/\|\||&&|;|\||\n|`|\$\(|\(|\)|(?<![<>])&(?!>)/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/** The program a command segment runs, past any leading `VAR=value` assignments. */
+function programOf(segment: string): string {
+  return segment.split(/\s+/).find((word) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) ?? segment;
+}
+
+function commandMatches(pattern: string, command: string): boolean {
+  const source = pattern.trim().split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`, "s").test(command.trim());
+}
+
+function ruleMatches(rule: PermissionRule, tool: string, path?: string, command?: string): boolean {
+  if (rule.tool && rule.tool !== "*" && rule.tool !== tool) return false;
+  if (rule.path && (path === undefined || !new Bun.Glob(rule.path).match(path))) return false;
+  if (rule.command && (command === undefined || !commandMatches(rule.command, command))) return false;
+  return true;
+}
+
+export class PermissionEngine {
+  private rules: PermissionRule[];
+  private fallback: PermissionAction;
+  private pending = new Map<string, PendingPermission>();
+  /** Rules each session answered "granted_session" for, keyed by tool and rule, and by program for bash */
+  private sessionGrants = new Map<string, Set<string>>();
+
+  constructor(
+    policy?: PermissionPolicy,
+    private autonomyOf: (sessionId: string) => AutonomyLevel = () => SESSION.DEFAULT_AUTONOMY,
+    private emit: PermissionEmitter = emitToClients,
+  ) {
+    this.rules = policy?.rules ?? [];
+    this.fallback = policy?.default ?? "allow";
+  }
+
+  /**
+   * Decide a call by policy alone. Calls touching several paths, and shell commands chaining
+   * several programs, get the strictest decision across them.
+   */
+  evaluate(call: ToolCallInput, workingDirectory: string, autonomy: AutonomyLevel = SESSION.DEFAULT_AUTONOMY): PermissionDecision {
+    const rules = [...this.rules, ...AUTONOMY_PERMISSION_RULES[autonomy]];
+    const commands = call.name === "bash" && typeof call.input.command === "string" ? commandSegments(call.input.command) : [];
+    const paths = PATH_FIELDS
+      .map((field) => call.input[field])
+      .filter((value): value is string => typeof value === "string" && value.length > 0)
+      .map((value) => projectPath(value, workingDirectory));
+
+    let decision: PermissionDecision | undefined;
+    for (const path of paths.length > 0 ? paths : [undefined]) {
+      for (const command of commands.length > 0 ? commands : [undefined]) {
+        const rule = rules.find((r) => ruleMatches(r, call.name, path, command));
+        const candidate: PermissionDecision = { action: rule?.action ?? this.fallback, rule, path };
+        if (!decision || STRICTNESS[candidate.action] > STRICTNESS[decision.action]) decision = candidate;
+      }
+    }
+    return decision!;
+  }
+
+  /** Resolve once the call may run or has been refused, asking the user when policy says so. */
+  async authorize(ctx: ToolContext, call: ToolCallInput): Promise<PermissionVerdict> {
+    const decision = this.evaluate(call, ctx.workingDirectory, this.autonomyOf(ctx.sessionId));
+    if (decision.action === "allow") return { granted: true };
+    if (decision.action === "deny") {
+      return { granted: false, reason: `Permission denied by policy: ${call.name}${decision.path ? ` on ${decision.path}` : ""}` };
+    }
+
+    // A shell grant covers the programs the user saw, not every later command.
+    const ruleKey = `${call.name}:${decision.rule ? JSON.stringify(decision.rule) : "default"}`;
+    const programs = call.name === "bash" ? commandSegments(String(call.input.command ?? "")).map(programOf) : [];
+    const grantKeys = programs.length > 0 ? [...new Set(programs)].map((program) => `${ruleKey}:${program}`) : [ruleKey];
+    const grants = this.sessionGrants.get(ctx.sessionId);
+    if (grants && grantKeys.every((key) => grants.has(key))) return { granted: true };
+
+    const response = await this.ask(ctx, call, decision, grantKeys);
+    return response === "denied"
+      ? { granted: false, reason: `Permission denied by user: ${call.name}` }
+      : { granted: true };
+  }
+
+  /** Answer a pending request. Returns false when it is unknown or already answered. */
+  respond(id: string, response: PermissionResponse): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+    this.pending.delete(id);
+
+    if (response === "granted_session") {
+      const sessionId = entry.request.sessionId;
+      let grants = this.sessionGrants.get(sessionId);
+      if (!grants) {
+        grants = new Set();
+        this.sessionGrants.set(sessionId, grants);
+      }
+      for (const key of entry.grantKeys) grants.add(key);
+    }
+    this.emit(entry.request.sessionId, "permission.response", { id, response });
+    entry.resolve(response);
+    return true;
+  }
+
+  pendingRequests(sessionId?: string): PermissionRequest[] {
+    return [...this.pending.values()]
+      .map((p) => p.request)
+      .filter((r) => !sessionId || r.sessionId === sessionId);
+  }
+
+  /** Forget a session's grants and refuse anything it is still waiting on. */
+  clearSession(sessionId: string) {
+    for (const request of this.pendingRequests(sessionId)) this.respond(request.id, "denied");
+    this.sessionGrants.delete(sessionId);
+  }
+
+  private ask(ctx: ToolContext, call: ToolCallInput, decision: PermissionDecision, grantKeys: string[]): Promise<PermissionResponse> {
+    const command = call.name === "bash" ? String(call.input.command ?? "") : undefined;
+    const request: PermissionRequest = {
+      id: nanoid(12),
+      sessionId: ctx.sessionId,
+      toolName: call.name,
+      action: command !== undefined ? "execute" : decision.path ? "access" : "call",
+      path: decision.path,
+      description: command ?? (decision.path ? `${call.name} ${decision.path}` : `Use ${call.name}`),
+      createdAt: Date.now(),
+    };
+
+    if (ctx.signal?.aborted) return Promise.resolve("denied");
+    return new Promise((resolve) => {
+      const onAbort = () => this.respond(request.id, "denied");
+      ctx.signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(request.id, {
+        request,
+        grantKeys,
+        resolve: (response) => {
+          ctx.signal?.removeEventListener("abort", onAbort);
+          resolve(response);
+        },
+      });
+      this.emit(ctx.sessionId, "permission.request", request);
+    });
+  }
+}
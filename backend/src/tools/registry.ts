@@ -2,6 +2,7 @@
 // Ported from OpenCode's tools/tools.go pattern.
 
 import type { ChangeSummary } from "@koryphaios/shared";
+import type { PermissionEngine } from "./permissions";
 
 export interface ToolContext {
   sessionId: string;
@@ -48,6 +49,9 @@ export interface Tool {
 export class ToolRegistry {
   private tools = new Map<string, Tool>();
 
+  /** Without a permission engine every registered tool runs unconditionally. */
+  constructor(private permissions?: PermissionEngine) {}
+
   register(tool: Tool) {
     this.tools.set(tool.name, tool);
   }
@@ -83,6 +87,13 @@ export class ToolRegistry {
       };
     }
 
+    if (this.permissions) {
+      const verdict = await this.permissions.authorize(ctx, call);
+      if (!verdict.granted) {
+        return { callId: call.id, name: call.name, output: verdict.reason, isError: true, durationMs: 0 };
+      }
+    }
+
     const start = performance.now();
     try {
       const result = await tool.run(ctx, call);
@@ -0,0 +1,65 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { checkBudget, describeBudgetBreach } from "../src/kory/budget";
+import { validateConfig } from "../src/config-schema";
+import { initDb } from "../src/db/sqlite";
+import { SpendStore, spendDay } from "../src/stores/spend-store";
+import { loadConfig } from "../src/runtime/config";
+
+const spend = { taskUsd: 0, sessionUsd: 0, dailyUsd: 0 };
+
+describe("checkBudget", () => {
+  test("ignores unset limits", () => {
+    expect(checkBudget(undefined, { ...spend, sessionUsd: 100 })).toEqual([]);
+    expect(checkBudget({ maxTaskUsd: 1 }, { ...spend, sessionUsd: 100 })).toEqual([]);
+  });
+
+  test("reports soft breaches past the ratio and hard breaches at the limit, hard first", () => {
+    const breaches = checkBudget({ maxTaskUsd: 1, maxSessionUsd: 10, softLimitRatio: 0.5 }, { ...spend, taskUsd: 0.6, sessionUsd: 10 });
+    expect(breaches).toEqual([
+      { scope: "session", level: "hard", spent: 10, limit: 10 },
+      { scope: "task", level: "soft", spent: 0.6, limit: 1 },
+    ]);
+  });
+
+  test("only checks worker tokens for worker calls", () => {
+    expect(checkBudget({ maxWorkerTokens: 1000 }, spend)).toEqual([]);
+    expect(checkBudget({ maxWorkerTokens: 1000 }, { ...spend, workerTokens: 850 })).toEqual([{ scope: "worker", level: "soft", spent: 850, limit: 1000 }]);
+  });
+
+  test("describes breaches for the user", () => {
+    expect(describeBudgetBreach({ scope: "daily", level: "soft", spent: 4.5, limit: 5 })).toBe("Daily budget: $4.50 of $5.00 spent");
+  });
+});
+
+test("validateConfig rejects invalid budgets", () => {
+  const config = { ...loadConfig(tmpdir()), budgets: { maxSessionUsd: -1, softLimitRatio: 2 } };
+  expect(() => validateConfig(config)).toThrow(/budgets\.maxSessionUsd.*budgets\.softLimitRatio/);
+});
+
+describe("SpendStore", () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(join(tmpdir(), "kory-spend-"));
+    initDb(dataDir);
+  });
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test("accumulates spend per day", () => {
+    const store = new SpendStore();
+    store.add("2026-01-01", 0.25, 100);
+    store.add("2026-01-01", 0.5, 50);
+    expect(store.get("2026-01-01")).toEqual({ day: "2026-01-01", cost: 0.75, tokens: 150 });
+    expect(store.get("2026-01-02").cost).toBe(0);
+  });
+
+  test("spendDay formats the local date", () => {
+    expect(spendDay(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync, unlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ChangeJournal, writtenPaths } from "../src/kory/change-journal";
+import { CheckpointStore } from "../src/kory/checkpoints";
+
+let project: string;
+let journal: ChangeJournal;
+
+/** Write a file the way an agent's tool call would, journaled. */
+function agentWrite(path: string, content: string | null) {
+  const abs = join(project, path);
+  journal.before("s1", [abs]);
+  if (content === null) unlinkSync(abs);
+  else writeFileSync(abs, content);
+  journal.after("s1", [abs]);
+}
+
+const read = (path: string) => readFileSync(join(project, path), "utf-8");
+
+beforeEach(() => {
+  project = mkdtempSync(join(tmpdir(), "kory-journal-"));
+  writeFileSync(join(project, "app.ts"), "one\ntwo\nthree\nfour\nfive\n");
+  writeFileSync(join(project, "notes.md"), "user notes\n");
+  journal = new ChangeJournal(project);
+});
+
+describe("ChangeJournal", () => {
+  test("finds the paths file-writing tools touch", () => {
+    expect(writtenPaths({ id: "1", name: "move_file", input: { source: "a.ts", destination: "/abs/b.ts" } }, project))
+      .toEqual([join(project, "a.ts"), "/abs/b.ts"]);
+    expect(writtenPaths({ id: "2", name: "read_file", input: { path: "a.ts" } }, project)).toEqual([]);
+  });
+
+  test("reverts only the files agents wrote and leaves unrelated work alone", () => {
+    agentWrite("app.ts", "one\nTWO\nthree\nfour\nfive\n");
+    agentWrite("created.ts", "export {};\n");
+    agentWrite("app.ts", "one\nTWO\nthree\nfour\nFIVE\n");
+    writeFileSync(join(project, "notes.md"), "user notes, edited meanwhile\n");
+    writeFileSync(join(project, "scratch.txt"), "untracked user file\n");
+
+    const preview = journal.preview("s1");
+    expect(preview.map((e) => [e.path, e.action])).toEqual([["app.ts", "restore"], ["created.ts", "delete"]]);
+    expect(preview[0].diff).toContain("-TWO");
+    expect(preview[0].diff).toContain("+two");
+
+    expect(journal.revert("s1")).toEqual({ reverted: ["app.ts", "created.ts"], conflicts: [], kept: [] });
+    expect(read("app.ts")).toBe("one\ntwo\nthree\nfour\nfive\n");
+    expect(existsSync(join(project, "created.ts"))).toBe(false);
+    expect(read("notes.md")).toBe("user notes, edited meanwhile\n");
+    expect(read("scratch.txt")).toBe("untracked user file\n");
+    expect(journal.has("s1")).toBe(false);
+  });
+
+  test("brings back files the agent deleted", () => {
+    agentWrite("notes.md", null);
+    expect(journal.revert("s1").reverted).toEqual(["notes.md"]);
+    expect(read("notes.md")).toBe("user notes\n");
+  });
+
+  test("undoes only the agent's part of a file the user edited afterwards", () => {
+    agentWrite("app.ts", "one\nTWO\nthree\nfour\nfive\n");
+    writeFileSync(join(project, "app.ts"), "one\nTWO\nthree\nfour\nfive, by the user\n");
+
+    expect(journal.preview("s1")[0]).toMatchObject({ path: "app.ts", action: "merge", conflict: false });
+    journal.revert("s1");
+    expect(read("app.ts")).toBe("one\ntwo\nthree\nfour\nfive, by the user\n");
+  });
+
+  test("leaves conflict markers where the user's edits overlap the agent's", () => {
+    agentWrite("app.ts", "one\nTWO\nthree\nfour\nfive\n");
+    writeFileSync(join(project, "app.ts"), "one\nTWO, by the user\nthree\nfour\nfive\n");
+
+    expect(journal.revert("s1")).toEqual({ reverted: ["app.ts"], conflicts: ["app.ts"], kept: [] });
+    expect(read("app.ts")).toContain("<<<<<<< yours");
+  });
+
+  test("keeps agent-created files the user has since edited", () => {
+    agentWrite("created.ts", "export {};\n");
+    writeFileSync(join(project, "created.ts"), "export const mine = true;\n");
+
+    expect(journal.preview("s1")[0]).toMatchObject({ action: "keep", reason: "Created by the agent and edited by you since" });
+    expect(journal.revert("s1").kept).toEqual(["created.ts"]);
+    expect(read("created.ts")).toBe("export const mine = true;\n");
+  });
+
+  test("journals what a shell command changed, from a capture taken before it ran", async () => {
+    agentWrite("app.ts", "one\nTWO\nthree\nfour\nfive\n");
+    const checkpoints = new CheckpointStore(project);
+    const before = await checkpoints.capture();
+    writeFileSync(join(project, "app.ts"), "one\nTWO\nthree\nfour\nFIVE\n");
+    writeFileSync(join(project, "generated.ts"), "export {};\n");
+    unlinkSync(join(project, "notes.md"));
+
+    const changed = await checkpoints.changedSince(before);
+    journal.record("s1", changed.map(({ path, before }) => ({ path: join(project, path), original: before })));
+
+    expect(journal.summarize("s1").map((c) => [c.path, c.operation])).toEqual([
+      [join(project, "app.ts"), "edit"],
+      [join(project, "generated.ts"), "create"],
+      [join(project, "notes.md"), "delete"],
+    ]);
+    expect(journal.revert("s1").reverted).toEqual(["app.ts", "generated.ts", "notes.md"]);
+    // The file-tool write before the command keeps its original, so both edits are undone.
+    expect(read("app.ts")).toBe("one\ntwo\nthree\nfour\nfive\n");
+    expect(existsSync(join(project, "generated.ts"))).toBe(false);
+    expect(read("notes.md")).toBe("user notes\n");
+  });
+
+  describe("per-file and per-hunk review", () => {
+    const original = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+    const edited = original.replace("line 2\n", "line 2 (agent)\n").replace("line 11\n", "line 11 (agent)\n");
+
+    beforeEach(() => writeFileSync(join(project, "app.ts"), original));
+
+    test("summarizes each pending file with its hunks", () => {
+      agentWrite("app.ts", edited);
+      agentWrite("created.ts", "export {};\n");
+
+      const [edit, create] = journal.summarize("s1");
+      expect(edit).toMatchObject({ path: join(project, "app.ts"), operation: "edit", linesAdded: 2, linesDeleted: 2 });
+      expect(edit.hunks!.map((h) => h.lines.filter((l) => l[0] === "+"))).toEqual([["+line 2 (agent)"], ["+line 11 (agent)"]]);
+      expect(create).toMatchObject({ operation: "create", linesAdded: 1 });
+      expect(create.hunks).toBeUndefined();
+    });
+
+    test("rejecting a hunk reverts just that edit in the working tree", () => {
+      agentWrite("app.ts", edited);
+      const [{ hunks }] = journal.summarize("s1");
+
+      journal.reject("s1", join(project, "app.ts"), 1, hunks![1].header);
+      expect(read("app.ts")).toBe(original.replace("line 2\n", "line 2 (agent)\n"));
+      expect(journal.summarize("s1")[0].hunks).toHaveLength(1);
+    });
+
+    test("an accepted hunk survives rejecting the rest", () => {
+      agentWrite("app.ts", edited);
+      const [{ hunks }] = journal.summarize("s1");
+
+      journal.accept("s1", join(project, "app.ts"), 0, hunks![0].header);
+      expect(journal.summarize("s1")[0].hunks!.map((h) => h.header)).toEqual([hunks![1].header]);
+      journal.revert("s1");
+      expect(read("app.ts")).toBe(original.replace("line 2\n", "line 2 (agent)\n"));
+    });
+
+    test("refuses a hunk the reviewer saw before the file changed", () => {
+      agentWrite("app.ts", edited);
+      expect(() => journal.reject("s1", join(project, "app.ts"), 0, "@@ -1,1 +1,1 @@")).toThrow("changed since it was shown");
+    });
+
+    test("reviews whole files independently", () => {
+      agentWrite("app.ts", edited);
+      agentWrite("created.ts", "export {};\n");
+
+      journal.reject("s1", join(project, "created.ts"));
+      journal.accept("s1", join(project, "app.ts"));
+      expect(existsSync(join(project, "created.ts"))).toBe(false);
+      expect(read("app.ts")).toBe(edited);
+      expect(journal.summarize("s1")).toEqual([]);
+    });
+  });
+});
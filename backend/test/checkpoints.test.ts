@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { spawnSync } from "bun";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CheckpointStore } from "../src/kory/checkpoints";
+import { CHECKPOINT } from "../src/constants";
+
+const git = (cwd: string, ...args: string[]) => spawnSync(["git", ...args], { cwd }).stdout.toString().trim();
+
+for (const kind of ["git", "plain"] as const) {
+  describe(`CheckpointStore (${kind} directory)`, () => {
+    let project: string;
+    let store: CheckpointStore;
+    const read = (path: string) => readFileSync(join(project, path), "utf-8");
+
+    beforeEach(() => {
+      project = mkdtempSync(join(tmpdir(), "kory-checkpoints-"));
+      writeFileSync(join(project, "app.ts"), "export const value = 1;\n");
+      if (kind === "git") {
+        git(project, "init", "-q", "-b", "main");
+        git(project, "config", "user.name", "Test");
+        git(project, "config", "user.email", "test@example.com");
+        git(project, "add", ".");
+        git(project, "commit", "-qm", "initial");
+      }
+      store = new CheckpointStore(project);
+    });
+
+    test("records a restore point only when files changed", async () => {
+      const first = (await store.record("s1", "Before: add feature"))!;
+      expect(first.changedFiles).toEqual([]);
+      expect(await store.record("s1", "Read-only turn")).toBeNull();
+
+      mkdirSync(join(project, "src"));
+      writeFileSync(join(project, "src/feature.ts"), "export {};\n");
+      const second = (await store.record("s1", "Worker turn 1", "worker-1"))!;
+      expect(second).toMatchObject({ label: "Worker turn 1", agentId: "worker-1", changedFiles: ["src/feature.ts"] });
+      expect((await store.list("s1")).map((c) => c.id)).toEqual([first.id, second.id]);
+      expect(await store.list("s2")).toEqual([]);
+    });
+
+    test("diffs a checkpoint against the previous one and against the working tree", async () => {
+      await store.record("s1", "Before");
+      writeFileSync(join(project, "app.ts"), "export const value = 2;\n");
+      const edited = (await store.record("s1", "Edit"))!;
+
+      const [change] = await store.diff("s1", edited.id);
+      expect(change).toMatchObject({ path: "app.ts", status: "modified" });
+      expect(change.diff).toContain("-export const value = 1;");
+      expect(change.diff).toContain("+export const value = 2;");
+
+      writeFileSync(join(project, "extra.ts"), "export {};\n");
+      expect((await store.diff("s1", edited.id, "current")).map((c) => [c.path, c.status])).toEqual([["extra.ts", "deleted"]]);
+    });
+
+    test("restores any point, removing files created after it, and can undo the restore", async () => {
+      const before = (await store.record("s1", "Before"))!;
+      writeFileSync(join(project, "app.ts"), "export const value = 2;\n");
+      writeFileSync(join(project, "created.ts"), "export {};\n");
+      await store.record("s1", "Worker turn");
+
+      const result = await store.restore("s1", before.id);
+      expect(result).toMatchObject({ written: ["app.ts"], removed: ["created.ts"] });
+      expect(read("app.ts")).toBe("export const value = 1;\n");
+      expect(existsSync(join(project, "created.ts"))).toBe(false);
+
+      await store.restore("s1", result.undo!.id);
+      expect(read("app.ts")).toBe("export const value = 2;\n");
+      expect(read("created.ts")).toBe("export {};\n");
+    });
+
+    test("leaves out ignored files and files over the size limit", async () => {
+      await store.record("s1", "Before");
+      writeFileSync(join(project, ".gitignore"), "dist/\n*.log\n");
+      mkdirSync(join(project, "dist"));
+      writeFileSync(join(project, "dist/bundle.js"), "built();\n");
+      writeFileSync(join(project, "debug.log"), "noise\n");
+      writeFileSync(join(project, "video.bin"), Buffer.alloc(CHECKPOINT.MAX_FILE_BYTES + 1));
+      writeFileSync(join(project, "app.ts"), "export const value = 2;\n");
+
+      const edited = (await store.record("s1", "Build"))!;
+      expect(edited.changedFiles).toEqual([".gitignore", "app.ts"]);
+    });
+
+    test("forgets a session's timeline", async () => {
+      await store.record("s1", "Before");
+      await store.drop("s1");
+      expect(await store.list("s1")).toEqual([]);
+    });
+  });
+}
+
+test("git checkpoints stay out of the user's index, branches and log", async () => {
+  const project = mkdtempSync(join(tmpdir(), "kory-checkpoints-"));
+  git(project, "init", "-q", "-b", "main");
+  git(project, "config", "user.name", "Test");
+  git(project, "config", "user.email", "test@example.com");
+  writeFileSync(join(project, "app.ts"), "export const value = 1;\n");
+  git(project, "add", ".");
+  git(project, "commit", "-qm", "initial");
+  writeFileSync(join(project, "untracked.ts"), "export {};\n");
+
+  const checkpoint = (await new CheckpointStore(project).record("s1", "Before"))!;
+  expect(git(project, "status", "--porcelain")).toBe("?? untracked.ts");
+  expect(git(project, "log", "--format=%s")).toBe("initial");
+  expect(git(project, "branch", "--list")).toBe("* main");
+  expect(git(project, "rev-parse", "refs/koryphaios/checkpoints/s1/000000")).toBe(checkpoint.id);
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { parseClarificationDecision, resolveClarificationDecision } from "../src/kory/manager";
+import { foldClarification, parseClarificationDecision, resolveClarificationDecision, shouldClarify } from "../src/kory/manager";
 
 describe("clarification gate decision parsing", () => {
   test("parses a valid proceed payload", () => {
@@ -48,3 +48,44 @@ describe("clarification gate decision parsing", () => {
     expect(decision).toBeNull();
   });
 });
+
+describe("clarification folding", () => {
+  const decision = {
+    action: "clarify" as const,
+    questions: ["Which database should it use?", "Existing project or new?"],
+    reason: "Storage is unspecified",
+    assumptions: ["Use SQLite"],
+  };
+
+  test("folds answered questions into the request", () => {
+    expect(foldClarification("Add a todo API", decision, ["Postgres", "Existing"])).toBe(
+      "Add a todo API\n\nClarifications:\n- Q: Which database should it use?\n  A: Postgres\n- Q: Existing project or new?\n  A: Existing",
+    );
+  });
+
+  test("keeps the assumptions when a question is left blank", () => {
+    expect(foldClarification("Add a todo API", decision, ["", "Existing"])).toBe(
+      "Add a todo API\n\nClarifications:\n- Q: Existing project or new?\n  A: Existing\n\nAssumptions:\n- Use SQLite",
+    );
+    expect(foldClarification("Add a todo API", decision, [])).toBe("Add a todo API\n\nAssumptions:\n- Use SQLite");
+  });
+});
+
+describe("when to run the clarification gate", () => {
+  test("runs for substantive requests", () => {
+    expect(shouldClarify("Add a settings page for notifications")).toBe(true);
+    expect(shouldClarify("Thanks, now also add a logout button to the navbar and the mobile menu")).toBe(true);
+  });
+
+  test("skips short messages and chat", () => {
+    expect(shouldClarify("run the tests")).toBe(false);
+    expect(shouldClarify("Thanks, that's what I wanted")).toBe(false);
+    expect(shouldClarify("hey, how is it going today?")).toBe(false);
+  });
+
+  test("skips replies to a question Kory just asked", () => {
+    const question = "Should the cache live in Redis or in process memory?";
+    expect(shouldClarify("In process memory, we only run one instance", question)).toBe(false);
+    expect(shouldClarify("In process memory, we only run one instance", "Done. The cache is in place.")).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from "bun:test";
+import type { ToolName } from "@koryphaios/shared";
+import { compactMessages, contextLimitFor, estimateTokens, shouldCompact, splitForCompaction } from "../src/kory/compaction";
+import { textTurn, turnText, type ConversationTurn } from "../src/kory/conversation";
+import { COMPACTION } from "../src/constants";
+
+function toolResults(...outputs: string[]): ConversationTurn {
+  return {
+    role: "user",
+    content: outputs.map((output, i) => ({
+      type: "tool_result" as const,
+      toolResult: { callId: `c${i}`, name: "bash" as ToolName, output, isError: false, durationMs: 1 },
+    })),
+  };
+}
+
+const conversation: ConversationTurn[] = [
+  textTurn("user", "Add a health endpoint"),
+  textTurn("assistant", "Reading server.ts"),
+  toolResults("file contents"),
+  textTurn("assistant", "Editing server.ts"),
+  toolResults("edit ok"),
+  toolResults("tests pass"),
+  textTurn("assistant", "Done"),
+];
+
+describe("splitForCompaction", () => {
+  test("never starts the kept tail with an orphaned tool result", () => {
+    const split = splitForCompaction(conversation, 3)!;
+    expect(turnText(split.recent[0]!)).toBe("Editing server.ts");
+    expect(split.older).toHaveLength(3);
+  });
+
+  test("returns null when there is too little history to summarize", () => {
+    expect(splitForCompaction(conversation.slice(0, 3), 2)).toBeNull();
+  });
+});
+
+describe("compactMessages", () => {
+  test("replaces older turns with a summary and keeps recent turns verbatim", async () => {
+    let seen = "";
+    const compacted = await compactMessages(conversation, async (transcript) => {
+      seen = transcript;
+      return "User wants a health endpoint; server.ts was read.";
+    }, 3);
+
+    expect(seen).toContain("[user] Add a health endpoint");
+    expect(seen).not.toContain("Editing server.ts");
+    expect(compacted![0]!.role).toBe("user");
+    expect(turnText(compacted![0]!)).toContain("server.ts was read");
+    expect(compacted!.slice(1)).toEqual(conversation.slice(3));
+  });
+
+  test("merges the summary into a leading user turn", async () => {
+    const messages = [textTurn("user", "a"), textTurn("assistant", "b"), textTurn("user", "continue"), textTurn("assistant", "c")];
+    const compacted = await compactMessages(messages, async () => "summary", 2);
+    expect(compacted).toHaveLength(2);
+    expect(compacted![0]!.content.map((b) => b.text)).toEqual([expect.stringContaining("summary"), "continue"]);
+  });
+
+  test("leaves the conversation alone when the summary is empty", async () => {
+    expect(await compactMessages(conversation, async () => "  ", 3)).toBeNull();
+  });
+});
+
+describe("thresholds", () => {
+  test("estimates tokens and compares against the threshold", () => {
+    expect(estimateTokens([textTurn("user", "x".repeat(400))])).toBe(100);
+    expect(shouldCompact(79, 100, 0.8)).toBe(false);
+    expect(shouldCompact(80, 100, 0.8)).toBe(true);
+  });
+
+  test("falls back to a default window for unknown models", () => {
+    expect(contextLimitFor("not-a-real-model", "openai")).toBe(COMPACTION.FALLBACK_CONTEXT_WINDOW);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { formatContextFiles, loadContextFiles, mentionedPaths, relevantDirectories } from "../src/kory/context-files";
+import { CONTEXT_FILES } from "../src/constants";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "kory-context-"));
+  mkdirSync(join(root, "backend/src"), { recursive: true });
+  mkdirSync(join(root, "frontend"), { recursive: true });
+  writeFileSync(join(root, "AGENTS.md"), "Use bun.");
+  writeFileSync(join(root, "backend/CLAUDE.md"), "Backend uses pino.");
+  writeFileSync(join(root, "frontend/CLAUDE.md"), "Frontend uses runes.");
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("relevantDirectories", () => {
+  test("walks from the root down to each touched directory", () => {
+    expect(relevantDirectories(root, ["backend/src/server.ts", "backend/src/new/file.ts"])).toEqual(["", "backend", "backend/src"]);
+  });
+
+  test("ignores paths outside the project root", () => {
+    expect(relevantDirectories(root, ["../elsewhere/file.ts", "/etc/passwd"])).toEqual([""]);
+  });
+});
+
+describe("loadContextFiles", () => {
+  test("loads root files first and only the directories asked for", () => {
+    const files = loadContextFiles(root, ["CLAUDE.md", "AGENTS.md"], ["", "backend"]);
+    expect(files.map((f) => f.path)).toEqual(["AGENTS.md", "backend/CLAUDE.md"]);
+    expect(files[1]).toMatchObject({ content: "Backend uses pino.", truncated: false });
+  });
+
+  test("skips context paths that escape the root", () => {
+    expect(loadContextFiles(join(root, "backend"), ["../AGENTS.md"])).toEqual([]);
+  });
+
+  test("caps file size", () => {
+    writeFileSync(join(root, "CONVENTIONS.md"), "x".repeat(CONTEXT_FILES.MAX_FILE_CHARS + 10));
+    const [file] = loadContextFiles(root, ["CONVENTIONS.md"]);
+    expect(file).toMatchObject({ chars: CONTEXT_FILES.MAX_FILE_CHARS, truncated: true });
+    expect(formatContextFiles([file!])).toContain("--- CONVENTIONS.md (truncated) ---");
+  });
+});
+
+test("mentionedPaths finds path-like tokens", () => {
+  expect(mentionedPaths("Fix `backend/src/server.ts` and ./frontend/src then run tests")).toEqual(["backend/src/server.ts", "./frontend/src"]);
+});
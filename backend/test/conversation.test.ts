@@ -0,0 +1,69 @@
+import { describe, test, expect } from "bun:test";
+import type { StoredMessage, ToolName } from "@koryphaios/shared";
+import { parseStoredContent, storedToTurn, textTurn, toProviderMessages, trimToTurnBoundary, type ConversationTurn } from "../src/kory/conversation";
+
+const call = { id: "call-1", name: "read_file" as ToolName, input: { path: "a.ts" } };
+const result = { callId: "call-1", name: "read_file" as ToolName, output: "export {}", isError: false, durationMs: 3 };
+
+const toolTurns: ConversationTurn[] = [
+  textTurn("user", "Read a.ts"),
+  { role: "assistant", content: [{ type: "thinking", thinking: "Need the file" }, { type: "text", text: "Reading" }, { type: "tool_use", toolCall: call }] },
+  { role: "user", content: [{ type: "tool_result", toolResult: result }] },
+  textTurn("assistant", "It is empty"),
+];
+
+describe("toProviderMessages", () => {
+  test("replays tool calls and results as provider blocks and drops thinking", () => {
+    const messages = toProviderMessages(toolTurns);
+
+    expect(messages).toHaveLength(4);
+    expect(messages[0]).toEqual({ role: "user", content: "Read a.ts" });
+    expect(messages[1]).toEqual({
+      role: "assistant",
+      content: [
+        { type: "text", text: "Reading" },
+        { type: "tool_use", toolCallId: "call-1", toolName: "read_file", toolInput: { path: "a.ts" } },
+      ],
+    });
+    expect(messages[2]).toEqual({
+      role: "user",
+      content: [{ type: "tool_result", toolCallId: "call-1", toolOutput: "export {}", isError: false }],
+    });
+  });
+
+  test("drops tool calls whose results were never recorded", () => {
+    const interrupted = toolTurns.slice(0, 2);
+    expect(toProviderMessages(interrupted)[1]).toEqual({ role: "assistant", content: "Reading" });
+  });
+
+  test("merges adjacent user turns but keeps tool results separate", () => {
+    const messages = toProviderMessages([
+      textTurn("user", "original request"),
+      textTurn("user", "worker instruction"),
+      ...toolTurns.slice(1),
+    ]);
+    expect(messages[0]).toEqual({ role: "user", content: "original request\n\nworker instruction" });
+    expect(messages).toHaveLength(4);
+  });
+});
+
+describe("stored history", () => {
+  test("parses structured and legacy message content", () => {
+    expect(parseStoredContent(JSON.stringify(toolTurns[1]!.content))).toEqual(toolTurns[1]!.content);
+    expect(parseStoredContent("plain answer")).toEqual([{ type: "text", text: "plain answer" }]);
+    expect(parseStoredContent("[1, 2]")).toEqual([{ type: "text", text: "[1, 2]" }]);
+  });
+
+  test("restores turns and trims a window that starts mid-exchange", () => {
+    const stored: StoredMessage[] = toolTurns.map((turn, i) => ({
+      id: `m${i}`,
+      sessionId: "s",
+      role: turn.role,
+      content: JSON.stringify(turn.content),
+      createdAt: i,
+    }));
+    const turns = stored.slice(2).map((m) => storedToTurn(m)!);
+    expect(trimToTurnBoundary(turns)).toEqual([]);
+    expect(trimToTurnBoundary(stored.map((m) => storedToTurn(m)!))).toEqual(toolTurns);
+  });
+});
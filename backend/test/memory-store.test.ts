@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MemoryStore, formatMemoriesForPrompt, selectPromptMemories } from "../src/stores/memory-store";
+import { RememberTool, RecallTool } from "../src/tools/memory";
+
+let dir: string;
+let store: MemoryStore;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "kory-memory-"));
+  store = new MemoryStore(dir);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("MemoryStore", () => {
+  test("stores one file per entry and round-trips it", () => {
+    const entry = store.add({ content: "Run tests with `bun test` from backend/", category: "build", tags: ["Tests"], source: "user" });
+    expect(readdirSync(dir)).toEqual([`${entry.id}.json`]);
+    expect(new MemoryStore(dir).get(entry.id)).toEqual(entry);
+    expect(entry.tags).toEqual(["tests"]);
+  });
+
+  test("refreshes an identical fact instead of duplicating it", () => {
+    const first = store.add({ content: "Use pino for logging", source: "agent" });
+    const again = store.add({ content: "use pino for logging ", category: "convention", source: "agent" });
+    expect(again.id).toBe(first.id);
+    expect(again.category).toBe("convention");
+    expect(store.list()).toHaveLength(1);
+  });
+
+  test("updates and deletes entries, rejecting unsafe ids", () => {
+    const entry = store.add({ content: "Old", source: "user" });
+    expect(store.update(entry.id, { content: "New" })?.content).toBe("New");
+    expect(store.get("../etc/passwd")).toBeUndefined();
+    expect(store.delete("../etc/passwd")).toBe(false);
+    expect(store.delete(entry.id)).toBe(true);
+    expect(store.list()).toEqual([]);
+  });
+
+  test("search ranks by keyword overlap and skips unrelated entries", () => {
+    store.add({ content: "Database migrations live in backend/src/db/migrations.ts", category: "convention", source: "agent" });
+    store.add({ content: "Frontend uses Svelte 5 runes", source: "agent" });
+    store.add({ content: "Migrations must be append-only; never edit an applied database migration", category: "decision", source: "agent" });
+    const results = store.search("where do database migrations live?");
+    expect(results.map((e) => e.category)).toEqual(["convention", "decision"]);
+  });
+});
+
+describe("prompt memories", () => {
+  test("includes everything while memory is small", () => {
+    store.add({ content: "Frontend uses Svelte 5 runes", source: "agent" });
+    expect(selectPromptMemories(store, "unrelated")).toHaveLength(1);
+    expect(formatMemoriesForPrompt(store.list())).toContain("- [fact] Frontend uses Svelte 5 runes");
+    expect(formatMemoriesForPrompt([])).toBe("");
+  });
+
+  test("ranks larger memories, keeping build and convention entries eligible", () => {
+    for (let i = 0; i < 5; i++) store.add({ content: `Unrelated fact number ${i}`, source: "agent" });
+    store.add({ content: "Type-check with bun run typecheck", category: "build", source: "agent" });
+    store.add({ content: "Websocket events are declared in shared", source: "agent" });
+    const selected = selectPromptMemories(store, "add a websocket event", 2);
+    expect(selected.map((e) => e.content)).toEqual(["Websocket events are declared in shared", "Type-check with bun run typecheck"]);
+  });
+});
+
+describe("remember / recall tools", () => {
+  const ctx = { sessionId: "s1", workingDirectory: "/tmp" };
+
+  test("remember records an agent memory for the session", async () => {
+    const out = await new RememberTool(store).run(ctx, { id: "c1", name: "remember", input: { content: "Lint with eslint", category: "build" } });
+    expect(out.isError).toBe(false);
+    expect(store.list()[0]).toMatchObject({ content: "Lint with eslint", source: "agent", sessionId: "s1" });
+  });
+
+  test("remember rejects unknown categories", async () => {
+    const out = await new RememberTool(store).run(ctx, { id: "c1", name: "remember", input: { content: "x", category: "secret" } });
+    expect(out.isError).toBe(true);
+  });
+
+  test("recall returns matching memories", async () => {
+    store.add({ content: "Lint with eslint", category: "build", source: "user" });
+    const tool = new RecallTool(store);
+    expect((await tool.run(ctx, { id: "c1", name: "recall", input: { query: "eslint" } })).output).toContain("[build] Lint with eslint");
+    expect((await tool.run(ctx, { id: "c2", name: "recall", input: { query: "docker" } })).output).toContain("No memories");
+  });
+});
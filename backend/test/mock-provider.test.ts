@@ -0,0 +1,255 @@
+import { describe, test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ChangeSummary, KoryPlanPayload, KoryphaiosConfig, WSMessage } from "@koryphaios/shared";
+import { MockProvider, loadMockScript, type MockScript } from "../src/providers/mock";
+import { ProviderRegistry } from "../src/providers/registry";
+import type { ProviderEvent, StreamRequest } from "../src/providers/types";
+import { KoryManager } from "../src/kory/manager";
+import { ToolRegistry } from "../src/tools/registry";
+import { ReadFileTool, WriteFileTool } from "../src/tools/files";
+import { BashTool } from "../src/tools/bash";
+import { initDb, getDb } from "../src/db/sqlite";
+import { wsBroker } from "../src/pubsub";
+
+const FIXTURE = join(import.meta.dir, "fixtures/mock-provider/add-hello.json");
+
+function request(prompt: string, systemPrompt = ""): StreamRequest {
+  return { model: "mock-model", systemPrompt, messages: [{ role: "user", content: prompt }] };
+}
+
+async function collect(stream: AsyncGenerator<ProviderEvent>): Promise<ProviderEvent[]> {
+  const events: ProviderEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+function mockConfig(script: string): KoryphaiosConfig {
+  return {
+    providers: {
+      mock: { name: "mock", baseUrl: script, disabled: false },
+      // An explicit key keeps the Vertex provider from shelling out to gcloud during availability checks.
+      vertexai: { name: "vertexai", apiKey: "test-key", disabled: false },
+    },
+    agents: { manager: { model: "mock-model" }, coder: { model: "mock-model" }, task: { model: "mock-model" } },
+    server: { port: 3000, host: "localhost" },
+    dataDirectory: ".koryphaios-test",
+  };
+}
+
+describe("MockProvider", () => {
+  const provider = (script: MockScript) => new MockProvider({ name: "mock", disabled: false }, script);
+
+  test("expands shorthand events and completes the turn", async () => {
+    const events = await collect(provider({
+      steps: [{ events: [{ text: "Reading it." }, { tool: "read_file", input: { path: "a.ts" }, id: "call-1" }] }],
+    }).streamResponse(request("look at a.ts")));
+
+    expect(events).toEqual([
+      { type: "content_delta", content: "Reading it." },
+      { type: "tool_use_start", toolCallId: "call-1", toolName: "read_file" },
+      { type: "tool_use_delta", toolCallId: "call-1", toolName: "read_file", toolInput: '{"path":"a.ts"}' },
+      { type: "tool_use_stop", toolCallId: "call-1", toolName: "read_file", toolInput: '{"path":"a.ts"}' },
+      { type: "usage_update", tokensIn: 3, tokensOut: 3 },
+      { type: "complete", finishReason: "tool_use" },
+    ]);
+  });
+
+  test("matches steps by prompt, system prompt and turn, using each once unless repeated", async () => {
+    const mock = provider({
+      steps: [
+        { turn: 0, events: [{ text: "first call" }] },
+        { system: "critic", repeat: true, events: [{ text: "PASS" }] },
+        { prompt: "deploy", events: [{ text: "deploying" }] },
+      ],
+    });
+    const text = async (req: StreamRequest) => (await collect(mock.streamResponse(req))).map((e) => e.content ?? e.error ?? "").join("");
+
+    expect(await text(request("deploy"))).toBe("first call");
+    expect(await text(request("deploy"))).toBe("deploying");
+    expect(await text(request("anything", "You are the critic"))).toBe("PASS");
+    expect(await text(request("again", "You are the critic"))).toBe("PASS");
+    expect(await text(request("deploy"))).toBe('Mock provider has no scripted response for call 4: "deploy"');
+    expect(mock.requests).toHaveLength(5);
+  });
+
+  test("is available only with a script and loads fixtures from disk", () => {
+    expect(new MockProvider({ name: "mock", disabled: false }).isAvailable()).toBe(false);
+    expect(new MockProvider({ name: "mock", baseUrl: FIXTURE, disabled: false }).isAvailable()).toBe(true);
+    expect(loadMockScript(join(import.meta.dir, "fixtures/mock-provider")).steps).toHaveLength(10);
+  });
+
+  test("a scripted 429 is a quota error: not retried, and the registry moves down the fallback chain", async () => {
+    const registry = new ProviderRegistry(mockConfig(FIXTURE));
+    const mock = provider({ steps: [{ events: [{ status: 429 }] }] });
+    registry["providers"].set("mock", mock);
+
+    const events = await collect(registry.executeWithRetry(request("hi"), "mock", ["gpt-4.1-mini"]));
+    expect(events).toEqual([{
+      type: "error",
+      error: "All models failed: mock-model: HTTP 429: Rate limit exceeded; gpt-4.1-mini: no available provider",
+    }]);
+    expect(mock.requests).toHaveLength(1);
+  });
+});
+
+describe("orchestration against the mock provider", () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(join(tmpdir(), "kory-mock-db-"));
+    initDb(dataDir);
+  });
+
+  afterAll(() => {
+    getDb().close();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test("runs plan, worker tools, critic and summary end to end without network", async () => {
+    const project = mkdtempSync(join(tmpdir(), "kory-mock-project-"));
+    const providers = new ProviderRegistry(mockConfig(FIXTURE));
+    const mock = providers.get("mock") as MockProvider;
+    const tools = new ToolRegistry();
+    tools.register(new ReadFileTool());
+    tools.register(new WriteFileTool());
+    tools.register(new BashTool());
+    const manager = new KoryManager(
+      providers,
+      tools,
+      project,
+      mockConfig(FIXTURE),
+      { get: () => ({ autonomy: "full_auto" }), addUsage: () => undefined } as any,
+    );
+    const publish = spyOn(wsBroker, "publish");
+
+    manager.processTask("s1", "Add a hello module", "mock:mock-model");
+    for (let i = 0; i < 200 && manager.isSessionRunning("s1"); i++) await Bun.sleep(10);
+    const events = publish.mock.calls.map(([, event]) => event as WSMessage);
+    publish.mockRestore();
+
+    expect(manager.isSessionRunning("s1")).toBe(false);
+    expect(events.filter((e) => e.type === "system.error")).toEqual([]);
+    expect(readFileSync(join(project, "src/hello.ts"), "utf-8")).toBe('export const hello = () => "hello";\n');
+    expect(mock.requests.map((r) => r.systemPrompt.split("\n")[0].slice(0, 30))).toEqual([
+      "You are a deterministic intent",
+      "WORKER or MANAGER?",
+      "You plan a coding request befo",
+      "JSON only.",
+      "You split a coding request int",
+      "Be brief and actionable.",
+      "You are a specialist Worker Ag",
+      "You are a specialist Worker Ag",
+      "PASS or FAIL.",
+      "Summarize work.",
+    ]);
+    expect(mock.requests.map((r) => r.responseSchema?.name)).toEqual([
+      "clarification_decision", "routing_decision", "plan", "allowed_paths", "task_breakdown",
+      undefined, undefined, undefined, "critic_verdict", undefined,
+    ]);
+    // The worker's second turn sees the result of the tool it called.
+    expect(JSON.stringify(mock.requests[7].messages)).toContain("tool_result");
+    expect(events.find((e) => e.type === "kory.plan")?.payload).toMatchObject({ allowedPaths: ["src/"], awaitingApproval: false });
+  });
+
+  test("shell command edits are offered for review and stay pending through the next run", async () => {
+    const project = mkdtempSync(join(tmpdir(), "kory-mock-project-"));
+    const providers = new ProviderRegistry(mockConfig(FIXTURE));
+    const script = loadMockScript(FIXTURE);
+    script.steps.find((s) => s.system === "Worker Agent")!.events = [
+      { tool: "bash", input: { command: "mkdir -p src && echo 'export const hello = () => \"hello\";' > src/hello.ts" } },
+    ];
+    script.steps.push(
+      { system: "WORKER or MANAGER", events: [{ text: '{"handler":"manager"}' }] },
+      { system: "^You are Kory", events: [{ text: "Glad it helps." }] },
+    );
+    providers["providers"].set("mock", new MockProvider({ name: "mock", disabled: false }, script));
+    const tools = new ToolRegistry();
+    tools.register(new BashTool());
+    const manager = new KoryManager(providers, tools, project, mockConfig(FIXTURE), { get: () => ({ autonomy: "auto_edit" }), addUsage: () => undefined } as any);
+    const publish = spyOn(wsBroker, "publish");
+    publish.mockClear();
+    const events = () => publish.mock.calls.map(([, event]) => event as WSMessage);
+    const run = async (message: string) => {
+      manager.processTask("s1", message, "mock:mock-model");
+      for (let i = 0; i < 200 && manager.isSessionRunning("s1"); i++) {
+        const plan = events().filter((e) => e.type === "kory.plan").at(-1)?.payload as KoryPlanPayload | undefined;
+        if (plan?.awaitingApproval) manager.handlePlanResponse("s1", plan.planId, true, { steps: plan.steps, allowedPaths: plan.allowedPaths });
+        await Bun.sleep(10);
+      }
+    };
+
+    await run("Add a hello module");
+    const offered = events().filter((e) => e.type === "session.changes").at(-1)?.payload as { changes: ChangeSummary[] };
+    expect(offered.changes.map((c) => [c.path, c.operation])).toEqual([[join(project, "src/hello.ts"), "create"]]);
+
+    await run("Thanks, that's what I wanted");
+    publish.mockRestore();
+    expect(manager.previewRejection("s1").map((e) => [e.path, e.action])).toEqual([["src/hello.ts", "delete"]]);
+    manager.handleSessionResponse("s1", false);
+    expect(existsSync(join(project, "src/hello.ts"))).toBe(false);
+  });
+
+  test("a critic call that errors skips the review instead of failing the worker", async () => {
+    const project = mkdtempSync(join(tmpdir(), "kory-mock-project-"));
+    const providers = new ProviderRegistry(mockConfig(FIXTURE));
+    const script = loadMockScript(FIXTURE);
+    const critic = script.steps.find((s) => s.system === "PASS or FAIL")!;
+    critic.events = [{ status: 400, message: "response_format is not supported" }];
+    const mock = new MockProvider({ name: "mock", disabled: false }, script);
+    providers["providers"].set("mock", mock);
+    const tools = new ToolRegistry();
+    tools.register(new ReadFileTool());
+    tools.register(new WriteFileTool());
+    tools.register(new BashTool());
+    const manager = new KoryManager(providers, tools, project, mockConfig(FIXTURE), { get: () => ({ autonomy: "full_auto" }), addUsage: () => undefined } as any);
+    const publish = spyOn(wsBroker, "publish");
+    publish.mockClear();
+
+    manager.processTask("s1", "Add a hello module", "mock:mock-model");
+    for (let i = 0; i < 200 && manager.isSessionRunning("s1"); i++) await Bun.sleep(10);
+    const events = publish.mock.calls.map(([, event]) => event as WSMessage);
+    publish.mockRestore();
+
+    expect(events.filter((e) => e.type === "system.error")).toEqual([]);
+    expect(mock.requests.filter((r) => r.systemPrompt.startsWith("PASS or FAIL"))).toHaveLength(1);
+    expect(mock.requests.at(-1)?.systemPrompt).toStartWith("Summarize work.");
+    expect(readFileSync(join(project, "src/hello.ts"), "utf-8")).toBe('export const hello = () => "hello";\n');
+  });
+
+  test("independent tasks run one at a time when workers share the project tree", async () => {
+    const project = mkdtempSync(join(tmpdir(), "kory-mock-project-"));
+    const providers = new ProviderRegistry(mockConfig(FIXTURE));
+    const script = loadMockScript(FIXTURE);
+    script.steps.find((s) => s.system === "split a coding request")!.events = [{
+      text: JSON.stringify({ tasks: [
+        { id: "t1", description: "Create src/a.ts", domain: "backend" },
+        { id: "t2", description: "Create src/b.ts", domain: "backend" },
+      ] }),
+    }];
+    script.steps = script.steps.filter((s) => s.system !== "Worker Agent");
+    script.steps.push({ system: "Worker Agent", repeat: true, events: [{ delayMs: 30 }, { text: "Done." }] });
+    for (const step of script.steps) if (step.system === "Be brief and actionable" || step.system === "PASS or FAIL") step.repeat = true;
+    providers["providers"].set("mock", new MockProvider({ name: "mock", disabled: false }, script));
+    const manager = new KoryManager(providers, new ToolRegistry(), project, mockConfig(FIXTURE), { get: () => ({ autonomy: "full_auto" }), addUsage: () => undefined } as any);
+    const publish = spyOn(wsBroker, "publish");
+    publish.mockClear();
+
+    manager.processTask("s1", "Add the a and b modules", "mock:mock-model");
+    for (let i = 0; i < 300 && manager.isSessionRunning("s1"); i++) await Bun.sleep(10);
+    const events = publish.mock.calls.map(([, event]) => event as WSMessage);
+    publish.mockRestore();
+
+    const active = new Set<string>();
+    let mostAtOnce = 0;
+    for (const event of events) {
+      const payload = event.payload as any;
+      if (event.type === "agent.spawned" && payload.agent.id.startsWith("worker-")) active.add(payload.agent.id);
+      if (event.type === "agent.status" && ["done", "error", "cancelled"].includes(payload.status)) active.delete(payload.agentId);
+      mostAtOnce = Math.max(mostAtOnce, active.size);
+    }
+    expect(events.filter((e) => e.type === "agent.spawned" && (e.payload as any).agent.id.startsWith("worker-"))).toHaveLength(2);
+    expect(mostAtOnce).toBe(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { KoryphaiosConfig, ModelDef } from "@koryphaios/shared";
+import type { Server } from "bun";
+import { mergeDiscoveredModels } from "../src/providers/discovery";
+import { ProviderRegistry } from "../src/providers/registry";
+import { getModelsForProvider } from "../src/providers/types";
+
+describe("mergeDiscoveredModels", () => {
+  test("keeps catalog metadata for known models and describes the rest from the listing", () => {
+    const catalog = getModelsForProvider("openrouter");
+    const merged = mergeDiscoveredModels("openrouter", catalog, [
+      { id: catalog[0].apiModelId ?? catalog[0].id },
+      {
+        id: "acme/coder-2",
+        name: "Acme: Coder 2",
+        context_length: 262_144,
+        pricing: { prompt: "0.0000004", completion: "0.0000016" },
+        top_provider: { max_completion_tokens: 32_768 },
+      },
+      { id: "acme/embed-large" },
+    ]);
+
+    expect(merged.slice(0, -1)).toEqual(catalog);
+    const discovered = merged.at(-1)!;
+    expect(discovered).toMatchObject({
+      id: "acme/coder-2",
+      name: "Acme: Coder 2",
+      provider: "openrouter",
+      contextWindow: 262_144,
+      maxOutputTokens: 32_768,
+      isGeneric: true,
+    });
+    expect(discovered.costPerMInputTokens).toBeCloseTo(0.4);
+    expect(discovered.costPerMOutputTokens).toBeCloseTo(1.6);
+  });
+
+  test("lists only chat models from OpenAI and replaces local placeholders with what is installed", () => {
+    expect(mergeDiscoveredModels("openai", [], [{ id: "gpt-5-preview" }, { id: "o5-mini" }, { id: "text-embedding-3-large" }, { id: "tts-1" }])
+      .map((m) => m.id)).toEqual(["gpt-5-preview", "o5-mini"]);
+
+    const ollama = mergeDiscoveredModels("ollama", getModelsForProvider("ollama"), [{ id: "qwen2.5-coder:7b" }]);
+    expect(ollama.map((m) => m.id)).toEqual(["qwen2.5-coder:7b"]);
+    expect(mergeDiscoveredModels("ollama", getModelsForProvider("ollama"), []).map((m) => m.id)).toEqual(["ollama-default"]);
+  });
+});
+
+describe("discovery through a local OpenAI-compatible server", () => {
+  let server: Server;
+  let installed: Array<Record<string, unknown>>;
+  let listRequests = 0;
+  let listingMissing = false;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        if (new URL(req.url).pathname !== "/v1/models") return new Response("not found", { status: 404 });
+        listRequests++;
+        if (listingMissing) return new Response("not found", { status: 404 });
+        return Response.json({ object: "list", data: installed.map((m) => ({ object: "model", owned_by: "library", ...m })) });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const config = (): KoryphaiosConfig => ({
+    providers: {
+      ollama: { name: "ollama", baseUrl: `http://localhost:${server.port}/v1`, disabled: false },
+      // An explicit key keeps the Vertex provider from shelling out to gcloud during availability checks.
+      vertexai: { name: "vertexai", apiKey: "test-key", disabled: false },
+    },
+    agents: { manager: { model: "claude-sonnet-4-5" }, coder: { model: "claude-sonnet-4-5" }, task: { model: "o4-mini" } },
+    server: { port: 3000, host: "localhost" },
+    dataDirectory: ".koryphaios-test",
+  });
+
+  const ollamaStatus = async (registry: ProviderRegistry) => (await registry.getStatus()).find((p) => p.name === "ollama")!;
+  const ids = (models: ModelDef[]) => models.map((m) => m.id);
+
+  test("shows installed models, routes them to the server, and caches the listing until refreshed", async () => {
+    installed = [{ id: "qwen2.5-coder:7b", meta: { n_ctx_train: 32_768 } }];
+    listRequests = 0;
+    const registry = new ProviderRegistry(config());
+
+    const status = await ollamaStatus(registry);
+    expect(status.authenticated).toBe(true);
+    expect(status.models).toEqual(["qwen2.5-coder:7b"]);
+    expect(status.allAvailableModels[0]).toMatchObject({ id: "qwen2.5-coder:7b", contextWindow: 32_768, isGeneric: true });
+    expect(registry.resolveProvider("qwen2.5-coder:7b")?.name).toBe("ollama");
+
+    installed = [...installed, { id: "llama3.3:70b" }];
+    expect(ids((await ollamaStatus(registry)).allAvailableModels)).toEqual(["qwen2.5-coder:7b"]);
+    expect(listRequests).toBe(1);
+
+    const refreshed = (await registry.refreshModels("ollama")).find((p) => p.name === "ollama")!;
+    expect(ids(refreshed.allAvailableModels)).toEqual(["qwen2.5-coder:7b", "llama3.3:70b"]);
+    expect(registry.resolveProvider("llama3.3:70b")?.name).toBe("ollama");
+  });
+
+  test("remembers a failed listing for the TTL and leaves broadcasts to the cache", async () => {
+    listingMissing = true;
+    listRequests = 0;
+    const registry = new ProviderRegistry(config());
+    try {
+      expect((await registry.getStatus({ discover: false })).find((p) => p.name === "ollama")!.models).toEqual(["ollama-default"]);
+      expect(listRequests).toBe(0);
+
+      expect(ids((await ollamaStatus(registry)).allAvailableModels)).toEqual(["ollama-default"]);
+      await ollamaStatus(registry);
+      expect(listRequests).toBe(1);
+    } finally {
+      listingMissing = false;
+    }
+  });
+
+  test("falls back to the catalog when the server is unreachable", async () => {
+    const registry = new ProviderRegistry({
+      ...config(),
+      providers: { ...config().providers, ollama: { name: "ollama", baseUrl: "http://localhost:9/v1", disabled: false } },
+    });
+    expect(ids((await ollamaStatus(registry)).allAvailableModels)).toEqual(["ollama-default"]);
+  });
+});
@@ -59,7 +59,6 @@ describe("KoryManager Orchestration", () => {
     expect(overridden.provider).toBe("openai");
   });
 
-  // Note: Testing full async routing loop requires extensive mocking of streams
-  // which is complex in this unit test setup. Ideally, we would integration test
-  // with a local mock provider.
+  // The full plan → worker → tools → critic loop runs against the scripted mock
+  // provider in mock-provider.test.ts.
 });
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { formatPlan, parsePlan, parsePlanEdit } from "../src/kory/manager";
+
+describe("plan parsing", () => {
+  test("numbers valid steps and dedupes their files", () => {
+    const raw = '```json\n{"steps":[{"description":"Add the route","files":["src/api.ts","src/api.ts"]},{"description":"Write tests"}]}\n```';
+    expect(parsePlan(raw, 5)).toEqual([
+      { id: "s1", description: "Add the route", files: ["src/api.ts"] },
+      { id: "s2", description: "Write tests", files: [] },
+    ]);
+  });
+
+  test("rejects prose, empty plans and plans over the step limit", () => {
+    expect(parsePlan("First I will add a route.", 5)).toBeNull();
+    expect(parsePlan('{"steps":[]}', 5)).toBeNull();
+    expect(parsePlan('{"steps":[{"description":"a"},{"description":"b"}]}', 1)).toBeNull();
+  });
+});
+
+describe("plan edits", () => {
+  test("renumbers steps in the user's order and trims paths", () => {
+    const edit = parsePlanEdit({
+      steps: [{ description: " Write tests ", files: [] }, { description: "Add the route", files: ["src/api.ts"] }],
+      allowedPaths: ["src/", " src/ ", "test/"],
+    }, 5);
+    expect(edit).toEqual({
+      steps: [
+        { id: "s1", description: "Write tests", files: [] },
+        { id: "s2", description: "Add the route", files: ["src/api.ts"] },
+      ],
+      allowedPaths: ["src/", "test/"],
+    });
+  });
+
+  test("rejects edits with no steps or blank descriptions", () => {
+    expect(parsePlanEdit({ steps: [], allowedPaths: [] }, 5)).toBeNull();
+    expect(parsePlanEdit({ steps: [{ description: "  ", files: [] }] }, 5)).toBeNull();
+    expect(parsePlanEdit(undefined, 5)).toBeNull();
+  });
+
+  test("formats steps with their files for workers", () => {
+    expect(formatPlan([
+      { id: "s1", description: "Add the route", files: ["src/api.ts"] },
+      { id: "s2", description: "Write tests", files: [] },
+    ])).toBe("1. Add the route (files: src/api.ts)\n2. Write tests");
+  });
+});
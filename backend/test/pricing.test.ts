@@ -0,0 +1,60 @@
+import { describe, test, expect } from "bun:test";
+import type { ModelDef } from "@koryphaios/shared";
+import { accumulateUsage, calculateCost, EMPTY_USAGE } from "../src/providers";
+import { UsageLedger } from "../src/kory/usage-ledger";
+
+const base = {
+  provider: "anthropic",
+  contextWindow: 200_000,
+  maxOutputTokens: 8_192,
+  canReason: false,
+  supportsAttachments: false,
+  supportsStreaming: true,
+} as const;
+
+// Anthropic-style catalog entry: cache writes in costPerMInputCached, reads in costPerMOutputCached.
+const sonnet: ModelDef = { ...base, id: "sonnet", name: "Sonnet", costPerMInputTokens: 3, costPerMOutputTokens: 15, costPerMInputCached: 3.75, costPerMOutputCached: 0.3 };
+// OpenAI-style entry: only a discounted cached-read rate.
+const gpt: ModelDef = { ...base, id: "gpt", name: "GPT", provider: "openai", costPerMInputTokens: 2, costPerMOutputTokens: 8, costPerMInputCached: 0.5, costPerMOutputCached: 0 };
+
+describe("calculateCost", () => {
+  test("prices input and output tokens per million", () => {
+    expect(calculateCost(sonnet, { ...EMPTY_USAGE, tokensIn: 1_000_000, tokensOut: 100_000 })).toBeCloseTo(4.5);
+  });
+
+  test("prices cache reads and writes at their own rates", () => {
+    const usage = { tokensIn: 1_000_000, tokensOut: 0, tokensCacheRead: 600_000, tokensCacheWrite: 200_000 };
+    // 200k uncached at $3, 600k read at $0.30, 200k written at $3.75
+    expect(calculateCost(sonnet, usage)).toBeCloseTo(0.6 + 0.18 + 0.75);
+  });
+
+  test("uses the cached input rate for reads on OpenAI-style models", () => {
+    expect(calculateCost(gpt, { ...EMPTY_USAGE, tokensIn: 1_000_000, tokensCacheRead: 1_000_000 })).toBeCloseTo(0.5);
+  });
+
+  test("is zero for models missing from the catalog", () => {
+    expect(calculateCost("not-a-real-model", { ...EMPTY_USAGE, tokensIn: 1000 })).toBe(0);
+  });
+});
+
+test("accumulateUsage keeps the largest cumulative counter per call", () => {
+  let usage = accumulateUsage(EMPTY_USAGE, { type: "usage_update", tokensIn: 500, tokensOut: 1, tokensCache: 200 });
+  usage = accumulateUsage(usage, { type: "usage_update", tokensOut: 40 });
+  expect(usage).toEqual({ tokensIn: 500, tokensOut: 40, tokensCacheRead: 200, tokensCacheWrite: 0 });
+});
+
+test("UsageLedger rolls calls up per agent and session", () => {
+  const ledger = new UsageLedger();
+  ledger.record("s1", "kory-manager", "not-a-real-model", { ...EMPTY_USAGE, tokensIn: 10, tokensOut: 5 });
+  ledger.record("s1", "kory-manager", "not-a-real-model", { ...EMPTY_USAGE, tokensIn: 20, tokensOut: 5 });
+  ledger.record("s1", "worker-a", "not-a-real-model", { ...EMPTY_USAGE, tokensIn: 1, tokensOut: 1 });
+  ledger.record("s2", "worker-b", "not-a-real-model", { ...EMPTY_USAGE, tokensIn: 1, tokensOut: 1 });
+
+  expect(ledger.agents("s1")).toEqual([
+    { agentId: "kory-manager", model: "not-a-real-model", calls: 2, tokensIn: 30, tokensOut: 10, tokensCacheRead: 0, tokensCacheWrite: 0, cost: 0 },
+    { agentId: "worker-a", model: "not-a-real-model", calls: 1, tokensIn: 1, tokensOut: 1, tokensCacheRead: 0, tokensCacheWrite: 0, cost: 0 },
+  ]);
+  ledger.clear("s1");
+  expect(ledger.agents("s1")).toEqual([]);
+  expect(ledger.agents("s2")).toHaveLength(1);
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect } from "bun:test";
+import type Anthropic from "@anthropic-ai/sdk";
+import { AnthropicProvider } from "../src/providers/anthropic";
+import type { ProviderEvent, StreamRequest } from "../src/providers/types";
+import { accumulateUsage, calculateCost, EMPTY_USAGE } from "../src/providers";
+import { UsageLedger } from "../src/kory/usage-ledger";
+
+/** Captures the request params and streams back a canned message with the given usage. */
+class StubbedAnthropic extends AnthropicProvider {
+  params?: Anthropic.MessageCreateParamsStreaming;
+
+  constructor(private usage: Anthropic.Usage) {
+    super({ name: "anthropic", apiKey: "test-key", disabled: false });
+  }
+
+  protected override get client(): Anthropic {
+    const usage = this.usage;
+    return {
+      messages: {
+        stream: (params: Anthropic.MessageCreateParamsStreaming) => {
+          this.params = structuredClone(params);
+          return (async function* () {
+            yield { type: "message_start", message: { usage: { ...usage, output_tokens: 1 } } };
+            yield { type: "content_block_delta", delta: { type: "text_delta", text: "ok" } };
+            yield { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { ...usage, output_tokens: 12 } };
+          })();
+        },
+      },
+    } as unknown as Anthropic;
+  }
+}
+
+async function collect(stream: AsyncGenerator<ProviderEvent>): Promise<ProviderEvent[]> {
+  const events: ProviderEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+const workerTurn: StreamRequest = {
+  model: "claude-sonnet-4-5",
+  systemPrompt: "You are a specialist Worker Agent.",
+  tools: [
+    { name: "read_file", description: "Read a file", inputSchema: { type: "object" } },
+    { name: "write_file", description: "Write a file", inputSchema: { type: "object" } },
+  ],
+  messages: [
+    { role: "user", content: "Add a hello module" },
+    { role: "assistant", content: [{ type: "tool_use", toolCallId: "t1", toolName: "read_file", toolInput: { path: "a.ts" } }] },
+    { role: "user", content: [{ type: "tool_result", toolCallId: "t1", toolOutput: "export {}" }, { type: "text", text: "" }] },
+  ],
+};
+
+describe("Anthropic prompt caching", () => {
+  test("marks the system prompt, tool definitions and the last two user turns", async () => {
+    const provider = new StubbedAnthropic({ input_tokens: 10, output_tokens: 0, cache_read_input_tokens: null, cache_creation_input_tokens: null });
+    await collect(provider.streamResponse(workerTurn));
+    const { system, tools, messages } = provider.params!;
+    const ephemeral = { type: "ephemeral" };
+
+    expect(system).toEqual([{ type: "text", text: workerTurn.systemPrompt, cache_control: ephemeral }]);
+    expect(tools!.map((t) => (t as Anthropic.Tool).cache_control)).toEqual([undefined, ephemeral]);
+    expect(messages[0].content).toEqual([{ type: "text", text: "Add a hello module", cache_control: ephemeral }]);
+    expect(messages[1].content).toEqual([{ type: "tool_use", id: "t1", name: "read_file", input: { path: "a.ts" } }]);
+    // The trailing empty text block is skipped; the tool result carries the breakpoint.
+    expect(messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "t1", content: "export {}", is_error: false, cache_control: ephemeral },
+      { type: "text", text: "" },
+    ]);
+  });
+
+  test("reports cache reads and writes, priced at the cached rates", async () => {
+    const provider = new StubbedAnthropic({ input_tokens: 100, output_tokens: 0, cache_read_input_tokens: 9_000, cache_creation_input_tokens: 900 });
+    const events = await collect(provider.streamResponse(workerTurn));
+    const usage = events.filter((e) => e.type === "usage_update").reduce(accumulateUsage, EMPTY_USAGE);
+
+    expect(usage).toEqual({ tokensIn: 10_000, tokensOut: 12, tokensCacheRead: 9_000, tokensCacheWrite: 900 });
+    // 100 uncached at $3, 9k read at $0.30, 900 written at $3.75, 12 out at $15 (per million)
+    expect(calculateCost("claude-sonnet-4-5", usage)).toBeCloseTo((300 + 2_700 + 3_375 + 180) / 1_000_000, 8);
+  });
+
+  test("the ledger totals cache reads and writes per agent", () => {
+    const ledger = new UsageLedger();
+    ledger.record("s1", "worker-a", "claude-sonnet-4-5", { tokensIn: 10_000, tokensOut: 10, tokensCacheRead: 0, tokensCacheWrite: 9_000 });
+    ledger.record("s1", "worker-a", "claude-sonnet-4-5", { tokensIn: 10_500, tokensOut: 10, tokensCacheRead: 9_000, tokensCacheWrite: 500 });
+
+    expect(ledger.agents("s1")[0]).toMatchObject({ calls: 2, tokensIn: 20_500, tokensCacheRead: 9_000, tokensCacheWrite: 9_500 });
+  });
+});
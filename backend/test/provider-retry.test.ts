@@ -0,0 +1,208 @@
+import { describe, test, expect } from "bun:test";
+import type { KoryphaiosConfig, ProviderName } from "@koryphaios/shared";
+import { ProviderRegistry } from "../src/providers/registry";
+import { CircuitBreaker } from "../src/providers/circuit-breaker";
+import { isRetryableError } from "../src/providers/utils";
+import type { Provider, ProviderEvent, StreamRequest } from "../src/providers/types";
+
+function minimalConfig(): KoryphaiosConfig {
+  return {
+    // An explicit key keeps the Vertex provider from shelling out to gcloud during availability checks.
+    providers: { vertexai: { name: "vertexai", apiKey: "test-key" } },
+    agents: {
+      manager: { model: "claude-sonnet-4-5" },
+      coder: { model: "claude-sonnet-4-5" },
+      task: { model: "o4-mini" },
+    },
+    server: { port: 3000, host: "localhost" },
+    dataDirectory: ".koryphaios-test",
+  };
+}
+
+function fakeProvider(name: ProviderName, script: (req: StreamRequest) => ProviderEvent[]): Provider & { calls: StreamRequest[] } {
+  const calls: StreamRequest[] = [];
+  return {
+    name,
+    config: { name },
+    calls,
+    isAvailable: () => true,
+    listModels: async () => [],
+    async *streamResponse(req: StreamRequest) {
+      calls.push(req);
+      for (const event of script(req)) yield event;
+    },
+  };
+}
+
+function registryWith(...providers: Provider[]): ProviderRegistry {
+  const registry = new ProviderRegistry(minimalConfig());
+  for (const p of providers) registry["providers"].set(p.name, p);
+  return registry;
+}
+
+async function collect(stream: AsyncGenerator<ProviderEvent>): Promise<ProviderEvent[]> {
+  const events: ProviderEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+const request: StreamRequest = { model: "gpt-4.1", systemPrompt: "", messages: [{ role: "user", content: "hi" }] };
+
+describe("CircuitBreaker", () => {
+  test("opens after the failure threshold and half-opens after cooldown", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(2, 1000, undefined, () => now);
+
+    breaker.recordFailure("openai", "503");
+    expect(breaker.canRequest("openai")).toBe(true);
+    breaker.recordFailure("openai", "503");
+    expect(breaker.isOpen("openai")).toBe(true);
+
+    now = 1000;
+    expect(breaker.getState("openai")).toBe("half_open");
+    breaker.recordFailure("openai", "503");
+    expect(breaker.isOpen("openai")).toBe(true);
+
+    now = 2000;
+    breaker.recordSuccess("openai");
+    expect(breaker.getState("openai")).toBe("closed");
+  });
+
+  test("a half-open circuit admits a single trial call at a time", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(1, 1000, undefined, () => now);
+    breaker.recordFailure("openai", "503");
+
+    now = 1000;
+    expect(breaker.canRequest("openai")).toBe(true);
+    expect(breaker.canRequest("openai")).toBe(false);
+
+    // A trial that ends without a verdict hands the slot to the next caller.
+    breaker.releaseTrial("openai");
+    expect(breaker.canRequest("openai")).toBe(true);
+    expect(breaker.canRequest("openai")).toBe(false);
+
+    breaker.recordSuccess("openai");
+    expect(breaker.canRequest("openai")).toBe(true);
+    expect(breaker.canRequest("openai")).toBe(true);
+  });
+});
+
+describe("ProviderRegistry.executeWithRetry", () => {
+  test("streams events from the primary model", async () => {
+    const openai = fakeProvider("openai", () => [
+      { type: "content_delta", content: "ok" },
+      { type: "complete", finishReason: "end_turn" },
+    ]);
+    const events = await collect(registryWith(openai).executeWithRetry(request, "openai"));
+    expect(events.map((e) => e.type)).toEqual(["content_delta", "complete"]);
+  });
+
+  test("falls back to the next model on quota errors", async () => {
+    const openai = fakeProvider("openai", () => [{ type: "error", error: "429 insufficient_quota" }]);
+    const anthropic = fakeProvider("anthropic", () => [{ type: "content_delta", content: "from fallback" }]);
+    const registry = registryWith(openai, anthropic);
+
+    const events = await collect(registry.executeWithRetry(request, "openai", ["gpt-4.1", "claude-sonnet-4-5"]));
+
+    expect(openai.calls).toHaveLength(1);
+    expect(anthropic.calls[0]!.model).toBe("claude-sonnet-4-5");
+    expect(events).toEqual([{ type: "content_delta", content: "from fallback" }]);
+  });
+
+  test("does not fall back on non-transient errors", async () => {
+    const openai = fakeProvider("openai", () => [{ type: "error", error: "invalid request: bad schema" }]);
+    const anthropic = fakeProvider("anthropic", () => [{ type: "content_delta", content: "unused" }]);
+
+    const events = await collect(registryWith(openai, anthropic).executeWithRetry(request, "openai", ["claude-sonnet-4-5"]));
+
+    expect(anthropic.calls).toHaveLength(0);
+    expect(events).toEqual([{ type: "error", error: "invalid request: bad schema" }]);
+  });
+
+  test("skips providers whose circuit is open and reports it in status", async () => {
+    const openai = fakeProvider("openai", () => [{ type: "error", error: "rate limit exceeded" }]);
+    const anthropic = fakeProvider("anthropic", () => [{ type: "content_delta", content: "ok" }]);
+    const registry = registryWith(openai, anthropic);
+    registry["circuitBreaker"] = new CircuitBreaker(1, 60_000);
+
+    await collect(registry.executeWithRetry(request, "openai", ["claude-sonnet-4-5"]));
+    expect(registry.isCircuitOpen("openai")).toBe(true);
+
+    await collect(registry.executeWithRetry(request, "openai", ["claude-sonnet-4-5"]));
+    expect(openai.calls).toHaveLength(1);
+    expect(anthropic.calls).toHaveLength(2);
+
+    const status = await registry.getStatus();
+    expect(status.find((p) => p.name === "openai")?.circuitOpen).toBe(true);
+    expect(status.find((p) => p.name === "anthropic")?.circuitOpen).toBe(false);
+  });
+
+  test("sends only one of two concurrent calls to a half-open provider", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    let failNext = true;
+    const openaiCalls: StreamRequest[] = [];
+    const openai: Provider = {
+      name: "openai",
+      config: { name: "openai" },
+      isAvailable: () => true,
+      listModels: async () => [],
+      async *streamResponse(req: StreamRequest) {
+        openaiCalls.push(req);
+        if (failNext) {
+          failNext = false;
+          yield { type: "error", error: "rate limit exceeded" };
+          return;
+        }
+        await gate;
+        yield { type: "content_delta", content: "trial" };
+      },
+    };
+    const anthropic = fakeProvider("anthropic", () => [{ type: "content_delta", content: "fallback" }]);
+    const registry = registryWith(openai, anthropic);
+    let now = 0;
+    registry["circuitBreaker"] = new CircuitBreaker(1, 1000, undefined, () => now);
+
+    await collect(registry.executeWithRetry(request, "openai", ["claude-sonnet-4-5"]));
+    expect(registry.isCircuitOpen("openai")).toBe(true);
+
+    now = 1000;
+    const first = collect(registry.executeWithRetry(request, "openai", ["claude-sonnet-4-5"]));
+    const second = collect(registry.executeWithRetry(request, "openai", ["claude-sonnet-4-5"]));
+    expect((await second).map((e) => e.content)).toEqual(["fallback"]);
+    release();
+    expect((await first).map((e) => e.content)).toEqual(["trial"]);
+
+    expect(openaiCalls).toHaveLength(2);
+    expect(registry["circuitBreaker"].getState("openai")).toBe("closed");
+  });
+
+  test("an interrupt cuts the retry backoff short", async () => {
+    const openai = fakeProvider("openai", () => [{ type: "error", error: "HTTP 503: Service Unavailable" }]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const started = Date.now();
+    const events = await collect(registryWith(openai).executeWithRetry({ ...request, signal: controller.signal }, "openai"));
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(openai.calls).toHaveLength(1);
+    expect(events).toEqual([]);
+  });
+
+  test("reports every failure when the whole chain is exhausted", async () => {
+    const openai = fakeProvider("openai", () => [{ type: "error", error: "quota exceeded" }]);
+    const events = await collect(registryWith(openai).executeWithRetry(request, "openai"));
+    expect(events).toHaveLength(1);
+    expect(events[0]!.error).toContain("All models failed");
+    expect(events[0]!.error).toContain("quota exceeded");
+  });
+});
+
+test("only status-like numbers mark an error as a transient server failure", () => {
+  expect(isRetryableError("HTTP 503: Service Unavailable")).toBe(true);
+  expect(isRetryableError("502 Bad Gateway")).toBe(true);
+  expect(isRetryableError("Request failed with status code 500")).toBe(true);
+  expect(isRetryableError({ status: 504, message: "timeout" })).toBe(true);
+  expect(isRetryableError("max_tokens must be at most 512")).toBe(false);
+  expect(isRetryableError("invalid request: expected 550 tokens or fewer")).toBe(false);
+});
@@ -0,0 +1,179 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { SessionRunStatusPayload, StoredTask } from "@koryphaios/shared";
+import { SessionRunQueue } from "../src/kory/session-queue";
+import { KoryManager } from "../src/kory/manager";
+import { wsBroker } from "../src/pubsub";
+
+/** A run that stays in progress until released (or aborted). */
+function gate() {
+  let release!: () => void;
+  const done = new Promise<void>((r) => { release = r; });
+  return { release, wait: (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    done.then(resolve);
+    signal.addEventListener("abort", () => reject(new Error("aborted")), { once: true });
+  }) };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe("SessionRunQueue", () => {
+  test("runs different sessions concurrently", async () => {
+    const queue = new SessionRunQueue();
+    const a = gate();
+    const b = gate();
+    expect(queue.submit("a", { label: "a", run: a.wait })).toBe(0);
+    expect(queue.submit("b", { label: "b", run: b.wait })).toBe(0);
+    expect(queue.isRunning("a")).toBe(true);
+    expect(queue.isRunning("b")).toBe(true);
+    a.release();
+    b.release();
+    await tick();
+    expect(queue.isRunning("a")).toBe(false);
+  });
+
+  test("queues follow-up messages within a session in order", async () => {
+    const order: string[] = [];
+    const first = gate();
+    const queue = new SessionRunQueue();
+    queue.submit("s", { label: "first", run: async (signal) => { await first.wait(signal); order.push("first"); } });
+    expect(queue.submit("s", { label: "second", run: async () => { order.push("second"); } })).toBe(1);
+    expect(queue.status("s")).toEqual({ sessionId: "s", state: "running", queued: 1, current: "first" });
+
+    first.release();
+    await tick();
+    await tick();
+    expect(order).toEqual(["first", "second"]);
+    expect(queue.status("s").state).toBe("idle");
+  });
+
+  test("interrupt aborts the current run and redirects, dropping queued runs", async () => {
+    const statuses: SessionRunStatusPayload[] = [];
+    const queue = new SessionRunQueue((s) => statuses.push(s));
+    const order: string[] = [];
+    const current = gate();
+    queue.submit("s", { label: "current", run: current.wait });
+    queue.submit("s", { label: "stale", run: async () => { order.push("stale"); } });
+
+    expect(queue.interrupt("s", { label: "redirect", run: async () => { order.push("redirect"); } })).toBe(true);
+    expect(statuses.at(-1)).toMatchObject({ state: "interrupting", queued: 1 });
+
+    await tick();
+    await tick();
+    expect(order).toEqual(["redirect"]);
+    expect(statuses.at(-1)).toEqual({ sessionId: "s", state: "idle", queued: 0 });
+  });
+
+  test("interruptAll aborts every session's current run", async () => {
+    const queue = new SessionRunQueue();
+    const stopped: string[] = [];
+    for (const id of ["a", "b"]) {
+      queue.submit(id, { label: id, run: (signal) => gate().wait(signal).catch(() => { stopped.push(id); }) });
+    }
+    expect(queue.interruptAll()).toBe(2);
+    await tick();
+    expect(stopped.sort()).toEqual(["a", "b"]);
+    expect(queue.interruptAll()).toBe(0);
+  });
+
+  test("interrupt tells the queued runs it drops that they won't run", async () => {
+    const queue = new SessionRunQueue();
+    const dropped: string[] = [];
+    queue.submit("s", { label: "current", run: gate().wait });
+    queue.submit("s", { label: "queued", run: async () => undefined, dropped: () => dropped.push("queued") });
+
+    queue.interrupt("s");
+    expect(dropped).toEqual(["queued"]);
+  });
+
+  test("cancelCurrent stops the current run and keeps the queued ones", async () => {
+    const queue = new SessionRunQueue();
+    const order: string[] = [];
+    const dropped: string[] = [];
+    queue.submit("s", { label: "current", run: (signal) => gate().wait(signal).catch(() => { order.push("stopped"); }) });
+    queue.submit("s", { label: "queued", run: async () => { order.push("queued"); }, dropped: () => dropped.push("queued") });
+
+    expect(queue.cancelCurrent("s")).toBe(true);
+    await tick();
+    await tick();
+    expect(order).toEqual(["stopped", "queued"]);
+    expect(dropped).toEqual([]);
+    expect(queue.cancelCurrent("s")).toBe(false);
+  });
+
+  test("interrupt with nothing running just starts the redirect", async () => {
+    const queue = new SessionRunQueue();
+    let ran = false;
+    expect(queue.interrupt("s", { label: "now", run: async () => { ran = true; } })).toBe(false);
+    await tick();
+    expect(ran).toBe(true);
+  });
+});
+
+describe("resuming interrupted tasks", () => {
+  const interrupted = {
+    id: "t1", sessionId: "s1", runId: "run-1", description: "Build the API", domain: "backend",
+    status: "active", assignedModel: "gpt-4.1", assignedProvider: "openai", dependsOn: [], allowedPaths: [],
+  } as unknown as StoredTask;
+  const taskStore = {
+    get: (id: string) => (id === interrupted.id ? interrupted : undefined),
+    listActive: () => [interrupted],
+    listByRun: () => [interrupted],
+  };
+
+  test("a resume waiting in the queue can't be submitted again and isn't listed as interrupted", () => {
+    const manager = new KoryManager(
+      {} as any, {} as any, mkdtempSync(join(tmpdir(), "kory-resume-")), { agents: {} } as any,
+      undefined, undefined, taskStore as any,
+    );
+    // Keep the session busy so the resume stays queued.
+    manager["runs"].submit("s1", { label: "busy", run: gate().wait });
+
+    expect(manager.resumeTask("t1")).toBe(1);
+    expect(() => manager.resumeTask("t1")).toThrow("already queued to resume");
+    expect(manager.listInterruptedTasks("s1")).toEqual([]);
+    expect(manager.abandonTask("t1")).toBe(false);
+
+    // Dropped by an interrupt, the task is interrupted work again.
+    manager["runs"].interrupt("s1");
+    expect(manager.listInterruptedTasks("s1").map((t) => t.id)).toEqual(["t1"]);
+  });
+});
+
+test("a question asked after the run was interrupted settles instead of waiting forever", async () => {
+  const manager = new KoryManager({} as any, {} as any, mkdtempSync(join(tmpdir(), "kory-ask-")), { agents: {} } as any);
+  // The run unwinds slowly, as when sibling workers are still finishing.
+  manager["runs"].submit("s1", { label: "busy", run: (signal) => gate().wait(signal).catch(() => Bun.sleep(20)) });
+  const asked = manager["waitForUserInputInternal"]("s1", "Continue?", ["Continue", "Stop"]);
+  manager["runs"].interrupt("s1");
+  await expect(asked).rejects.toThrow("Interrupted");
+  await expect(manager["waitForUserInputInternal"]("s1", "Continue?", ["Continue", "Stop"])).rejects.toThrow("Interrupted");
+  expect(manager["pendingUserInputs"].size).toBe(0);
+});
+
+test("closing a session waits for its run to unwind, then forgets its changes", async () => {
+  const project = mkdtempSync(join(tmpdir(), "kory-close-"));
+  const manager = new KoryManager({} as any, {} as any, project, { agents: {} } as any, { get: () => ({ autonomy: "suggest" }) } as any);
+  writeFileSync(join(project, "a.ts"), "export {};\n");
+  manager["journal"].record("s1", [{ path: join(project, "a.ts"), original: null }]);
+  let unwound = false;
+  manager["runs"].submit("s1", {
+    label: "busy",
+    run: (signal) => gate().wait(signal).catch(async () => {
+      await Bun.sleep(20);
+      manager["settleChanges"]("s1");
+      unwound = true;
+    }),
+  });
+  const publish = spyOn(wsBroker, "publish");
+  publish.mockClear();
+
+  await manager.closeSession("s1");
+  const types = publish.mock.calls.map(([, event]) => (event as { type: string }).type);
+  publish.mockRestore();
+  expect(unwound).toBe(true);
+  expect(types).not.toContain("session.changes");
+  expect(manager.previewRejection("s1")).toEqual([]);
+});
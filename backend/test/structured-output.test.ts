@@ -0,0 +1,178 @@
+import { describe, test, expect } from "bun:test";
+import type Anthropic from "@anthropic-ai/sdk";
+import type OpenAI from "openai";
+import { z } from "zod";
+import { AnthropicProvider } from "../src/providers/anthropic";
+import { OpenAIProvider } from "../src/providers/openai";
+import type { ProviderEvent, ResponseSchema, StreamRequest } from "../src/providers/types";
+import { parseAllowedPaths, parseCriticVerdict, parseRoutingDecision, parseStructuredReply } from "../src/kory/manager";
+
+const verdict: ResponseSchema = {
+  name: "critic_verdict",
+  schema: { type: "object", properties: { verdict: { type: "string", enum: ["pass", "fail"] } }, required: ["verdict"] },
+};
+
+const request: StreamRequest = {
+  model: "claude-sonnet-4-5",
+  systemPrompt: "PASS or FAIL.",
+  messages: [{ role: "user", content: "Review the change" }],
+  responseSchema: verdict,
+};
+
+async function collect(stream: AsyncGenerator<ProviderEvent>): Promise<ProviderEvent[]> {
+  const events: ProviderEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+/** Answers every call by calling the forced tool with `{"verdict":"pass"}`, in two input chunks. */
+class StubbedAnthropic extends AnthropicProvider {
+  params?: Anthropic.MessageCreateParamsStreaming;
+
+  constructor() {
+    super({ name: "anthropic", apiKey: "test-key", disabled: false });
+  }
+
+  protected override get client(): Anthropic {
+    return {
+      messages: {
+        stream: (params: Anthropic.MessageCreateParamsStreaming) => {
+          this.params = params;
+          return (async function* () {
+            yield { type: "content_block_start", content_block: { type: "tool_use", id: "toolu_1", name: "critic_verdict", input: {} } };
+            yield { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '{"verdict":' } };
+            yield { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '"pass"}' } };
+            yield { type: "content_block_stop" };
+            yield { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 8 } };
+          })();
+        },
+      },
+    } as unknown as Anthropic;
+  }
+}
+
+class StubbedOpenAI extends OpenAIProvider {
+  params?: OpenAI.ChatCompletionCreateParamsStreaming;
+
+  constructor() {
+    super({ name: "openai", apiKey: "test-key", disabled: false });
+  }
+
+  protected override get client(): OpenAI {
+    return {
+      chat: {
+        completions: {
+          create: async (params: OpenAI.ChatCompletionCreateParamsStreaming) => {
+            this.params = params;
+            return (async function* () {
+              yield { choices: [{ delta: { content: '{"verdict":"fail"}' }, finish_reason: "stop" }] };
+            })();
+          },
+        },
+      },
+    } as unknown as OpenAI;
+  }
+}
+
+describe("native structured output", () => {
+  test("Anthropic forces a tool call with the schema and streams its input as the reply", async () => {
+    const provider = new StubbedAnthropic();
+    const events = await collect(provider.streamResponse(request));
+
+    expect(provider.params!.tools).toEqual([expect.objectContaining({ name: "critic_verdict", input_schema: verdict.schema })]);
+    expect(provider.params!.tool_choice).toEqual({ type: "tool", name: "critic_verdict" });
+    expect(events.filter((e) => e.type.startsWith("tool_use"))).toEqual([]);
+    expect(events.filter((e) => e.type === "content_delta").map((e) => e.content).join("")).toBe('{"verdict":"pass"}');
+    expect(events.at(-1)).toEqual({ type: "complete", finishReason: "end_turn" });
+  });
+
+  test("Anthropic leaves tool choice alone when the request has real tools", async () => {
+    const provider = new StubbedAnthropic();
+    await collect(provider.streamResponse({ ...request, tools: [{ name: "read_file", description: "Read", inputSchema: { type: "object" } }] }));
+
+    expect(provider.params!.tool_choice).toBeUndefined();
+    expect(provider.params!.tools!.map((t) => t.name)).toEqual(["read_file"]);
+  });
+
+  test("OpenAI-compatible providers send a json_schema response format", async () => {
+    const provider = new StubbedOpenAI();
+    const events = await collect(provider.streamResponse({ ...request, model: "gpt-4.1" }));
+
+    expect(provider.params!.response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "critic_verdict", schema: verdict.schema, strict: false },
+    });
+    expect(events[0]).toEqual({ type: "content_delta", content: '{"verdict":"fail"}' });
+  });
+});
+
+/** An OpenAI-compatible endpoint without json_schema support: it rejects any request that sets a response format. */
+class StubbedLegacyEndpoint extends OpenAIProvider {
+  calls: OpenAI.ChatCompletionCreateParamsStreaming[] = [];
+
+  constructor(private rejection: Error = Object.assign(new Error("response_format is not supported"), { status: 400 })) {
+    super({ name: "groq", apiKey: "test-key", disabled: false }, "groq");
+  }
+
+  protected override get client(): OpenAI {
+    return {
+      chat: {
+        completions: {
+          create: async (params: OpenAI.ChatCompletionCreateParamsStreaming) => {
+            this.calls.push(params);
+            if (params.response_format) throw this.rejection;
+            return (async function* () {
+              yield { choices: [{ delta: { content: "PASS" }, finish_reason: "stop" }] };
+            })();
+          },
+        },
+      },
+    } as unknown as OpenAI;
+  }
+}
+
+describe("endpoints without structured output", () => {
+  test("retry once without the response format, then stop sending it", async () => {
+    const provider = new StubbedLegacyEndpoint();
+    const first = await collect(provider.streamResponse({ ...request, model: "llama-3.3-70b-versatile" }));
+    expect(first[0]).toEqual({ type: "content_delta", content: "PASS" });
+    expect(provider.calls.map((c) => !!c.response_format)).toEqual([true, false]);
+
+    await collect(provider.streamResponse({ ...request, model: "llama-3.3-70b-versatile" }));
+    expect(provider.calls.map((c) => !!c.response_format)).toEqual([true, false, false]);
+  });
+
+  test("other bad requests are reported and keep the response format on", async () => {
+    const provider = new StubbedLegacyEndpoint(Object.assign(new Error("This model's maximum context length is 8192 tokens"), { status: 400 }));
+    const first = await collect(provider.streamResponse({ ...request, model: "llama-3.3-70b-versatile" }));
+    expect(first).toEqual([{ type: "error", error: "This model's maximum context length is 8192 tokens" }]);
+
+    await collect(provider.streamResponse({ ...request, model: "llama-3.3-70b-versatile" }));
+    expect(provider.calls.map((c) => !!c.response_format)).toEqual([true, true]);
+  });
+});
+
+describe("validated reply parsing", () => {
+  test("accepts fenced or prose-wrapped JSON and rejects replies that fail the schema", () => {
+    const schema = z.object({ handler: z.enum(["worker", "manager"]) });
+    expect(parseStructuredReply('```json\n{"handler":"manager"}\n```', schema)).toEqual({ handler: "manager" });
+    expect(parseStructuredReply('Sure: {"handler":"worker"}', schema)).toEqual({ handler: "worker" });
+    expect(parseStructuredReply('{"handler":"both"}', schema)).toBeNull();
+    expect(parseStructuredReply("WORKER", schema)).toBeNull();
+  });
+
+  test("gate decisions prefer the structured reply and fall back to plain text", () => {
+    expect(parseRoutingDecision('{"handler":"manager"}')).toBe(false);
+    expect(parseRoutingDecision("WORKER")).toBe(true);
+
+    expect(parseCriticVerdict('{"verdict":"fail","feedback":"Missing export"}')).toEqual({ passed: false, feedback: "Missing export" });
+    expect(parseCriticVerdict('{"verdict":"pass"}')).toEqual({ passed: true, feedback: "" });
+    expect(parseCriticVerdict("FAIL: the tests do not pass").passed).toBe(false);
+    expect(parseCriticVerdict("PASS").passed).toBe(true);
+
+    expect(parseAllowedPaths('{"paths":["src/","docs/api.md"]}')).toEqual(["src/", "docs/api.md"]);
+    expect(parseAllowedPaths('Paths: ["src/"]')).toEqual(["src/"]);
+    expect(parseAllowedPaths('[1, 2]')).toEqual([]);
+    expect(parseAllowedPaths("none")).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { findTaskGraphError, runTaskGraph, type TaskGraphNode } from "../src/kory/task-graph";
+import { parseTaskBreakdown } from "../src/kory/manager";
+
+function node(id: string, dependsOn: string[] = []): TaskGraphNode {
+  return { id, dependsOn, status: "pending" };
+}
+
+describe("task graph validation", () => {
+  test("accepts a diamond-shaped graph", () => {
+    expect(findTaskGraphError([node("a"), node("b", ["a"]), node("c", ["a"]), node("d", ["b", "c"])])).toBeNull();
+  });
+
+  test("rejects unknown dependencies", () => {
+    expect(findTaskGraphError([node("a", ["missing"])])).toContain("unknown task");
+  });
+
+  test("rejects cycles", () => {
+    expect(findTaskGraphError([node("a", ["c"]), node("b", ["a"]), node("c", ["b"])])).toContain("cycle");
+  });
+
+  test("rejects duplicate ids", () => {
+    expect(findTaskGraphError([node("a"), node("a")])).toContain("Duplicate");
+  });
+});
+
+describe("task graph execution", () => {
+  test("runs independent tasks concurrently up to the limit", async () => {
+    const tasks = [node("a"), node("b"), node("c")];
+    let inFlight = 0;
+    let peak = 0;
+
+    const ok = await runTaskGraph(tasks, 2, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await Bun.sleep(5);
+      inFlight--;
+      return true;
+    }, () => {});
+
+    expect(ok).toBe(true);
+    expect(peak).toBe(2);
+    expect(tasks.every((t) => t.status === "done")).toBe(true);
+  });
+
+  test("starts dependents only after their dependencies finish", async () => {
+    const tasks = [node("a"), node("b", ["a"]), node("c", ["b"])];
+    const order: string[] = [];
+
+    await runTaskGraph(tasks, 4, async (task) => {
+      order.push(task.id);
+      return true;
+    }, () => {});
+
+    expect(order).toEqual(["a", "b", "c"]);
+  });
+
+  test("fails dependents of a failed task without running them", async () => {
+    const tasks = [node("a"), node("b", ["a"]), node("c")];
+    const ran: string[] = [];
+    const snapshots: string[] = [];
+
+    const ok = await runTaskGraph(tasks, 2, async (task) => {
+      ran.push(task.id);
+      if (task.id === "a") throw new Error("boom");
+      return true;
+    }, () => snapshots.push(tasks.map((t) => t.status).join(",")));
+
+    expect(ok).toBe(false);
+    expect(ran.sort()).toEqual(["a", "c"]);
+    expect(tasks[0]!.error).toBe("boom");
+    expect(tasks[1]!.status).toBe("failed");
+    expect(tasks[1]!.error).toContain('"a"');
+    expect(tasks[2]!.status).toBe("done");
+    expect(snapshots[0]).toBe("active,pending,pending");
+  });
+});
+
+describe("task breakdown parsing", () => {
+  test("parses a valid breakdown and defaults dependsOn", () => {
+    const raw = JSON.stringify({
+      tasks: [
+        { id: "api", description: "Add the endpoint", domain: "backend" },
+        { id: "ui", description: "Call the endpoint", domain: "frontend", dependsOn: ["api"] },
+      ],
+    });
+
+    expect(parseTaskBreakdown(raw, 4)).toEqual([
+      { id: "api", description: "Add the endpoint", domain: "backend", dependsOn: [] },
+      { id: "ui", description: "Call the endpoint", domain: "frontend", dependsOn: ["api"] },
+    ]);
+  });
+
+  test("rejects breakdowns above maxTasks", () => {
+    const raw = JSON.stringify({
+      tasks: [
+        { id: "a", description: "A", domain: "general" },
+        { id: "b", description: "B", domain: "general" },
+      ],
+    });
+    expect(parseTaskBreakdown(raw, 1)).toBeNull();
+  });
+
+  test("rejects cyclic breakdowns", () => {
+    const raw = JSON.stringify({
+      tasks: [
+        { id: "a", description: "A", domain: "general", dependsOn: ["b"] },
+        { id: "b", description: "B", domain: "general", dependsOn: ["a"] },
+      ],
+    });
+    expect(parseTaskBreakdown(raw, 4)).toBeNull();
+  });
+
+  test("accepts fenced JSON", () => {
+    const raw = "```json\n" + JSON.stringify({ tasks: [{ id: "a", description: "A", domain: "test" }] }) + "\n```";
+    expect(parseTaskBreakdown(raw, 4)?.[0]?.domain).toBe("test");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MIGRATIONS, runMigrations } from "../src/db/migrations";
+import { initDb, getDb } from "../src/db/sqlite";
+import { TaskStore } from "../src/stores/task-store";
+
+function columnsOf(db: Database, table: string): string[] {
+  return (db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+}
+
+describe("runMigrations", () => {
+  test("applies every migration once and is idempotent", () => {
+    const db = new Database(":memory:");
+    const latest = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+    expect(runMigrations(db)).toBe(latest);
+    expect(runMigrations(db)).toBe(latest);
+
+    const applied = db.query("SELECT version FROM schema_migrations ORDER BY version").all() as Array<{ version: number }>;
+    expect(applied.map((r) => r.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(columnsOf(db, "tasks")).toContain("run_id");
+  });
+
+  test("upgrades a database created before migrations existed", () => {
+    const db = new Database(":memory:");
+    db.run(`CREATE TABLE tasks (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, description TEXT NOT NULL, status TEXT, allowed_paths TEXT)`);
+    db.run(`INSERT INTO tasks (id, session_id, description, status) VALUES ('old', 's1', 'legacy task', 'done')`);
+
+    runMigrations(db);
+
+    expect(columnsOf(db, "tasks")).toEqual(expect.arrayContaining(["run_id", "assigned_provider", "plan", "depends_on", "transcript_path"]));
+    expect(db.query("SELECT description FROM tasks WHERE id = 'old'").get()).toEqual({ description: "legacy task" });
+  });
+
+  test("rolls back a failing migration and leaves its version unrecorded", () => {
+    const db = new Database(":memory:");
+    const broken = [
+      { version: 1, name: "ok", up: (d: Database) => d.run("CREATE TABLE a (id TEXT)") },
+      { version: 2, name: "broken", up: (d: Database) => { d.run("CREATE TABLE b (id TEXT)"); throw new Error("boom"); } },
+    ];
+
+    expect(() => runMigrations(db, broken)).toThrow("boom");
+    expect(db.query("SELECT MAX(version) AS version FROM schema_migrations").get()).toEqual({ version: 1 });
+    expect(db.query("SELECT name FROM sqlite_master WHERE name = 'b'").get()).toBeNull();
+  });
+});
+
+describe("TaskStore", () => {
+  let dataDir: string;
+  const store = new TaskStore();
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(join(tmpdir(), "kory-tasks-"));
+    initDb(dataDir);
+  });
+
+  afterAll(() => {
+    getDb().close();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const base = {
+    sessionId: "session-a",
+    runId: "run-1",
+    domain: "backend" as const,
+    assignedModel: "gpt-4.1",
+    assignedProvider: "openai" as const,
+    plan: "1. Do the thing",
+    allowedPaths: ["src/"],
+  };
+
+  test("round-trips a task including JSON columns", () => {
+    store.create({ ...base, id: "t-api", description: "Build API", dependsOn: [], transcriptPath: "/tmp/t-api.jsonl" });
+    store.create({ ...base, id: "t-ui", description: "Build UI", dependsOn: ["t-api"], planSteps: [{ id: "s1", description: "Do the thing", files: ["src/ui.ts"] }] });
+
+    const task = store.get("t-ui")!;
+    expect(task.status).toBe("pending");
+    expect(task.dependsOn).toEqual(["t-api"]);
+    expect(task.allowedPaths).toEqual(["src/"]);
+    expect(task.plan).toBe("1. Do the thing");
+    expect(task.planSteps).toEqual([{ id: "s1", description: "Do the thing", files: ["src/ui.ts"] }]);
+    expect(store.get("t-api")!.planSteps).toBeUndefined();
+    expect(store.get("t-api")!.transcriptPath).toBe("/tmp/t-api.jsonl");
+    expect(store.get("missing")).toBeUndefined();
+  });
+
+  test("lists unfinished tasks and whole runs", () => {
+    store.update("t-api", { status: "done", result: "ok" });
+    store.update("t-ui", { status: "active" });
+    store.create({ ...base, id: "t-other", sessionId: "session-b", runId: "run-2", description: "Other", dependsOn: [] });
+
+    expect(store.listActive("session-a").map((t) => t.id)).toEqual(["t-ui"]);
+    expect(store.listActive().map((t) => t.id).sort()).toEqual(["t-other", "t-ui"]);
+    expect(store.listByRun("run-1").map((t) => [t.id, t.status])).toEqual([["t-api", "done"], ["t-ui", "active"]]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { VerificationPipeline, formatVerificationFeedback, parseFailures, type CheckRunner } from "../src/kory/verification";
+
+let project: string;
+let ran: Array<{ command: string; cwd: string; timeout: number }>;
+
+/** Records each command and fails the ones with an entry in `outputs`. */
+function runner(outputs: Record<string, string> = {}): CheckRunner {
+  return async (command, cwd, timeout) => {
+    ran.push({ command, cwd, timeout });
+    return command in outputs ? { passed: false, output: outputs[command] } : { passed: true, output: "ok" };
+  };
+}
+
+function write(path: string, content: string) {
+  mkdirSync(join(project, path, ".."), { recursive: true });
+  writeFileSync(join(project, path), content);
+}
+
+beforeEach(() => {
+  project = mkdtempSync(join(tmpdir(), "kory-verify-"));
+  ran = [];
+});
+
+describe("VerificationPipeline", () => {
+  test("detects typecheck, lint and test scripts with the project's package manager", () => {
+    write("package.json", JSON.stringify({ scripts: { typecheck: "tsc", lint: "eslint .", test: "vitest run" } }));
+    write("pnpm-lock.yaml", "");
+    const pipeline = new VerificationPipeline(project, undefined, runner());
+    expect(pipeline.resolve(["src/a.ts"])).toEqual([
+      { name: "typecheck", command: "pnpm run typecheck", cwd: "." },
+      { name: "lint", command: "pnpm run lint", cwd: "." },
+      { name: "test", command: "pnpm run test", cwd: "." },
+    ]);
+  });
+
+  test("skips npm's placeholder test script and typechecks from tsconfig", () => {
+    write("package.json", JSON.stringify({ scripts: { test: 'echo "Error: no test specified" && exit 1' } }));
+    write("tsconfig.json", "{}");
+    expect(new VerificationPipeline(project, undefined, runner()).resolve([])).toEqual([
+      { name: "typecheck", command: "npx tsc --noEmit", cwd: "." },
+    ]);
+  });
+
+  test("checks only the monorepo packages that changed", () => {
+    write("package.json", JSON.stringify({ workspaces: ["packages/*"] }));
+    write("bun.lock", "");
+    write("packages/api/package.json", JSON.stringify({ scripts: { test: "bun test" } }));
+    write("packages/web/package.json", JSON.stringify({ scripts: { test: "vitest" } }));
+    write("tools/cli/Cargo.toml", "[package]\n");
+    const pipeline = new VerificationPipeline(project, undefined, runner());
+
+    expect(pipeline.resolve([join(project, "packages/api/src/server.ts"), "tools/cli/src/main.rs"])).toEqual([
+      { name: "test", command: "bun run test", cwd: "packages/api" },
+      { name: "typecheck", command: "cargo check --all-targets", cwd: "tools/cli" },
+      { name: "test", command: "cargo test", cwd: "tools/cli" },
+    ]);
+  });
+
+  test("runs configured checks instead, scoped by cwd", async () => {
+    write("package.json", JSON.stringify({ scripts: { test: "jest" } }));
+    const pipeline = new VerificationPipeline(project, {
+      timeoutSeconds: 90,
+      checks: [
+        { name: "unit", command: "make test" },
+        { name: "docs", command: "make docs", cwd: "docs/" },
+        { name: "e2e", command: "make e2e", cwd: "app", timeoutSeconds: 600 },
+      ],
+    }, runner());
+
+    const results = await pipeline.run(["app/main.go"]);
+    expect(results.map((r) => [r.name, r.cwd, r.passed])).toEqual([["unit", ".", true], ["e2e", "app", true]]);
+    expect(ran).toEqual([
+      { command: "make test", cwd: join(project, "."), timeout: 90 },
+      { command: "make e2e", cwd: join(project, "app"), timeout: 600 },
+    ]);
+  });
+
+  test("does nothing when disabled or when no package applies", async () => {
+    write("package.json", JSON.stringify({ scripts: { test: "jest" } }));
+    expect(await new VerificationPipeline(project, { disabled: true }, runner()).run([])).toEqual([]);
+    expect(await new VerificationPipeline(mkdtempSync(join(tmpdir(), "kory-verify-")), undefined, runner()).run(["a.txt"])).toEqual([]);
+    expect(ran).toEqual([]);
+  });
+
+  test("structures failures and feeds them back", async () => {
+    write("package.json", JSON.stringify({ scripts: { typecheck: "tsc", test: "bun test" } }));
+    write("bun.lock", "");
+    const pipeline = new VerificationPipeline(project, undefined, runner({
+      "bun run typecheck": "\x1b[31msrc/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.\x1b[0m\nExit code: 2",
+    }));
+
+    const [typecheck, tests] = await pipeline.run([]);
+    expect(typecheck).toMatchObject({
+      name: "typecheck",
+      passed: false,
+      failures: [{ file: "src/a.ts", line: 3, message: "TS2322: Type 'string' is not assignable to type 'number'." }],
+    });
+    expect(tests).toMatchObject({ name: "test", passed: true, failures: [] });
+    expect(formatVerificationFeedback([typecheck, tests])).toBe(
+      "✗ typecheck failed (bun run typecheck)\n" +
+      "  - src/a.ts:3: TS2322: Type 'string' is not assignable to type 'number'.\n" +
+      "✓ test (bun run test)",
+    );
+  });
+});
+
+describe("parseFailures", () => {
+  test("reads test runner and linter formats", () => {
+    const output = [
+      "(fail) math > adds [0.42ms]",
+      "  ● Cart › totals items",
+      " FAIL  src/cart.test.ts > Cart > applies discount",
+      "FAILED tests/test_api.py::test_login - AssertionError: 401",
+      "--- FAIL: TestParse (0.00s)",
+      "test parser::tests::empty ... FAILED",
+      "main.go:12:3: undefined: foo",
+      "/repo/src/index.js",
+      "  4:10  error  'x' is assigned a value but never used  no-unused-vars",
+      "  at run (src/a.ts:1:1)",
+      "(fail) math > adds [0.42ms]",
+    ].join("\n");
+
+    expect(parseFailures(output)).toEqual([
+      { message: "math > adds failed" },
+      { message: "Cart › totals items failed" },
+      { file: "src/cart.test.ts", message: "Cart > applies discount failed" },
+      { file: "tests/test_api.py", message: "test_login failed: AssertionError: 401" },
+      { message: "TestParse failed" },
+      { message: "parser::tests::empty failed" },
+      { file: "main.go", line: 12, message: "undefined: foo" },
+      { file: "/repo/src/index.js", line: 4, message: "'x' is assigned a value but never used" },
+    ]);
+  });
+
+  test("shows the output tail when nothing is recognised", () => {
+    const feedback = formatVerificationFeedback([
+      { name: "lint", command: "make lint", cwd: "web", passed: false, durationMs: 5, failures: [], output: "something broke" },
+    ]);
+    expect(feedback).toBe("✗ lint failed (make lint in web)\n    something broke");
+  });
+});
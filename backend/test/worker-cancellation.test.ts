@@ -0,0 +1,73 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { StoredMessage } from "@koryphaios/shared";
+import type { ProviderEvent, StreamRequest } from "../src/providers/types";
+import { KoryManager } from "../src/kory/manager";
+import { BashTool } from "../src/tools/bash";
+import { wsBroker } from "../src/pubsub";
+
+const untilAborted = (signal?: AbortSignal) => new Promise<void>((resolve) => {
+  if (!signal || signal.aborted) return resolve();
+  signal.addEventListener("abort", () => resolve(), { once: true });
+});
+
+describe("worker cancellation", () => {
+  test("aborts the worker's provider stream and keeps its partial reply", async () => {
+    const requests: StreamRequest[] = [];
+    const providers = {
+      async *executeWithRetry(request: StreamRequest): AsyncGenerator<ProviderEvent> {
+        requests.push(request);
+        yield { type: "content_delta", content: "Halfway through" };
+        await untilAborted(request.signal);
+        yield { type: "error", error: "Request was aborted" };
+      },
+    };
+    const saved: StoredMessage[] = [];
+    const manager = new KoryManager(
+      providers as any,
+      { getToolDefsForRole: () => [] } as any,
+      mkdtempSync(join(tmpdir(), "kory-cancel-")),
+      { agents: { manager: { model: "mock-model" } } } as any,
+      undefined,
+      { getRecent: () => [], add: (_sessionId: string, message: StoredMessage) => saved.push(message) } as any,
+    );
+    const publish = spyOn(wsBroker, "publish");
+
+    const result = manager["executeWithProvider"]("s1", { name: "anthropic" }, "mock-model", "Refactor the router", "backend", undefined, true, [], true);
+    await Bun.sleep(10);
+    const [worker] = manager.getStatus();
+    expect(worker).toMatchObject({ sessionId: "s1", status: "thinking" });
+    expect(manager.cancelWorker(worker.agent.id)).toBe(true);
+
+    expect(await result).toEqual({ success: false, error: "Cancelled", cancelled: true });
+    expect(requests[0].signal?.aborted).toBe(true);
+    expect(saved.map((m) => [m.role, m.content])).toEqual([
+      ["user", JSON.stringify([{ type: "text", text: "Refactor the router" }])],
+      ["assistant", JSON.stringify([{ type: "text", text: "Halfway through" }])],
+    ]);
+    const statuses = publish.mock.calls.map(([, event]) => event.payload as any).filter((p) => p?.agentId === worker.agent.id && p.status);
+    expect(statuses.at(-1).status).toBe("cancelled");
+    expect(manager.getStatus()).toEqual([]);
+    expect(manager.cancelWorker(worker.agent.id)).toBe(false);
+    publish.mockRestore();
+  });
+
+  test("the bash tool kills its command when the signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const pending = new BashTool().run(
+      { sessionId: "s1", workingDirectory: tmpdir(), signal: controller.signal },
+      { id: "call-1", name: "bash", input: { command: "echo started; sleep 10; echo finished" } },
+    );
+    setTimeout(() => controller.abort(), 200);
+
+    const result = await pending;
+    expect(result.isError).toBe(true);
+    expect(result.output).toStartWith("Command cancelled");
+    expect(result.output).toContain("started");
+    expect(result.output).not.toContain("finished");
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { spawnSync } from "bun";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { GitManager } from "../src/kory/git-manager";
+import { WorktreeManager } from "../src/kory/worktrees";
+
+const git = (cwd: string, ...args: string[]) => spawnSync(["git", ...args], { cwd }).stdout.toString().trim();
+
+let project: string;
+let root: string;
+let worktrees: WorktreeManager;
+
+beforeEach(() => {
+  project = mkdtempSync(join(tmpdir(), "kory-project-"));
+  git(project, "init", "-q", "-b", "main");
+  // Worktrees share the repository config, so this identity covers worker commits too.
+  git(project, "config", "user.name", "Test");
+  git(project, "config", "user.email", "test@example.com");
+  writeFileSync(join(project, "app.ts"), "export const value = 1;\n");
+  git(project, "add", ".");
+  git(project, "commit", "-qm", "initial");
+  root = mkdtempSync(join(tmpdir(), "kory-worktrees-"));
+  worktrees = new WorktreeManager(project, new GitManager(project), root);
+});
+
+describe("WorktreeManager", () => {
+  test("gives each task its own checkout on a throwaway branch and reuses it for retries", async () => {
+    const worktree = (await worktrees.acquire("s1", "t1"))!;
+    expect(worktree.branch).toBe("kory/t1");
+    expect(readFileSync(join(worktree.path, "app.ts"), "utf-8")).toBe("export const value = 1;\n");
+    expect(await worktrees.acquire("s1", "t1")).toBe(worktree);
+    expect(worktrees.toProjectPath("t1", join(worktree.path, "src/a.ts"))).toBe(join(project, "src/a.ts"));
+  });
+
+  test("merges committed worker changes into the user's branch on acceptance", async () => {
+    const worktree = (await worktrees.acquire("s1", "t1"))!;
+    writeFileSync(join(worktree.path, "feature.ts"), "export {};\n");
+    expect(worktrees.commit("t1", "add feature")).toBe(true);
+    expect(worktrees.commit("t1", "nothing new")).toBe(false);
+    expect(existsSync(join(project, "feature.ts"))).toBe(false);
+
+    expect(await worktrees.mergeSession("s1")).toEqual({ merged: ["kory/t1"], conflicts: [] });
+    expect(existsSync(join(project, "feature.ts"))).toBe(true);
+    expect(existsSync(worktree.path)).toBe(false);
+    expect(git(project, "branch", "--list", "kory/*")).toBe("");
+  });
+
+  test("starts dependent tasks from their dependencies' branches", async () => {
+    const first = (await worktrees.acquire("s1", "t1"))!;
+    writeFileSync(join(first.path, "schema.ts"), "export type Row = {};\n");
+    worktrees.commit("t1", "add schema");
+
+    const second = (await worktrees.acquire("s1", "t2", ["t1"]))!;
+    expect(existsSync(join(second.path, "schema.ts"))).toBe(true);
+  });
+
+  test("reports conflicts with the user's own commits and leaves the merge for them to resolve", async () => {
+    const worktree = (await worktrees.acquire("s1", "t1"))!;
+    writeFileSync(join(worktree.path, "app.ts"), "export const value = 2;\n");
+    worktrees.commit("t1", "worker edit");
+    writeFileSync(join(project, "app.ts"), "export const value = 3;\n");
+    git(project, "commit", "-qam", "user edit");
+
+    const result = await worktrees.mergeSession("s1");
+    expect(result).toEqual({ merged: [], conflicts: ["app.ts"] });
+    expect(readFileSync(join(project, "app.ts"), "utf-8")).toContain("<<<<<<<");
+  });
+
+  test("rejecting drops the branches without touching the project", async () => {
+    const worktree = (await worktrees.acquire("s1", "t1"))!;
+    writeFileSync(join(worktree.path, "app.ts"), "export const value = 2;\n");
+    worktrees.commit("t1", "worker edit");
+    expect(worktrees.hasCommits("s1")).toBe(true);
+
+    worktrees.discardSession("s1");
+    expect(worktrees.hasSession("s1")).toBe(false);
+    expect(readFileSync(join(project, "app.ts"), "utf-8")).toBe("export const value = 1;\n");
+    expect(git(project, "branch", "--list", "kory/*")).toBe("");
+  });
+
+  test("picks up a previous run's worker branches after a restart", async () => {
+    const first = (await worktrees.acquire("s1", "t1"))!;
+    writeFileSync(join(first.path, "feature.ts"), "export {};\n");
+    worktrees.commit("t1", "add feature");
+    // The second worktree's directory is lost, as when the temp dir is cleared.
+    const second = (await worktrees.acquire("s1", "t2"))!;
+    writeFileSync(join(second.path, "other.ts"), "export {};\n");
+    worktrees.commit("t2", "add other");
+    rmSync(second.path, { recursive: true, force: true });
+    await worktrees.acquire("s2", "orphan");
+
+    const tasks: Record<string, { sessionId: string; createdAt: number }> = { t1: { sessionId: "s1", createdAt: 1 }, t2: { sessionId: "s1", createdAt: 2 } };
+    const restarted = new WorktreeManager(project, new GitManager(project), root);
+    expect(await restarted.reattach((taskId) => tasks[taskId])).toBe(2);
+    expect(restarted.get("t1")?.path).toBe(first.path);
+    expect(existsSync(join(second.path, "other.ts"))).toBe(true);
+    expect(restarted.hasSession("s2")).toBe(false);
+    expect(restarted.hasCommits("s1")).toBe(true);
+
+    expect(await restarted.mergeSession("s1")).toEqual({ merged: ["kory/t1", "kory/t2"], conflicts: [] });
+    expect(existsSync(join(project, "feature.ts"))).toBe(true);
+    expect(existsSync(join(project, "other.ts"))).toBe(true);
+  });
+
+  test("a resumed task continues on its existing branch", async () => {
+    const worktree = (await worktrees.acquire("s1", "t1"))!;
+    writeFileSync(join(worktree.path, "feature.ts"), "export {};\n");
+    worktrees.commit("t1", "add feature");
+    rmSync(worktree.path, { recursive: true, force: true });
+
+    const restarted = new WorktreeManager(project, new GitManager(project), root);
+    const resumed = (await restarted.acquire("s1", "t1"))!;
+    expect(resumed.branch).toBe("kory/t1");
+    expect(existsSync(join(resumed.path, "feature.ts"))).toBe(true);
+  });
+});
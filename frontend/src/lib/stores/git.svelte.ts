@@ -223,6 +223,13 @@ function clearConflicts() {
   state.conflicts = [];
 }
 
+/** Show conflicts left by a merge the server ran, e.g. when accepting worker branches. */
+async function reportConflicts(conflicts: string[]) {
+  state.conflicts = conflicts;
+  toastStore.warning('Merging worker changes left conflicts');
+  await refreshStatus();
+}
+
 export const gitStore = {
   get state() { return state; },
   refreshStatus,
@@ -236,4 +243,5 @@ export const gitStore = {
   checkout,
   merge,
   clearConflicts,
+  reportConflicts,
 };
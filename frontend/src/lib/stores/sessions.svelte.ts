@@ -1,10 +1,16 @@
 // Session management store — Svelte 5 runes
 // Handles CRUD, rename, search, date grouping, message history
 
-import type { Session } from '@koryphaios/shared';
+import { AUTONOMY_LEVELS, type AutonomyLevel, type Session, type StoredMessage } from '@koryphaios/shared';
 import { toastStore } from './toast.svelte';
 import { browser } from '$app/environment';
 
+export const AUTONOMY_LABELS: Record<AutonomyLevel, string> = {
+  suggest: 'Suggest Only',
+  auto_edit: 'Auto Edit',
+  full_auto: 'Full Auto',
+};
+
 let sessions = $state<Session[]>([]);
 let activeSessionId = $state<string>('');
 let searchQuery = $state<string>('');
@@ -80,6 +86,33 @@ async function renameSession(id: string, title: string) {
   }
 }
 
+async function setAutonomy(id: string, autonomy: AutonomyLevel) {
+  try {
+    const res = await fetch(`/api/sessions/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ autonomy }),
+    });
+    const data = await res.json();
+    if (data.ok) {
+      sessions = sessions.map(s => s.id === id ? data.data : s);
+    } else {
+      toastStore.error(data.error ?? 'Failed to change autonomy');
+    }
+  } catch {
+    toastStore.error('Failed to change autonomy');
+  }
+}
+
+/** Step the active session to the next autonomy level, wrapping back to suggest-only. */
+async function cycleAutonomy(): Promise<AutonomyLevel | null> {
+  const session = sessions.find(s => s.id === activeSessionId);
+  if (!session) return null;
+  const next = AUTONOMY_LEVELS[(AUTONOMY_LEVELS.indexOf(session.autonomy) + 1) % AUTONOMY_LEVELS.length];
+  await setAutonomy(session.id, next);
+  return next;
+}
+
 async function deleteSession(id: string) {
   try {
     await fetch(`/api/sessions/${id}`, { method: 'DELETE' });
@@ -93,7 +126,7 @@ async function deleteSession(id: string) {
   }
 }
 
-async function fetchMessages(sessionId: string): Promise<Array<{ id: string; role: string; content: string; createdAt: number; model?: string; cost?: number }>> {
+async function fetchMessages(sessionId: string): Promise<StoredMessage[]> {
   try {
     const res = await fetch(`/api/sessions/${sessionId}/messages`);
     const data = await res.json();
@@ -155,6 +188,9 @@ export const sessionStore = {
   get searchQuery() { return searchQuery; },
   set searchQuery(q: string) { searchQuery = q; },
   get loading() { return loading; },
+  get activeSession(): Session | undefined {
+    return sessions.find(s => s.id === activeSessionId);
+  },
 
   get filteredSessions(): Session[] {
     if (!searchQuery.trim()) return sessions;
@@ -169,6 +205,8 @@ export const sessionStore = {
   fetchSessions,
   createSession,
   renameSession,
+  setAutonomy,
+  cycleAutonomy,
   deleteSession,
   fetchMessages,
   handleSessionUpdate,
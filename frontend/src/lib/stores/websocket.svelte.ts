@@ -15,15 +15,28 @@ import type {
   StreamFileCompletePayload,
   KoryThoughtPayload,
   KoryRoutingPayload,
+  KoryVerificationPayload,
+  KoryTaskBreakdownPayload,
+  ContextFilesPayload,
+  SessionRunStatusPayload,
+  SessionUpdatedPayload,
   ProviderStatusPayload,
   ChangeSummary,
   KorySessionChangesPayload,
+  SessionMergeConflictsPayload,
+  Checkpoint,
   AgentSpawnedPayload,
   AgentStatusPayload,
   PermissionRequest,
-  Session,
+  PermissionResponse,
+  KoryPlanPayload,
+  KoryClarifyPayload,
+  PlanStep,
+  StoredMessage,
+  ContentBlock,
 } from "@koryphaios/shared";
 import { sessionStore } from './sessions.svelte';
+import { gitStore } from './git.svelte';
 import { browser } from '$app/environment';
 
 // ─── Agent State ────────────────────────────────────────────────────────────
@@ -40,6 +53,10 @@ interface AgentState {
   contextKnown: boolean;
   hasUsageData: boolean;
   sessionId: string;
+  /** Dollars spent by this agent in its session */
+  cost?: number;
+  /** Share of this agent's prompt tokens served from the provider's cache (0–1) */
+  cacheHitRate?: number;
 }
 
 // ─── Feed Entry ─────────────────────────────────────────────────────────────
@@ -69,10 +86,14 @@ let feed = $state<FeedEntry[]>([]);
 let providers = $state<ProviderStatusPayload["providers"]>([]);
 let koryThought = $state<string>("");
 let koryPhase = $state<string>("");
-let isYoloMode = $state<boolean>(false);
 let pendingPermissions = $state<PermissionRequest[]>([]);
 let pendingQuestion = $state<{ question: string; options: string[]; allowOther: boolean } | null>(null);
 let sessionChanges = $state<Map<string, ChangeSummary[]>>(new Map());
+let taskBreakdowns = $state<Map<string, KoryTaskBreakdownPayload["tasks"]>>(new Map());
+let pendingPlans = $state<Map<string, KoryPlanPayload>>(new Map());
+let pendingClarifications = $state<Map<string, KoryClarifyPayload>>(new Map());
+let sessionRuns = $state<Map<string, SessionRunStatusPayload>>(new Map());
+let sessionCheckpoints = $state<Map<string, Checkpoint[]>>(new Map());
 
 // Initialize manager agent state
 const initialAgents = new Map<string, AgentState>();
@@ -434,6 +455,91 @@ function handleMessage(msg: WSMessage) {
       break;
     }
 
+    case "kory.verification": {
+      const p = msg.payload as KoryVerificationPayload;
+      if (isForActiveSession) {
+        const summary = p.checks.map((c) => {
+          const problems = c.failures.length > 0 ? ` (${c.failures.length} problem${c.failures.length === 1 ? "" : "s"})` : "";
+          return `${c.passed ? "✓" : "✗"} ${c.name}${c.cwd === "." ? "" : ` [${c.cwd}]`}${c.passed ? "" : problems}`;
+        });
+        addFeedEntry({
+          timestamp: msg.timestamp,
+          type: p.passed ? "tool_result" : "error",
+          agentId: "kory-manager",
+          agentName: "Kory",
+          glowClass: "glow-kory",
+          text: `Verification ${p.passed ? "passed" : "failed"}: ${summary.join(", ")}`,
+          metadata: { taskId: p.taskId, checks: p.checks },
+        });
+      }
+      break;
+    }
+
+    case "kory.task_breakdown": {
+      const p = msg.payload as KoryTaskBreakdownPayload;
+      if (msg.sessionId) {
+        taskBreakdowns.set(msg.sessionId, p.tasks);
+        taskBreakdowns = new Map(taskBreakdowns);
+      }
+      break;
+    }
+
+    case "kory.clarify": {
+      if (msg.sessionId) {
+        pendingClarifications.set(msg.sessionId, msg.payload as KoryClarifyPayload);
+        pendingClarifications = new Map(pendingClarifications);
+      }
+      break;
+    }
+
+    case "kory.plan": {
+      const p = msg.payload as KoryPlanPayload;
+      if (!msg.sessionId) break;
+      if (p.awaitingApproval) {
+        pendingPlans.set(msg.sessionId, p);
+      } else {
+        pendingPlans.delete(msg.sessionId);
+        if (isForActiveSession) {
+          addFeedEntry({
+            timestamp: msg.timestamp,
+            type: "system",
+            agentId: "kory-manager",
+            agentName: "Kory",
+            glowClass: "glow-kory",
+            text: `Plan:\n${p.steps.map((step, i) => `${i + 1}. ${step.description}`).join("\n")}`,
+            metadata: { plan: p },
+          });
+        }
+      }
+      pendingPlans = new Map(pendingPlans);
+      break;
+    }
+
+    case "kory.context_files": {
+      const p = msg.payload as ContextFilesPayload;
+      if (isForActiveSession && p.files.length > 0) {
+        const isKory = p.agentId === "kory-manager";
+        addFeedEntry({
+          timestamp: msg.timestamp,
+          type: "system",
+          agentId: p.agentId,
+          agentName: isKory ? "Kory" : agents.get(p.agentId)?.identity.name ?? "Worker",
+          glowClass: isKory ? "glow-kory" : resolveGlowClass(agents.get(p.agentId)?.identity),
+          text: `Context files: ${p.files.map((f) => f.truncated ? `${f.path} (truncated)` : f.path).join(", ")}`,
+          metadata: { contextFiles: p.files },
+        });
+      }
+      break;
+    }
+
+    case "session.run_status": {
+      const p = msg.payload as SessionRunStatusPayload;
+      if (p.state === "idle" && p.queued === 0) sessionRuns.delete(p.sessionId);
+      else sessionRuns.set(p.sessionId, p);
+      sessionRuns = new Map(sessionRuns);
+      break;
+    }
+
     case "kory.ask_user": {
       const p = msg.payload as any;
       pendingQuestion = {
@@ -451,8 +557,17 @@ function handleMessage(msg: WSMessage) {
     }
 
     case "session.updated": {
-      const p = msg.payload as { session: Session };
+      const p = msg.payload as SessionUpdatedPayload;
       if (p.session) sessionStore.handleSessionUpdate(p.session);
+      if (p.agentUsage?.length) {
+        for (const usage of p.agentUsage) {
+          const agent = agents.get(usage.agentId);
+          if (!agent) continue;
+          agent.cost = usage.cost;
+          agent.cacheHitRate = usage.tokensIn > 0 ? usage.tokensCacheRead / usage.tokensIn : 0;
+        }
+        agents = new Map(agents);
+      }
       break;
     }
 
@@ -471,6 +586,23 @@ function handleMessage(msg: WSMessage) {
       break;
     }
 
+    case "session.merge_conflicts": {
+      const p = msg.payload as SessionMergeConflictsPayload;
+      // Conflicts are in the shared working tree, so show them whichever session is open
+      void gitStore.reportConflicts(p.conflicts);
+      break;
+    }
+
+    case "session.checkpoint": {
+      const p = msg.payload as Checkpoint;
+      const existing = sessionCheckpoints.get(p.sessionId) ?? [];
+      if (!existing.some((c) => c.id === p.id)) {
+        sessionCheckpoints.set(p.sessionId, [...existing, p]);
+        sessionCheckpoints = new Map(sessionCheckpoints);
+      }
+      break;
+    }
+
     case "session.accept_changes": {
       if (msg.sessionId) {
         sessionChanges.delete(msg.sessionId);
@@ -486,7 +618,7 @@ function handleMessage(msg: WSMessage) {
     }
 
     case "permission.response": {
-      const p = msg.payload as { id: string; response: string };
+      const p = msg.payload as { id: string; response: PermissionResponse };
       pendingPermissions = pendingPermissions.filter(perm => perm.id !== p.id);
       break;
     }
@@ -593,20 +725,20 @@ function disconnect() {
   connectionStatus = "disconnected";
 }
 
-function sendMessage(sessionId: string, content: string, model?: string, reasoningLevel?: string) {
+function sendMessage(sessionId: string, content: string, model?: string, reasoningLevel?: string, interrupt = false) {
   addUserMessage(sessionId, content);
   fetch("/api/messages", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ sessionId, content, model, reasoningLevel }),
+    body: JSON.stringify({ sessionId, content, model, reasoningLevel, interrupt }),
   }).catch(() => { });
 }
 
-function respondToPermission(id: string, approved: boolean) {
+function respondToPermission(id: string, response: PermissionResponse) {
   if (wsConnection?.readyState === WebSocket.OPEN) {
     wsConnection.send(JSON.stringify({
       type: "permission.response",
-      payload: { id, response: approved ? "granted" : "denied" },
+      payload: { id, response },
       timestamp: Date.now(),
     }));
   }
@@ -615,20 +747,57 @@ function respondToPermission(id: string, approved: boolean) {
 
 // ─── Session Message Loading ────────────────────────────────────────────────
 
-function loadSessionMessages(sessionId: string, messages: Array<{ id: string; role: string; content: string; createdAt: number; model?: string; cost?: number }>) {
+/** Seed a session's checkpoint timeline; later checkpoints arrive over the socket. */
+function setCheckpoints(sessionId: string, checkpoints: Checkpoint[]) {
+  sessionCheckpoints.set(sessionId, checkpoints);
+  sessionCheckpoints = new Map(sessionCheckpoints);
+}
+
+function loadSessionMessages(sessionId: string, messages: StoredMessage[]) {
   // Clear current feed and populate with historical messages
   koryThought = "";
   koryPhase = "";
-  feed = messages.map((m) => ({
-    id: `hist-${m.id}`,
-    timestamp: m.createdAt,
-    type: m.role === "user" ? "user_message" as const : "content" as const,
-    agentId: m.role === "user" ? "user" : "kory-manager",
-    agentName: m.role === "user" ? "You" : "Kory",
-    glowClass: m.role === "user" ? "" : "glow-kory",
-    text: m.content,
-    metadata: { sessionId, model: m.model, cost: m.cost },
-  }));
+  feed = messages.flatMap((m) => historyEntries(sessionId, m));
+}
+
+/** Content is a JSON ContentBlock[] for structured turns, or raw text for older messages. */
+function parseStoredContent(raw: string): ContentBlock[] {
+  if (raw.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed) && parsed.every((b) => b && typeof b.type === "string")) return parsed;
+    } catch {}
+  }
+  return [{ type: "text", text: raw }];
+}
+
+function historyEntries(sessionId: string, m: StoredMessage): FeedEntry[] {
+  const base = { timestamp: m.createdAt, metadata: { sessionId, model: m.model, cost: m.cost } };
+  if (m.role === "user" && !m.agentId) {
+    return [{ ...base, id: `hist-${m.id}`, type: "user_message", agentId: "user", agentName: "You", glowClass: "", text: m.content }];
+  }
+
+  const agentId = m.agentId ?? "kory-manager";
+  const agent = { agentId, agentName: m.agentId ? "Worker" : "Kory", glowClass: m.agentId ? "" : "glow-kory" };
+  return parseStoredContent(m.content).flatMap((block, i): FeedEntry[] => {
+    const id = `hist-${m.id}-${i}`;
+    if (block.type === "tool_use" && block.toolCall) {
+      return [{ ...base, ...agent, id, type: "tool_call", text: `Calling tool: ${block.toolCall.name}`, metadata: { ...base.metadata, toolCall: block.toolCall } }];
+    }
+    if (block.type === "tool_result" && block.toolResult) {
+      const r = block.toolResult;
+      const text = r.isError ? `Tool error: ${r.output.slice(0, 200)}` : `Tool result: ${r.output.slice(0, 200)}`;
+      return [{ ...base, ...agent, id, type: "tool_result", text, metadata: { ...base.metadata, toolResult: r } }];
+    }
+    if (block.type === "thinking" && block.thinking) {
+      return [{ ...base, ...agent, id, type: "thinking", text: block.thinking }];
+    }
+    // Text in a worker's user turn is Kory's delegated instruction, not something the user wrote.
+    if (block.type === "text" && block.text && m.role === "assistant") {
+      return [{ ...base, ...agent, id, type: "content", text: block.text }];
+    }
+    return [];
+  });
 }
 
 function removeEntries(ids: Set<string>) {
@@ -726,6 +895,7 @@ function getContextUsage(): { used: number; max: number; percent: number; isReli
 }
 
 function isSessionRunning(sessionId: string): boolean {
+  if (sessionRuns.has(sessionId)) return true;
   for (const a of agents.values()) {
     if (a.sessionId === sessionId && a.status !== 'idle' && a.status !== 'done') {
       return true;
@@ -747,6 +917,35 @@ function sendUserInput(sessionId: string, selection: string, text?: string) {
   pendingQuestion = null;
 }
 
+function respondToClarification(sessionId: string, answers: string[]) {
+  if (wsConnection?.readyState === WebSocket.OPEN) {
+    wsConnection.send(JSON.stringify({
+      type: "clarify.response",
+      sessionId,
+      answers,
+      timestamp: Date.now(),
+    }));
+  }
+  pendingClarifications.delete(sessionId);
+  pendingClarifications = new Map(pendingClarifications);
+}
+
+function respondToPlan(sessionId: string, planId: string, edit: { steps: Array<Omit<PlanStep, "id">>; allowedPaths: string[] } | null) {
+  if (wsConnection?.readyState === WebSocket.OPEN) {
+    wsConnection.send(JSON.stringify({
+      type: "plan.response",
+      sessionId,
+      planId,
+      approved: edit !== null,
+      steps: edit?.steps,
+      allowedPaths: edit?.allowedPaths,
+      timestamp: Date.now(),
+    }));
+  }
+  pendingPlans.delete(sessionId);
+  pendingPlans = new Map(pendingPlans);
+}
+
 function respondToChanges(sessionId: string, accepted: boolean) {
   if (wsConnection?.readyState === WebSocket.OPEN) {
     wsConnection.send(JSON.stringify({
@@ -759,6 +958,24 @@ function respondToChanges(sessionId: string, accepted: boolean) {
   sessionChanges = new Map(sessionChanges);
 }
 
+/**
+ * Accept or reject one file of the pending changes, or one hunk of it. The backend answers
+ * with the changes still pending.
+ */
+function reviewChange(sessionId: string, path: string, accepted: boolean, hunk?: number) {
+  if (wsConnection?.readyState !== WebSocket.OPEN) return;
+  const change = sessionChanges.get(sessionId)?.find((c) => c.path === path);
+  wsConnection.send(JSON.stringify({
+    type: "session.review_change",
+    sessionId,
+    path,
+    accepted,
+    hunk,
+    header: hunk === undefined ? undefined : change?.hunks?.[hunk]?.header,
+    timestamp: Date.now(),
+  }));
+}
+
 function clearFeed() {
   feed = [];
   activeFileEdits = new Map();
@@ -768,17 +985,6 @@ function clearFeed() {
   if (manager) agents.set('kory-manager', { ...manager, content: '', thinking: '', toolCalls: [] });
 }
 
-function toggleYolo() {
-  isYoloMode = !isYoloMode;
-  if (wsConnection?.readyState === WebSocket.OPEN) {
-    wsConnection.send(JSON.stringify({
-      type: "toggle_yolo",
-      enabled: isYoloMode,
-      timestamp: Date.now(),
-    }));
-  }
-}
-
 // ─── Exported Store ─────────────────────────────────────────────────────────
 
 export const wsStore = {
@@ -790,10 +996,14 @@ export const wsStore = {
   get providers() { return providers; },
   get koryThought() { return koryThought; },
   get koryPhase() { return koryPhase; },
-  get isYoloMode() { return isYoloMode; },
   get pendingPermissions() { return pendingPermissions; },
   get pendingQuestion() { return pendingQuestion; },
   get sessionChanges() { return sessionChanges; },
+  get taskBreakdowns() { return taskBreakdowns; },
+  get pendingPlans() { return pendingPlans; },
+  get pendingClarifications() { return pendingClarifications; },
+  get sessionRuns() { return sessionRuns; },
+  get sessionCheckpoints() { return sessionCheckpoints; },
   get activeFileEdits() { return activeFileEdits; },
   get managerStatus() { return getManagerStatus(); },
   get contextUsage() { return getContextUsage(); },
@@ -803,9 +1013,12 @@ export const wsStore = {
   sendMessage,
   sendUserInput,
   respondToChanges,
+  reviewChange,
+  respondToPlan,
+  respondToClarification,
   loadSessionMessages,
+  setCheckpoints,
   removeEntries,
   respondToPermission,
   clearFeed,
-  toggleYolo,
 };
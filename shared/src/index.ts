@@ -109,6 +109,8 @@ export const ProviderName = {
   // Additional providers (to match OpenCode coverage)
   Novita: "novita",
   Banbri: "banbri",
+  // Testing — replays scripted responses
+  Mock: "mock",
 } as const;
 
 export type ProviderName = (typeof ProviderName)[keyof typeof ProviderName];
@@ -153,7 +155,7 @@ export type ProviderAuthMode = "api_key" | "auth_only" | "api_key_or_auth" | "ba
 
 export type AgentRole = "manager" | "coder" | "task" | "reviewer" | "title" | "summarizer" | "critic";
 
-export type AgentStatus = "idle" | "thinking" | "tool_calling" | "streaming" | "verifying" | "compacting" | "waiting_user" | "error" | "done" | "reading" | "writing" | "criticizing";
+export type AgentStatus = "idle" | "thinking" | "tool_calling" | "streaming" | "verifying" | "compacting" | "waiting_user" | "error" | "done" | "cancelled" | "reading" | "writing" | "criticizing";
 
 export type WorkerDomain = "frontend" | "backend" | "general" | "review" | "test" | "critic";
 
@@ -186,6 +188,8 @@ export type ToolName =
   | "web_search"
   | "ask_user"
   | "ask_manager"
+  | "remember"
+  | "recall"
   | "agent"
   | string; // MCP tools use dynamic names
 
@@ -237,18 +241,70 @@ export interface StoredMessage {
   content: string; // JSON string of ContentBlock[] or raw text
   model?: string;
   provider?: ProviderName;
+  /** Worker that produced the turn; unset for the user's own messages and Kory's replies */
+  agentId?: string;
   tokensIn?: number;
   tokensOut?: number;
   cost?: number;
   createdAt: number;
 }
 
+export type MemoryCategory = "build" | "convention" | "decision" | "fact";
+
+/** A durable project fact stored in .koryphaios/memory and injected into agent prompts */
+export interface MemoryEntry {
+  id: string;
+  content: string;
+  category: MemoryCategory;
+  tags: string[];
+  /** Who recorded it: an agent during a session, or the user from settings */
+  source: "agent" | "user";
+  sessionId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A worker task persisted so interrupted runs can be resumed after a restart */
+export interface StoredTask {
+  id: string;
+  sessionId: string;
+  /** Groups the tasks created by one processTask run (a breakdown shares one runId) */
+  runId?: string;
+  description: string;
+  domain: WorkerDomain;
+  assignedModel: string;
+  assignedProvider: ProviderName;
+  status: "pending" | "active" | "done" | "failed";
+  dependsOn: string[];
+  plan?: string;
+  /** The approved plan the run's tasks were created from */
+  planSteps?: PlanStep[];
+  allowedPaths: string[];
+  /** JSONL file holding the worker's conversation for this task */
+  transcriptPath?: string;
+  result?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // ─── Session Types ──────────────────────────────────────────────────────────
 
+/**
+ * How much Kory may do without asking, per session:
+ * - suggest: every file edit and shell command needs approval, as does the plan
+ * - auto_edit: file edits run freely; shell commands and the plan need approval
+ * - full_auto: no approval prompts; changes are accepted automatically
+ * Project permission rules apply at every level.
+ */
+export const AUTONOMY_LEVELS = ["suggest", "auto_edit", "full_auto"] as const;
+export type AutonomyLevel = (typeof AUTONOMY_LEVELS)[number];
+
 export interface Session {
   id: string;
   title: string;
   parentSessionId?: string;
+  autonomy: AutonomyLevel;
   messageCount: number;
   totalTokensIn: number;
   totalTokensOut: number;
@@ -257,6 +313,26 @@ export interface Session {
   updatedAt: number;
 }
 
+/** Tokens and cost an agent has spent within a session (manager calls count toward Kory) */
+export interface AgentUsage {
+  agentId: string;
+  model?: string;
+  calls: number;
+  tokensIn: number;
+  tokensOut: number;
+  /** Prompt tokens served from the provider's cache */
+  tokensCacheRead: number;
+  /** Prompt tokens written to the provider's cache */
+  tokensCacheWrite: number;
+  cost: number;
+}
+
+export interface SessionUpdatedPayload {
+  session: Session;
+  /** Per-agent breakdown for agents that ran since the server started */
+  agentUsage?: AgentUsage[];
+}
+
 // ─── Permission System ──────────────────────────────────────────────────────
 
 export interface PermissionRequest {
@@ -271,6 +347,25 @@ export interface PermissionRequest {
 
 export type PermissionResponse = "granted" | "denied" | "granted_session";
 
+export type PermissionAction = "allow" | "ask" | "deny";
+
+/** Matches a tool call when every field it sets matches; the first matching rule wins. */
+export interface PermissionRule {
+  /** Tool name, or "*" for any tool */
+  tool?: string;
+  /** Glob matched against paths relative to the project root */
+  path?: string;
+  /** Shell command pattern for bash, where "*" matches anything; chained commands are matched program by program */
+  command?: string;
+  action: PermissionAction;
+}
+
+export interface PermissionPolicy {
+  rules?: PermissionRule[];
+  /** Action when no rule matches (default "allow") */
+  default?: PermissionAction;
+}
+
 // ─── WebSocket Protocol ─────────────────────────────────────────────────────
 // Every message over the wire follows this envelope.
 
@@ -296,6 +391,10 @@ export type WSEventType =
   | "session.deleted"
   | "session.changes"
   | "session.accept_changes"
+  | "session.review_change"
+  | "session.run_status"
+  | "session.merge_conflicts"
+  | "session.checkpoint"
   // Permission events
   | "permission.request"
   | "permission.response"
@@ -309,7 +408,10 @@ export type WSEventType =
   | "kory.routing"
   | "kory.verification"
   | "kory.task_breakdown"
-  | "kory.ask_user";
+  | "kory.context_files"
+  | "kory.ask_user"
+  | "kory.plan"
+  | "kory.clarify";
 
 export interface WSMessage<T = unknown> {
   type: WSEventType;
@@ -327,6 +429,31 @@ export interface AgentSpawnedPayload {
   parentAgentId?: string;
 }
 
+/** A project context file (CLAUDE.md, AGENTS.md, ...) merged into an agent's system prompt */
+export interface ContextFileInfo {
+  /** Path relative to the project root */
+  path: string;
+  /** Characters included in the prompt */
+  chars: number;
+  truncated: boolean;
+}
+
+export interface ContextFilesPayload {
+  agentId: string;
+  files: ContextFileInfo[];
+}
+
+export type SessionRunState = "idle" | "running" | "interrupting";
+
+export interface SessionRunStatusPayload {
+  sessionId: string;
+  state: SessionRunState;
+  /** Runs waiting behind the current one */
+  queued: number;
+  /** Short description of the run in progress */
+  current?: string;
+}
+
 export interface AgentStatusPayload {
   agentId: string;
   status: AgentStatus;
@@ -398,6 +525,32 @@ export interface KoryRoutingPayload {
   reasoning: string;
 }
 
+/** Outcome of the verification checks run after a worker finishes */
+export interface KoryVerificationPayload {
+  taskId?: string;
+  passed: boolean;
+  checks: VerificationCheckResult[];
+}
+
+export interface VerificationCheckResult {
+  name: string;
+  command: string;
+  /** Project-relative directory the check ran in ("." for the root) */
+  cwd: string;
+  passed: boolean;
+  durationMs: number;
+  /** Problems parsed from the output, e.g. compiler errors or failing tests */
+  failures: VerificationFailure[];
+  /** Tail of the output, for failures the parsers didn't recognise */
+  output: string;
+}
+
+export interface VerificationFailure {
+  file?: string;
+  line?: number;
+  message: string;
+}
+
 export interface KoryTaskBreakdownPayload {
   tasks: Array<{
     id: string;
@@ -405,9 +558,34 @@ export interface KoryTaskBreakdownPayload {
     domain: WorkerDomain;
     assignedModel: string;
     status: "pending" | "active" | "done" | "failed";
+    dependsOn?: string[];
+    error?: string;
   }>;
 }
 
+export interface PlanStep {
+  id: string;
+  description: string;
+  /** Files the step expects to create or change */
+  files: string[];
+}
+
+export interface KoryPlanPayload {
+  planId: string;
+  steps: PlanStep[];
+  /** Paths workers may touch, as proposed by Kory or edited by the user */
+  allowedPaths: string[];
+  /** False once approved, or when the session's autonomy skips approval */
+  awaitingApproval: boolean;
+}
+
+export interface KoryClarifyPayload {
+  questions: string[];
+  reason: string;
+  /** What Kory will assume for anything left unanswered */
+  assumptions: string[];
+}
+
 export interface KoryAskUserPayload {
   question: string;
   options: string[];
@@ -419,12 +597,80 @@ export interface ChangeSummary {
   linesAdded: number;
   linesDeleted: number;
   operation: "create" | "edit" | "delete";
+  /** Pending edits to the file, each reviewable on its own; absent for whole-file and binary changes */
+  hunks?: DiffHunk[];
+}
+
+/** One hunk of a unified diff */
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@` line, which also identifies the hunk when reviewing it */
+  header: string;
+  /** Diff lines, each prefixed with " ", "-" or "+" */
+  lines: string[];
+}
+
+/** Accept or reject one file of a session's pending changes, or one hunk of it */
+export interface SessionReviewChangePayload {
+  path: string;
+  accepted: boolean;
+  /** Index into the file's `hunks`; the whole file when absent */
+  hunk?: number;
+  /** Header of that hunk as the client saw it, so a stale review is refused */
+  header?: string;
 }
 
 export interface KorySessionChangesPayload {
   changes: ChangeSummary[];
 }
 
+/** What rejecting a session's changes would do to one file the agents wrote */
+export interface RevertPreviewEntry {
+  /** Project-relative path */
+  path: string;
+  /**
+   * restore: put the original content back; delete: remove a file the agents created;
+   * merge: undo the agents' edits around changes the user made since; keep: leave the file alone
+   */
+  action: "restore" | "delete" | "merge" | "keep";
+  /** Unified diff from the file as it is now to what rejecting leaves */
+  diff: string;
+  /** The merge can't undo every agent edit cleanly and leaves conflict markers */
+  conflict?: boolean;
+  /** Why a file is kept as it is */
+  reason?: string;
+}
+
+/** A restore point of the project's files, recorded as a session's agents work */
+export interface Checkpoint {
+  id: string;
+  sessionId: string;
+  label: string;
+  createdAt: number;
+  /** Worker whose turn produced it; absent for run-level checkpoints */
+  agentId?: string;
+  /** Project-relative files that differ from the session's previous checkpoint */
+  changedFiles: string[];
+}
+
+export interface CheckpointFileDiff {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  /** Unified diff of the file */
+  diff: string;
+}
+
+export interface CheckpointRestoreResult {
+  /** Checkpoint of the files just before the restore, so it can be undone */
+  undo: Checkpoint | null;
+  written: string[];
+  removed: string[];
+}
+
+/** Files left with conflict markers after merging accepted worker branches */
+export interface SessionMergeConflictsPayload {
+  conflicts: string[];
+}
+
 export interface ProviderStatusPayload {
   providers: Array<{
     name: ProviderName;
@@ -452,8 +698,10 @@ export interface ProviderStatusPayload {
 export interface KoryphaiosConfig {
   providers: Record<string, ProviderConfig>;
   agents: {
-    manager: { model: string; maxTokens?: number; reasoningLevel?: string };
-    coder: { model: string; maxTokens?: number; reasoningLevel?: string };
+    /** maxClarifyQuestions caps the questions Kory may ask before planning; 0 turns the clarification gate off */
+    manager: { model: string; maxTokens?: number; reasoningLevel?: string; maxClarifyQuestions?: number };
+    /** isolation "worktree" runs each worker in its own git worktree, in parallel; "shared" (default) edits the project in place, one worker at a time */
+    coder: { model: string; maxTokens?: number; reasoningLevel?: string; isolation?: WorkerIsolation };
     task: { model: string; maxTokens?: number };
   };
   /** Mapping of worker domains to specific models. Example: "ui": "openai:gpt-4.1" */
@@ -474,9 +722,55 @@ export interface KoryphaiosConfig {
     host: string;
   };
   contextPaths?: string[];
+  /** Spend limits; unset limits are not enforced */
+  budgets?: BudgetConfig;
+  /** Tool permission rules, checked before the built-in defaults */
+  permissions?: PermissionPolicy;
+  /** Checks run on workers' changes before they're accepted; detected from the project when unset */
+  verification?: VerificationConfig;
+  /** Record provider calls to a cassette, or replay them from one instead of calling providers */
+  cassette?: CassetteConfig;
   dataDirectory: string;
 }
 
+export type WorkerIsolation = "shared" | "worktree";
+
+export interface VerificationConfig {
+  /** Skip verification entirely */
+  disabled?: boolean;
+  /** Checks to run instead of the detected ones */
+  checks?: VerificationCheck[];
+  /** Default per-check timeout (default 300) */
+  timeoutSeconds?: number;
+}
+
+export interface VerificationCheck {
+  /** e.g. "typecheck", "lint", "test" */
+  name: string;
+  command: string;
+  /** Project-relative directory to run in; the check only runs when a changed file is inside it */
+  cwd?: string;
+  timeoutSeconds?: number;
+}
+
+export interface CassetteConfig {
+  mode: "record" | "replay";
+  /** JSONL file of recorded calls; recording appends to it */
+  path: string;
+}
+
+export interface BudgetConfig {
+  /** Max USD for one request to Kory, including every worker it spawns */
+  maxTaskUsd?: number;
+  maxSessionUsd?: number;
+  /** Max USD across all sessions per calendar day (server local time) */
+  maxDailyUsd?: number;
+  /** Max tokens (input + output) a single worker may use */
+  maxWorkerTokens?: number;
+  /** Fraction of a limit at which Kory pauses to ask before continuing (default 0.8) */
+  softLimitRatio?: number;
+}
+
 export interface MCPServerConfig {
   type: "stdio" | "sse";
   command?: string;
@@ -500,6 +794,8 @@ export interface SendMessageRequest {
   attachments?: Array<{ type: "image" | "file"; data: string; name: string }>;
   model?: string;
   reasoningLevel?: string;
+  /** Stop the session's current run and handle this message next, instead of queueing it */
+  interrupt?: boolean;
 }
 
 export interface CreateSessionRequest {